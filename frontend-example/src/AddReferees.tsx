@@ -3,21 +3,25 @@
  * Form to add multiple referees to a reference request
  */
 
-import React, { useState } from 'react';
-
-interface Referee {
-  first_name: string;
-  last_name: string;
-  email: string;
-  phone_number: string;
-  relationship: string;
-  company: string;
-}
+import React, { useEffect, useState } from 'react';
+import { useApi, NewReferee as Referee, Referee as SavedReferee, RequestDetail } from './api';
+import { validateReferee } from './validation';
+import { refereeWarnings } from './duplicates';
+import { suggestEmailCorrection } from './emailDomains';
+import { EmailHint } from './EmailHint';
+import { PhoneInput } from './PhoneInput';
+import { normalizePhone } from './phone';
+import { useConfirm } from './FeedbackContext';
+import { API_URL } from './config';
 
 interface AddRefereesProps {
   requestId: string;
-  onSuccess?: (contacts: any[]) => void;
+  onSuccess?: (contacts: SavedReferee[]) => void;
   onError?: (error: string) => void;
+  /** Open the request, e.g. to review a referee who is already on it */
+  onOpenRequest?: (requestId: string) => void;
+  /** Continue without adding referees, e.g. when the candidate will nominate them */
+  onSkip?: () => void;
   apiUrl?: string;
 }
 
@@ -25,7 +29,9 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
   requestId,
   onSuccess,
   onError,
-  apiUrl = 'http://localhost:5001/api',
+  onOpenRequest,
+  onSkip,
+  apiUrl = API_URL,
 }) => {
   const [referees, setReferees] = useState<Referee[]>([
     {
@@ -41,6 +47,22 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [sendImmediately, setSendImmediately] = useState(true);
+  const [detail, setDetail] = useState<RequestDetail | null>(null);
+  const api = useApi(apiUrl);
+  const confirm = useConfirm();
+
+  // The candidate and current referees are only needed for duplicate warnings
+  useEffect(() => {
+    let cancelled = false;
+    api.requests.get(requestId)
+      .then(data => { if (!cancelled) setDetail(data); })
+      .catch(err => console.error('Error fetching request for duplicate checks:', err));
+    return () => { cancelled = true; };
+  }, [requestId]);
+
+  const warnings = referees.map((_, index) =>
+    refereeWarnings(referees, index, detail?.request ?? null, detail?.referees ?? [])
+  );
 
   const addRefereeField = () => {
     setReferees([
@@ -82,20 +104,9 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
     const newErrors: Record<string, string> = {};
 
     referees.forEach((referee, index) => {
-      if (!referee.first_name.trim()) {
-        newErrors[`${index}_first_name`] = 'First name is required';
-      }
-      if (!referee.last_name.trim()) {
-        newErrors[`${index}_last_name`] = 'Last name is required';
-      }
-      if (!referee.email.trim()) {
-        newErrors[`${index}_email`] = 'Email is required';
-      } else if (!referee.email.match(/^[^\s@]+@[^\s@]+\.[^\s@]+$/)) {
-        newErrors[`${index}_email`] = 'Invalid email format';
-      }
-      if (!referee.relationship.trim()) {
-        newErrors[`${index}_relationship`] = 'Relationship is required';
-      }
+      Object.entries(validateReferee(referee)).forEach(([field, message]) => {
+        newErrors[`${index}_${field}`] = message;
+      });
     });
 
     setErrors(newErrors);
@@ -109,28 +120,30 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
       return;
     }
 
+    const flagged = warnings.flatMap((list, index) => list.map(w => `Referee ${index + 1}: ${w.message}`));
+    referees.forEach((referee, index) => {
+      const suggestion = suggestEmailCorrection(referee.email);
+      if (suggestion) flagged.push(`Referee ${index + 1}: ${referee.email.trim()} may be a typo of ${suggestion}`);
+    });
+    if (flagged.length > 0) {
+      const proceed = await confirm({
+        title: 'Check these referees',
+        message: `${flagged.join('\n')}\n\nAdd them anyway?`,
+        confirmText: 'Add Anyway',
+      });
+      if (!proceed) return;
+    }
+
     setLoading(true);
     setErrors({});
 
     try {
       // Use different endpoint based on sendImmediately setting
-      const endpoint = sendImmediately
-        ? `${apiUrl}/requests/${requestId}/referees/send`
-        : `${apiUrl}/requests/${requestId}/referees`;
-
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ referees }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to add referees');
-      }
+      const data = await api.referees.add(
+        requestId,
+        referees.map(referee => ({ ...referee, phone_number: normalizePhone(referee.phone_number) })),
+        sendImmediately
+      );
 
       if (onSuccess && data.contacts) {
         onSuccess(data.contacts);
@@ -232,21 +245,29 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
                   placeholder="jane.smith@company.com"
                   className={errors[`${index}_email`] ? 'error' : ''}
                 />
-                {errors[`${index}_email`] && (
+                {errors[`${index}_email`] ? (
                   <span className="error-message">{errors[`${index}_email`]}</span>
+                ) : (
+                  <EmailHint
+                    email={referee.email}
+                    relationship={referee.relationship}
+                    onApplySuggestion={(email) => handleRefereeChange(index, 'email', email)}
+                  />
                 )}
               </div>
 
               {/* Phone Number */}
               <div className="form-group">
                 <label htmlFor={`phone_number_${index}`}>Phone Number</label>
-                <input
-                  type="tel"
+                <PhoneInput
                   id={`phone_number_${index}`}
                   value={referee.phone_number}
-                  onChange={(e) => handleRefereeChange(index, 'phone_number', e.target.value)}
-                  placeholder="+1-555-0100"
+                  onChange={(value) => handleRefereeChange(index, 'phone_number', value)}
+                  className={errors[`${index}_phone_number`] ? 'error' : ''}
                 />
+                {errors[`${index}_phone_number`] && (
+                  <span className="error-message">{errors[`${index}_phone_number`]}</span>
+                )}
               </div>
             </div>
 
@@ -284,6 +305,23 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
                 Where you worked together (or context for personal references)
               </span>
             </div>
+
+            {warnings[index].length > 0 && (
+              <div className="duplicate-warnings" role="status">
+                <ul>
+                  {warnings[index].map(warning => (
+                    <li key={warning.message}>
+                      ⚠️ {warning.message}
+                      {onOpenRequest && warning.requestId && (
+                        <button type="button" onClick={() => onOpenRequest(warning.requestId!)} className="btn-link">
+                          View existing referees
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         ))}
 
@@ -327,6 +365,11 @@ export const AddReferees: React.FC<AddRefereesProps> = ({
           <button type="submit" disabled={loading} className="btn-primary">
             {loading ? (sendImmediately ? 'Adding & Sending...' : 'Adding Referees...') : (sendImmediately ? `Add & Send to ${referees.length} Referee${referees.length > 1 ? 's' : ''}` : `Add ${referees.length} Referee${referees.length > 1 ? 's' : ''}`)}
           </button>
+          {onSkip && (
+            <button type="button" onClick={onSkip} disabled={loading} className="btn-link">
+              Skip - the candidate will nominate referees
+            </button>
+          )}
         </div>
       </form>
     </div>
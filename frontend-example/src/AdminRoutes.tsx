@@ -0,0 +1,336 @@
+/**
+ * Admin Route Components
+ * URL-addressable pages rendered inside the ReferenceRequestApp layout
+ *
+ * Each page reads its ids from the URL and rehydrates what it needs from
+ * the API, so refresh, the back button and shared links all land on the
+ * same screen:
+ *   /requests                     - request list (filters in the query string)
+ *   /requests/new                 - pick a template (?template=<id> shows the form)
+ *   /requests/import              - import candidates from CSV
+ *   /requests/:requestId          - candidate detail and timeline
+ *   /requests/:requestId/referees - add referees
+ *   /requests/:requestId/send     - send invitations
+ *   /templates                    - template library
+ *   /templates/new                - template builder
+ *   /templates/:templateId/edit   - edit a template in the builder
+ *   /settings                     - contact settings
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { RequestList } from './RequestList';
+import { CandidateDetail } from './CandidateDetail';
+import { CandidateImport } from './CandidateImport';
+import { CreateReferenceRequest } from './CreateReferenceRequest';
+import { AddReferees } from './AddReferees';
+import { SendInvitations } from './SendInvitations';
+import { TemplateLibrary } from './TemplateLibrary';
+import { TemplateBuilder } from './TemplateBuilder';
+import { Settings } from './Settings';
+import { useCurrentUser } from './AuthContext';
+import { useToast } from './FeedbackContext';
+import { useApi } from './api';
+import { filtersFromSearchParams, filtersToSearchParams } from './requestFilters';
+import { API_URL } from './config';
+
+interface AdminRouteProps {
+  apiUrl?: string;
+}
+
+/** Router state accepted by /requests, e.g. when opened from a notification */
+export interface RequestsLocationState {
+  focusRequest?: { requestId: string; candidateName: string };
+}
+
+/** Router state accepted by the template builder routes */
+interface TemplateBuilderLocationState {
+  returnTo?: string;
+}
+
+export const RequestsRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const focusRequest = (location.state as RequestsLocationState | null)?.focusRequest ?? null;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+
+  return (
+    <>
+      <div className="page-header">
+        <button onClick={() => navigate('/requests/new')} className="btn-primary">
+          + New Reference Request
+        </button>
+        <button onClick={() => navigate('/requests/import')} className="btn-secondary">
+          ⬆️ Import CSV
+        </button>
+      </div>
+      <RequestList
+        apiUrl={apiUrl}
+        focusRequest={focusRequest}
+        onSelectRequest={(requestId) => navigate(`/requests/${requestId}/referees`)}
+        onOpenCandidate={(requestId) => navigate(`/requests/${requestId}`)}
+        filters={filters}
+        onFiltersChange={(next) => setSearchParams(filtersToSearchParams(next), { replace: true })}
+      />
+    </>
+  );
+};
+
+export const ImportCandidatesRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const navigate = useNavigate();
+
+  return (
+    <>
+      <button onClick={() => navigate('/requests')} className="btn-back">
+        ← Back to List
+      </button>
+      <CandidateImport
+        apiUrl={apiUrl}
+        onDone={() => navigate('/requests')}
+        onOpenCandidate={(requestId) => navigate(`/requests/${requestId}`)}
+      />
+    </>
+  );
+};
+
+export const CandidateRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const { requestId = '' } = useParams();
+  const navigate = useNavigate();
+
+  return (
+    <CandidateDetail
+      key={requestId}
+      requestId={requestId}
+      apiUrl={apiUrl}
+      onBack={() => navigate('/requests')}
+      onAddReferees={(id) => navigate(`/requests/${id}/referees`)}
+      onOpenReport={(id, refereeId) => navigate(`/report/${id}/referee/${refereeId}`)}
+    />
+  );
+};
+
+export const NewRequestRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const templateId = searchParams.get('template');
+  const [templateName, setTemplateName] = useState<string>('');
+  const [templateVersion, setTemplateVersion] = useState<number | undefined>();
+  const [templateError, setTemplateError] = useState<string>('');
+
+  // Rehydrate the selected template's name from the URL
+  useEffect(() => {
+    if (!templateId) return;
+
+    let cancelled = false;
+    setTemplateName('');
+    setTemplateVersion(undefined);
+    setTemplateError('');
+    api.templates.get(templateId, userId)
+      .then(data => {
+        if (cancelled) return;
+        setTemplateName(data.template.name);
+        setTemplateVersion(data.template.version);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+        setTemplateError(errorMessage);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, userId, api]);
+
+  if (!templateId) {
+    return (
+      <>
+        <button onClick={() => navigate('/requests')} className="btn-back">
+          ← Back to List
+        </button>
+        <TemplateLibrary
+          apiUrl={apiUrl}
+          onSelectTemplate={(id) => setSearchParams({ template: id })}
+          onCreateNew={() => navigate('/templates/new', { state: { returnTo: '/requests/new' } })}
+          onEditTemplate={(id) => navigate(`/templates/${id}/edit`, { state: { returnTo: '/requests/new' } })}
+        />
+      </>
+    );
+  }
+
+  if (templateError) {
+    return (
+      <div className="alert alert-error">
+        <span>{templateError}</span>
+        <button onClick={() => setSearchParams({})} className="btn-link">
+          Choose another template
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="selected-template-banner">
+        <span>
+          Using template: <strong>{templateName || 'Loading...'}</strong>
+          {templateVersion && <span className="template-version-tag">v{templateVersion}</span>}
+        </span>
+        <button onClick={() => setSearchParams({})} className="btn-link">
+          Change Template
+        </button>
+      </div>
+      <CreateReferenceRequest
+        key={templateId}
+        userId={userId}
+        templateId={templateId}
+        templateVersion={templateVersion}
+        onSuccess={(requestId) => {
+          toast.success('Reference request created successfully!');
+          navigate(`/requests/${requestId}/referees`);
+        }}
+        onError={(error) => console.error('Error:', error)}
+        onOpenRequest={(requestId) => navigate(`/requests/${requestId}`)}
+        apiUrl={apiUrl}
+      />
+    </>
+  );
+};
+
+export const AddRefereesRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const { requestId = '' } = useParams();
+  const toast = useToast();
+  const navigate = useNavigate();
+
+  return (
+    <>
+      <button onClick={() => navigate('/requests')} className="btn-back">
+        ← Back to List
+      </button>
+      <AddReferees
+        key={requestId}
+        requestId={requestId}
+        onSuccess={() => {
+          toast.success('Referees added successfully!');
+          navigate(`/requests/${requestId}/send`);
+        }}
+        onError={(error) => console.error('Error:', error)}
+        onOpenRequest={(requestId) => navigate(`/requests/${requestId}`)}
+        onSkip={() => navigate(`/requests/${requestId}/send`)}
+        apiUrl={apiUrl}
+      />
+    </>
+  );
+};
+
+export const SendInvitationsRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const { requestId = '' } = useParams();
+  const api = useApi(apiUrl);
+  const navigate = useNavigate();
+  const [candidate, setCandidate] = useState<{ name: string; position: string } | null>(null);
+  const [error, setError] = useState<string>('');
+
+  // SendInvitations builds its default emails from the candidate, so load it first
+  useEffect(() => {
+    let cancelled = false;
+    setCandidate(null);
+    setError('');
+    api.requests.get(requestId)
+      .then(data => {
+        if (cancelled) return;
+        setCandidate({
+          name: `${data.request.candidate_first_name} ${data.request.candidate_last_name}`,
+          position: data.request.position_applied_for,
+        });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+        setError(errorMessage);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, api]);
+
+  if (error) {
+    return (
+      <>
+        <button onClick={() => navigate('/requests')} className="btn-back">
+          ← Back to List
+        </button>
+        <div className="alert alert-error">{error}</div>
+      </>
+    );
+  }
+
+  if (!candidate) {
+    return <div className="loading">Loading request...</div>;
+  }
+
+  return (
+    <SendInvitations
+      key={requestId}
+      requestId={requestId}
+      candidateName={candidate.name}
+      positionAppliedFor={candidate.position}
+      apiUrl={apiUrl}
+      onBack={() => navigate('/requests')}
+      onSuccess={() => navigate('/requests')}
+    />
+  );
+};
+
+export const TemplatesRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const navigate = useNavigate();
+
+  return (
+    <TemplateLibrary
+      apiUrl={apiUrl}
+      onSelectTemplate={(templateId) => navigate(`/requests/new?template=${encodeURIComponent(templateId)}`)}
+      onCreateNew={() => navigate('/templates/new')}
+      onEditTemplate={(templateId) => navigate(`/templates/${templateId}/edit`)}
+    />
+  );
+};
+
+export const TemplateBuilderRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const { templateId } = useParams();
+  const { id: userId } = useCurrentUser();
+  const toast = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const returnTo = (location.state as TemplateBuilderLocationState | null)?.returnTo || '/templates';
+
+  return (
+    <>
+      <button onClick={() => navigate(returnTo)} className="btn-back">
+        ← Back to Templates
+      </button>
+      <TemplateBuilder
+        key={templateId || 'new'}
+        apiUrl={apiUrl}
+        userId={userId}
+        templateId={templateId}
+        onSave={() => {
+          toast.success(templateId
+            ? 'Template updated successfully!'
+            : 'Template created successfully! You can now use it to create reference requests.');
+          navigate(returnTo);
+        }}
+        onCancel={() => navigate(returnTo)}
+      />
+    </>
+  );
+};
+
+export const SettingsRoute: React.FC<AdminRouteProps> = ({ apiUrl = API_URL }) => {
+  const navigate = useNavigate();
+
+  return <Settings apiUrl={apiUrl} onBack={() => navigate('/requests')} />;
+};
@@ -4,64 +4,89 @@
  */
 
 import React from 'react';
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { ReferenceRequestApp } from './ReferenceRequestApp';
+import {
+  RequestsRoute,
+  NewRequestRoute,
+  ImportCandidatesRoute,
+  CandidateRoute,
+  AddRefereesRoute,
+  SendInvitationsRoute,
+  TemplatesRoute,
+  TemplateBuilderRoute,
+  SettingsRoute,
+} from './AdminRoutes';
+import { AuthProvider } from './AuthContext';
+import { FeedbackProvider } from './FeedbackContext';
+import { RequireAuth } from './RequireAuth';
+import LoginPage from './LoginPage';
 import RefereePage from './RefereePage';
 import AuthorizationPage from './AuthorizationPage';
 import ProfessionalReportPage from './ProfessionalReportPage';
+import { API_URL } from './config';
 import './styles.css';
 
-// These would typically come from your authentication system
-const USER_ID = '10242198-4ee0-4540-8cfd-25343df1f41d'; // From test data
-const TEMPLATE_ID = '17f28d64-e746-4d06-8949-9335bb4c1740'; // From test data
-
-// Switch between local development and production
-const API_URL = process.env.NODE_ENV === 'production' ? 'https://api-ref.getbrindleai.com/api' : 'http://localhost:5001/api';
-
 function App() {
   return (
     <BrowserRouter>
-      <Routes>
-        {/* Admin/Manager Interface */}
-        <Route 
-          path="/" 
-          element={
-            <div className="App">
-              <ReferenceRequestApp
-                userId={USER_ID}
-                templateId={TEMPLATE_ID}
-                apiUrl={API_URL}
-              />
-            </div>
-          } 
-        />
+      <AuthProvider apiUrl={API_URL}>
+        <FeedbackProvider>
+        <Routes>
+          {/* Sign In */}
+          <Route path="/login" element={<LoginPage />} />
+
+          {/* Admin/Manager Interface (requires sign in) */}
+          <Route 
+            element={
+              <RequireAuth>
+                <div className="App">
+                  <ReferenceRequestApp apiUrl={API_URL} />
+                </div>
+              </RequireAuth>
+            } 
+          >
+            <Route path="/" element={<Navigate to="/requests" replace />} />
+            <Route path="/requests" element={<RequestsRoute apiUrl={API_URL} />} />
+            <Route path="/requests/new" element={<NewRequestRoute apiUrl={API_URL} />} />
+            <Route path="/requests/import" element={<ImportCandidatesRoute apiUrl={API_URL} />} />
+            <Route path="/requests/:requestId" element={<CandidateRoute apiUrl={API_URL} />} />
+            <Route path="/requests/:requestId/referees" element={<AddRefereesRoute apiUrl={API_URL} />} />
+            <Route path="/requests/:requestId/send" element={<SendInvitationsRoute apiUrl={API_URL} />} />
+            <Route path="/templates" element={<TemplatesRoute apiUrl={API_URL} />} />
+            <Route path="/templates/new" element={<TemplateBuilderRoute apiUrl={API_URL} />} />
+            <Route path="/templates/:templateId/edit" element={<TemplateBuilderRoute apiUrl={API_URL} />} />
+            <Route path="/settings" element={<SettingsRoute apiUrl={API_URL} />} />
+          </Route>
         
-              {/* Public Referee Page */}
-              <Route path="/referee/:token" element={<RefereePage apiUrl={API_URL} />} />
+                {/* Public Referee Page */}
+                <Route path="/referee/:token" element={<RefereePage apiUrl={API_URL} />} />
 
-              {/* Public Authorization Page */}
-              <Route path="/authorize" element={<AuthorizationPage />} />
+                {/* Public Authorization Page */}
+                <Route path="/authorize" element={<AuthorizationPage />} />
 
-              {/* Professional Report Page */}
-              <Route path="/report/:requestId/referee/:refereeId" element={<ProfessionalReportPage apiUrl={API_URL} />} />
+                {/* Professional Report Page */}
+                <Route path="/report/:requestId/referee/:refereeId" element={<ProfessionalReportPage apiUrl={API_URL} />} />
 
-              {/* 404 - Not Found */}
-        <Route 
-          path="*" 
-          element={
-            <div style={{ 
-              maxWidth: '600px', 
-              margin: '50px auto', 
-              padding: '30px',
-              textAlign: 'center' 
-            }}>
-              <h2>Page Not Found</h2>
-              <p>The page you're looking for doesn't exist.</p>
-              <a href="/">Go to Home</a>
-            </div>
-          } 
-        />
-      </Routes>
+                {/* 404 - Not Found */}
+          <Route 
+            path="*" 
+            element={
+              <div style={{ 
+                maxWidth: '600px', 
+                margin: '50px auto', 
+                padding: '30px',
+                textAlign: 'center' 
+              }}>
+                <h2>Page Not Found</h2>
+                <p>The page you're looking for doesn't exist.</p>
+                <a href="/">Go to Home</a>
+              </div>
+            } 
+          />
+        </Routes>
+        </FeedbackProvider>
+      </AuthProvider>
     </BrowserRouter>
   );
 }
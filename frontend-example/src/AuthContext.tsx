@@ -0,0 +1,221 @@
+/**
+ * AuthContext
+ * Session state for the admin interface: current user, organisation and bearer token
+ *
+ * The session is persisted to localStorage so a page refresh keeps the recruiter
+ * signed in. Admin components read the user from useAuth() and make requests
+ * through authFetch() so every call carries the bearer token.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  full_name: string;
+  role?: string;
+}
+
+export interface AuthOrganization {
+  id: string;
+  name: string;
+}
+
+interface AuthSession {
+  token: string;
+  user: AuthUser;
+  organization: AuthOrganization | null;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  organization: AuthOrganization | null;
+  token: string | null;
+  loading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => void;
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>;
+}
+
+interface AuthProviderProps {
+  apiUrl: string;
+  children: React.ReactNode;
+}
+
+const SESSION_STORAGE_KEY = 'referencecheck.session';
+const SESSION_EXPIRED_EVENT = 'referencecheck:session-expired';
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    console.warn('Unable to read stored session', err);
+    return null;
+  }
+};
+
+const writeStoredSession = (session: AuthSession | null) => {
+  if (session) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+};
+
+/**
+ * Returns the bearer token of the stored session, if any.
+ * Usable outside React components (e.g. from plain helper modules).
+ */
+export const getAuthToken = (): string | null => readStoredSession()?.token ?? null;
+
+/**
+ * fetch() wrapper that attaches the session bearer token.
+ * A 401 response clears the stored session and signs the user out.
+ */
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+
+  if (response.status === 401 && token) {
+    writeStoredSession(null);
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+
+  return response;
+};
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ apiUrl, children }) => {
+  const [session, setSession] = useState<AuthSession | null>(() => readStoredSession());
+  const [loading, setLoading] = useState<boolean>(() => readStoredSession() !== null);
+
+  // Re-validate a stored session against the API on startup
+  useEffect(() => {
+    const stored = readStoredSession();
+    if (!stored) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    authFetch(`${apiUrl}/auth/me`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) return;
+
+        if (response.ok && data.user) {
+          const refreshed: AuthSession = {
+            token: stored.token,
+            user: data.user,
+            organization: data.organization ?? stored.organization,
+          };
+          writeStoredSession(refreshed);
+          setSession(refreshed);
+        } else {
+          writeStoredSession(null);
+          setSession(null);
+        }
+      })
+      .catch((err) => {
+        // Keep the stored session if the API is unreachable; requests will fail on their own
+        console.warn('Unable to validate session', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiUrl]);
+
+  useEffect(() => {
+    const handleExpired = () => setSession(null);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const login = useCallback(async (email: string, password: string) => {
+    const response = await fetch(`${apiUrl}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, password }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.token || !data.user) {
+      throw new Error(data.error || 'Invalid email or password');
+    }
+
+    const newSession: AuthSession = {
+      token: data.token,
+      user: data.user,
+      organization: data.organization ?? null,
+    };
+    writeStoredSession(newSession);
+    setSession(newSession);
+  }, [apiUrl]);
+
+  const logout = useCallback(() => {
+    const token = session?.token;
+    writeStoredSession(null);
+    setSession(null);
+
+    if (token) {
+      // Best-effort server-side invalidation
+      fetch(`${apiUrl}/auth/logout`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      }).catch(() => undefined);
+    }
+  }, [apiUrl, session]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: session?.user ?? null,
+        organization: session?.organization ?? null,
+        token: session?.token ?? null,
+        loading,
+        login,
+        logout,
+        authFetch,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+/**
+ * Like useAuth(), but for components rendered only behind RequireAuth:
+ * the user is guaranteed to be present.
+ */
+export const useCurrentUser = (): AuthUser => {
+  const { user } = useAuth();
+  if (!user) {
+    throw new Error('useCurrentUser must be used behind RequireAuth');
+  }
+  return user;
+};
+
+export default AuthContext;
@@ -1,14 +1,16 @@
 /**
  * Public Authorization Page
- * Allows candidates to review and sign authorization for reference checking
+ * Allows candidates to review and sign authorization for reference checking,
+ * then nominate their referees when the request asks for it
  */
 
 import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-
-const API_URL = process.env.NODE_ENV === 'production'
-  ? 'https://api-ref.getbrindleai.com/api'
-  : 'http://localhost:5001/api';
+import { useApi, ApiError, errorDetail, isNetworkError, NewReferee, RefereeNominationSettings } from './api';
+import { API_URL } from './config';
+import { useToast } from './FeedbackContext';
+import { normalizePhone } from './phone';
+import { RefereeNomination } from './RefereeNomination';
 
 const AuthorizationPage: React.FC = () => {
   const [searchParams] = useSearchParams();
@@ -23,6 +25,12 @@ const AuthorizationPage: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
   const [refereesNotified, setRefereesNotified] = useState(0);
+  const [nominationSettings, setNominationSettings] = useState<RefereeNominationSettings | null>(null);
+  // True between signing and submitting nominated referees
+  const [needsNomination, setNeedsNomination] = useState(false);
+  const [nominatedCount, setNominatedCount] = useState(0);
+  const api = useApi(API_URL);
+  const toast = useToast();
 
   useEffect(() => {
     if (!token) {
@@ -32,64 +40,90 @@ const AuthorizationPage: React.FC = () => {
     }
 
     // Fetch authorization details
-    fetch(`${API_URL}/public/authorization?token=${token}`)
-      .then(res => res.json())
+    api.publicAuthorization.getCandidate(token)
       .then(data => {
         if (data.ok) {
           setCandidateName(data.candidate_name);
           setPosition(data.position);
-        } else {
-          // Show error with hint if available
-          let errorMsg = data.error || 'Invalid or expired authorization link';
-          if (data.hint) {
-            errorMsg += '\n\n' + data.hint;
+          const nomination = data.referee_nomination?.enabled ? data.referee_nomination : null;
+          setNominationSettings(nomination);
+          setNominatedCount(data.nominated_count || 0);
+          // Returning after signing, e.g. they closed the page before nominating
+          if (data.authorized) {
+            setSuccess(true);
+            setNeedsNomination(!!nomination && !data.nominated_count);
           }
-          setError(errorMsg);
+        } else {
+          setError('Invalid or expired authorization link');
         }
         setLoading(false);
       })
       .catch(err => {
         console.error('Authorization fetch error:', err);
-        setError('Failed to load authorization. Please try again or contact support.');
+        if (err instanceof ApiError && !isNetworkError(err)) {
+          // Show error with hint if available
+          let errorMsg = err.message;
+          const hint = errorDetail(err, 'hint');
+          if (hint) {
+            errorMsg += '\n\n' + hint;
+          }
+          setError(errorMsg);
+        } else {
+          setError('Failed to load authorization. Please try again or contact support.');
+        }
         setLoading(false);
       });
-  }, [token]);
+  }, [token, api]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!signature.trim()) {
-      alert('Please enter your full name as signature');
+      toast.warning('Please enter your full name as signature');
       return;
     }
     
     if (!agreed) {
-      alert('You must agree to authorize reference checking to proceed');
+      toast.warning('You must agree to authorize reference checking to proceed');
       return;
     }
 
     setSubmitting(true);
     try {
-      const response = await fetch(`${API_URL}/public/authorization/submit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          token,
-          signature: signature.trim(),
-          agreed,
-          user_agent: navigator.userAgent,
-        }),
+      await api.publicAuthorization.submitCandidate({
+        token: token!,
+        signature: signature.trim(),
+        agreed,
+        user_agent: navigator.userAgent,
       });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        setSuccess(true);
+      setSuccess(true);
+      setNeedsNomination(!!nominationSettings);
+    } catch (err) {
+      if (err instanceof ApiError && !isNetworkError(err)) {
+        toast.error(err.message);
       } else {
-        alert(`Error: ${data.error || 'Failed to submit authorization'}`);
+        toast.error('Network error. Please check your connection and try again.');
       }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNominate = async (referees: NewReferee[]) => {
+    setSubmitting(true);
+    try {
+      await api.publicAuthorization.nominateReferees({
+        token: token!,
+        referees: referees.map(referee => ({ ...referee, phone_number: normalizePhone(referee.phone_number) })),
+      });
+      setNominatedCount(referees.length);
+      setNeedsNomination(false);
     } catch (err) {
-      alert('Network error. Please check your connection and try again.');
+      if (err instanceof ApiError && !isNetworkError(err)) {
+        toast.error(err.message);
+      } else {
+        toast.error('Network error. Please check your connection and try again.');
+      }
     } finally {
       setSubmitting(false);
     }
@@ -133,6 +167,17 @@ const AuthorizationPage: React.FC = () => {
     );
   }
 
+  if (success && needsNomination && nominationSettings) {
+    return (
+      <div className="nomination-page">
+        <div className="nomination-page-card">
+          <p className="nomination-signed">✅ Thank you, {candidateName}. Your authorization has been recorded.</p>
+          <RefereeNomination settings={nominationSettings} submitting={submitting} onSubmit={handleNominate} />
+        </div>
+      </div>
+    );
+  }
+
   if (success) {
     return (
       <div style={{ 
@@ -150,7 +195,16 @@ const AuthorizationPage: React.FC = () => {
           Thank you, {candidateName}!
         </p>
         <p style={{ fontSize: '16px', lineHeight: '1.6' }}>
-          Your authorization has been successfully submitted. We will now proceed with contacting your referees for the <strong>{position}</strong> position.
+          {nominatedCount > 0 ? (
+            <>
+              Your authorization and {nominatedCount} referee{nominatedCount === 1 ? '' : 's'} have been submitted. The hiring team
+              will review your referees before contacting them about the <strong>{position}</strong> position.
+            </>
+          ) : (
+            <>
+              Your authorization has been successfully submitted. We will now proceed with contacting your referees for the <strong>{position}</strong> position.
+            </>
+          )}
         </p>
         <p style={{ marginTop: '30px', fontSize: '14px', color: '#666' }}>
           We'll keep you updated on the progress of your reference checks.
@@ -0,0 +1,234 @@
+/**
+ * BulkActions Component
+ * Selection toolbar and progress report for acting on many requests at once.
+ * useBulkJob runs one call per item in order and records failures per item
+ * so one bad row doesn't stop the batch.
+ */
+
+import React, { useState } from 'react';
+import { OrganizationMember } from './api';
+
+export interface BulkItem {
+  id: string;
+  label: string;
+  run: () => Promise<unknown>;
+}
+
+export interface BulkFailure {
+  id: string;
+  label: string;
+  error: string;
+}
+
+export interface BulkJob {
+  title: string;
+  total: number;
+  completed: number;
+  failures: BulkFailure[];
+  /** Items left out before running, e.g. candidates who already authorized */
+  skipped: BulkFailure[];
+  running: boolean;
+}
+
+export const useBulkJob = () => {
+  const [job, setJob] = useState<BulkJob | null>(null);
+
+  const run = async (title: string, items: BulkItem[], skipped: BulkFailure[] = []): Promise<BulkJob> => {
+    let current: BulkJob = { title, total: items.length, completed: 0, failures: [], skipped, running: true };
+    setJob(current);
+
+    for (const item of items) {
+      try {
+        await item.run();
+        current = { ...current, completed: current.completed + 1 };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+        current = {
+          ...current,
+          completed: current.completed + 1,
+          failures: [...current.failures, { id: item.id, label: item.label, error: errorMessage }],
+        };
+      }
+      setJob(current);
+    }
+
+    current = { ...current, running: false };
+    setJob(current);
+    return current;
+  };
+
+  return { job, run, dismiss: () => setJob(null) };
+};
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  busy: boolean;
+  members: OrganizationMember[];
+  /** Viewing archived requests: offer restore and purge instead of the usual actions */
+  archivedView: boolean;
+  onSendReminders: () => void;
+  onSendAuthorizations: () => void;
+  onArchive: () => void;
+  onRestore: () => void;
+  /** Omitted when the user may not permanently delete requests */
+  onPurge?: () => void;
+  onExport: () => void;
+  onReassign: (ownerId: string) => void;
+  onClear: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  busy,
+  members,
+  archivedView,
+  onSendReminders,
+  onSendAuthorizations,
+  onArchive,
+  onRestore,
+  onPurge,
+  onExport,
+  onReassign,
+  onClear,
+}) => {
+  const [ownerId, setOwnerId] = useState('');
+
+  if (archivedView) {
+    return (
+      <div className="bulk-action-bar" role="toolbar" aria-label="Bulk actions">
+        <strong>{selectedCount} selected</strong>
+        <button onClick={onRestore} disabled={busy} className="btn-secondary">
+          ♻️ Restore
+        </button>
+        <button onClick={onExport} disabled={busy} className="btn-secondary">
+          ⬇️ Export
+        </button>
+        {onPurge && (
+          <button onClick={onPurge} disabled={busy} className="btn-danger">
+            🗑️ Delete Permanently
+          </button>
+        )}
+        <button onClick={onClear} disabled={busy} className="btn-link">
+          Clear selection
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bulk-action-bar" role="toolbar" aria-label="Bulk actions">
+      <strong>{selectedCount} selected</strong>
+      <button onClick={onSendReminders} disabled={busy} className="btn-secondary">
+        📧 Remind Pending Referees
+      </button>
+      <button onClick={onSendAuthorizations} disabled={busy} className="btn-secondary">
+        ✍️ Send Authorization
+      </button>
+      <button onClick={onExport} disabled={busy} className="btn-secondary">
+        ⬇️ Export
+      </button>
+      <button onClick={onArchive} disabled={busy} className="btn-secondary">
+        🗄️ Archive
+      </button>
+      {members.length > 0 && (
+        <span className="bulk-reassign">
+          <select
+            value={ownerId}
+            onChange={(e) => setOwnerId(e.target.value)}
+            disabled={busy}
+            aria-label="New owner"
+          >
+            <option value="">Reassign to...</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>
+                {member.full_name || member.email}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              onReassign(ownerId);
+              setOwnerId('');
+            }}
+            disabled={busy || !ownerId}
+            className="btn-secondary"
+          >
+            Reassign
+          </button>
+        </span>
+      )}
+      <button onClick={onClear} disabled={busy} className="btn-link">
+        Clear selection
+      </button>
+    </div>
+  );
+};
+
+interface BulkProgressModalProps {
+  job: BulkJob;
+  onClose: () => void;
+}
+
+export const BulkProgressModal: React.FC<BulkProgressModalProps> = ({ job, onClose }) => {
+  const succeeded = job.completed - job.failures.length;
+  const percent = job.total > 0 ? Math.round((job.completed / job.total) * 100) : 100;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content bulk-progress" role="dialog" aria-modal="true" aria-labelledby="bulk-progress-title">
+        <div className="modal-header">
+          <h2 id="bulk-progress-title">{job.title}</h2>
+        </div>
+
+        <div className="modal-body">
+          <div
+            className="bulk-progress-bar"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={job.total}
+            aria-valuenow={job.completed}
+          >
+            <div style={{ width: `${percent}%` }} />
+          </div>
+          <p aria-live="polite">
+            {job.running
+              ? `Processing ${job.completed} of ${job.total}...`
+              : `${succeeded} of ${job.total} succeeded${job.failures.length > 0 ? `, ${job.failures.length} failed` : ''}.`}
+          </p>
+
+          {job.failures.length > 0 && (
+            <>
+              <h3>Failed</h3>
+              <ul className="bulk-report bulk-report-failed">
+                {job.failures.map(failure => (
+                  <li key={failure.id}>
+                    <strong>{failure.label}</strong>: {failure.error}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {job.skipped.length > 0 && (
+            <>
+              <h3>Skipped</h3>
+              <ul className="bulk-report">
+                {job.skipped.map(item => (
+                  <li key={item.id}>
+                    <strong>{item.label}</strong>: {item.error}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="btn-primary" disabled={job.running}>
+            {job.running ? 'Working...' : 'Done'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,393 @@
+/**
+ * CandidateDetail Component
+ * One candidate's profile, authorization, referees and notes with a
+ * single chronological timeline of everything that has happened
+ *
+ * Contact attempts (authorization emails, invitations, reminders) and notes
+ * come from /requests/:id/timeline. When that log is unavailable the
+ * timeline falls back to the timestamps stored on the request and referees.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useApi, ContactAttempt, Referee, RequestDetail, RequestTimeline } from './api';
+import { useRequestEvents } from './LiveUpdatesContext';
+import { useToast } from './FeedbackContext';
+import { formatNextReminder } from './reminders';
+import { getRefereePhone } from './channels';
+import { formatPhone } from './phone';
+import { API_URL } from './config';
+
+interface CandidateDetailProps {
+  requestId: string;
+  apiUrl?: string;
+  onBack?: () => void;
+  onAddReferees?: (requestId: string) => void;
+  onOpenReport?: (requestId: string, refereeId: string) => void;
+}
+
+type TimelineTone = 'info' | 'success' | 'warning' | 'danger';
+
+interface TimelineItem {
+  key: string;
+  at: string;
+  icon: string;
+  title: string;
+  detail?: string;
+  tone: TimelineTone;
+  /** Submitted references link to their report */
+  reportRefereeId?: string;
+}
+
+const refereeName = (referee: Referee) => `${referee.first_name} ${referee.last_name}`;
+
+const describeContactAttempt = (attempt: ContactAttempt, referee?: Referee): TimelineItem => {
+  const recipient = referee ? refereeName(referee) : 'candidate';
+  const channel = attempt.channel === 'sms' ? 'SMS' : attempt.channel;
+  const failed = attempt.status === 'bounced' || attempt.status === 'failed';
+  const titles: Record<string, string> = {
+    authorization: `Authorization request sent to ${recipient}`,
+    invitation: `Reference invitation sent to ${recipient}`,
+    reminder: `Reminder sent to ${recipient}`,
+  };
+
+  return {
+    key: `attempt-${attempt.id}`,
+    at: attempt.sent_at,
+    icon: attempt.kind === 'reminder' ? '🔁' : '📧',
+    title: titles[attempt.kind] || `Message sent to ${recipient}`,
+    detail: [
+      `via ${channel}`,
+      attempt.status && attempt.status !== 'sent' ? attempt.status : null,
+      attempt.sent_by ? `by ${attempt.sent_by}` : null,
+    ].filter(Boolean).join(' · '),
+    tone: failed ? 'danger' : 'info',
+  };
+};
+
+// Merge the request, its referees and the contact log into one oldest-first list
+const buildTimeline = (detail: RequestDetail, timeline: RequestTimeline | null): TimelineItem[] => {
+  const { request, referees } = detail;
+  const refereesById = new Map(referees.map(ref => [ref.id, ref]));
+  const items: TimelineItem[] = [
+    { key: 'created', at: request.created_at, icon: '📝', title: 'Reference request created', tone: 'info' },
+  ];
+
+  if (request.notes) {
+    items.push({ key: 'created-note', at: request.created_at, icon: '🗒️', title: 'Note', detail: request.notes, tone: 'info' });
+  }
+
+  const contactAttempts = timeline?.contact_attempts || [];
+  if (contactAttempts.length > 0) {
+    contactAttempts.forEach(attempt => {
+      items.push(describeContactAttempt(attempt, attempt.referee_id ? refereesById.get(attempt.referee_id) : undefined));
+    });
+  } else {
+    // No contact log - use the send timestamps stored on the records
+    if (request.authorization_sent_at) {
+      items.push({ key: 'auth-sent', at: request.authorization_sent_at, icon: '📧', title: 'Authorization request sent to candidate', tone: 'info' });
+    }
+    referees.forEach(referee => {
+      if (referee.initial_sent_at) {
+        items.push({ key: `invite-${referee.id}`, at: referee.initial_sent_at, icon: '📧', title: `Reference invitation sent to ${refereeName(referee)}`, tone: 'info' });
+      }
+      if (referee.last_contacted_at && referee.last_contacted_at !== referee.initial_sent_at) {
+        items.push({ key: `contact-${referee.id}`, at: referee.last_contacted_at, icon: '🔁', title: `${refereeName(referee)} last contacted`, tone: 'info' });
+      }
+    });
+  }
+
+  if (request.authorization_completed_at) {
+    items.push({
+      key: 'authorized',
+      at: request.authorization_completed_at,
+      icon: '✍️',
+      title: request.authorization_method === 'verbal' ? 'Candidate verbally authorized' : 'Candidate signed authorization',
+      detail: request.authorization_signature ? `Signed as "${request.authorization_signature}"` : undefined,
+      tone: 'success',
+    });
+  }
+
+  referees.forEach(referee => {
+    if (referee.consent_signed_at) {
+      items.push({
+        key: `consent-${referee.id}`,
+        at: referee.consent_signed_at,
+        icon: '🤝',
+        title: `${refereeName(referee)} gave consent`,
+        detail: referee.consent_signature ? `Signed as "${referee.consent_signature}"` : undefined,
+        tone: 'success',
+      });
+    }
+    if (referee.submitted_at) {
+      items.push({
+        key: `submitted-${referee.id}`,
+        at: referee.submitted_at,
+        icon: '✅',
+        title: `${refereeName(referee)} submitted a reference`,
+        tone: 'success',
+        reportRefereeId: referee.id,
+      });
+    }
+  });
+
+  (timeline?.notes || []).forEach(note => {
+    items.push({
+      key: `note-${note.id}`,
+      at: note.created_at,
+      icon: '🗒️',
+      title: note.author_name ? `Note by ${note.author_name}` : 'Note',
+      detail: note.body,
+      tone: 'info',
+    });
+  });
+
+  return items.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+};
+
+const formatDateTime = (dateString: string | null | undefined) => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleString('en-NZ', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'Pacific/Auckland',
+  });
+};
+
+const getRefereeStatus = (referee: Referee): { label: string; className: string } => {
+  if (referee.has_completed || referee.status === 'completed') return { label: 'Completed', className: 'status-completed' };
+  if (referee.status === 'bounced') return { label: 'Bounced', className: 'status-bounced' };
+  if (referee.status === 'declined') return { label: 'Declined', className: 'status-bounced' };
+  if (referee.status === 'started') return { label: 'Started', className: 'status-sent' };
+  if (referee.status === 'sent') return { label: 'Sent', className: 'status-sent' };
+  return { label: 'Pending', className: 'status-draft' };
+};
+
+export const CandidateDetail: React.FC<CandidateDetailProps> = ({
+  requestId,
+  apiUrl = API_URL,
+  onBack,
+  onAddReferees,
+  onOpenReport,
+}) => {
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const [detail, setDetail] = useState<RequestDetail | null>(null);
+  const [timeline, setTimeline] = useState<RequestTimeline | null>(null);
+  const [timelineError, setTimelineError] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [noteText, setNoteText] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  const fetchDetail = async () => {
+    setError('');
+
+    try {
+      const [data, timelineResult] = await Promise.all([
+        api.requests.get(requestId),
+        api.requests.timeline(requestId).then(
+          result => ({ result, error: '' }),
+          err => ({ result: null, error: err instanceof Error ? err.message : 'An error occurred' })
+        ),
+      ]);
+      setDetail(data);
+      setTimeline(timelineResult.result);
+      setTimelineError(timelineResult.error);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchDetail();
+  }, [requestId]);
+
+  // Keep the page current while referees respond
+  useRequestEvents((event) => {
+    if (event.request_id === requestId) {
+      fetchDetail();
+    }
+  });
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteText.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const data = await api.requests.addNote(requestId, noteText.trim());
+      setTimeline(prev => ({
+        contact_attempts: prev?.contact_attempts || [],
+        notes: [...(prev?.notes || []), data.note],
+      }));
+      setNoteText('');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: 'Note not saved' });
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading candidate...</div>;
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="alert alert-error">
+        {error || 'Candidate not found'}
+        <button onClick={() => { setLoading(true); fetchDetail(); }} className="btn-retry">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const { request, referees, summary } = detail;
+  const isAuthorized = request.authorization_status === 'authorized' || request.authorization_status === 'verbal';
+  const timelineItems = buildTimeline(detail, timeline);
+
+  return (
+    <div className="candidate-detail">
+      {onBack && (
+        <button onClick={onBack} className="btn-back">
+          ← Back to List
+        </button>
+      )}
+
+      <div className="candidate-detail-header">
+        <div>
+          <h2>{request.candidate_first_name} {request.candidate_last_name}</h2>
+          <p className="help-text">{request.position_applied_for}</p>
+        </div>
+        {onAddReferees && (
+          <button onClick={() => onAddReferees(request.id)} className="btn-secondary">
+            + Add Referees
+          </button>
+        )}
+      </div>
+
+      <div className="candidate-detail-grid">
+        <section className="candidate-detail-card">
+          <h3>Profile</h3>
+          <dl>
+            <dt>Email</dt>
+            <dd>{request.candidate_email}</dd>
+            <dt>Phone</dt>
+            <dd>{formatPhone(request.candidate_phone_number) || '—'}</dd>
+            <dt>Created</dt>
+            <dd>{formatDateTime(request.created_at)}</dd>
+            <dt>References</dt>
+            <dd>{summary.completed}/{summary.total_referees} completed</dd>
+          </dl>
+        </section>
+
+        <section className="candidate-detail-card">
+          <h3>Authorization</h3>
+          <span className={`status-badge ${isAuthorized ? 'status-completed' : 'status-draft'}`}>
+            {isAuthorized ? 'Authorized' : request.authorization_status === 'pending' ? 'Auth Pending' : 'Not Requested'}
+          </span>
+          <dl>
+            <dt>Method</dt>
+            <dd>{request.authorization_method || '—'}</dd>
+            <dt>Requested</dt>
+            <dd>{formatDateTime(request.authorization_sent_at)}</dd>
+            <dt>Completed</dt>
+            <dd>{formatDateTime(request.authorization_completed_at)}</dd>
+          </dl>
+          {request.authorization_signature && (
+            <div className="candidate-signature" title="Candidate signature">
+              {request.authorization_signature}
+            </div>
+          )}
+        </section>
+      </div>
+
+      <section className="candidate-detail-card">
+        <h3>Referees ({referees.length})</h3>
+        {referees.length === 0 && <p className="help-text">No referees added yet.</p>}
+        <ul className="candidate-referee-list">
+          {referees.map(referee => {
+            const status = getRefereeStatus(referee);
+            return (
+              <li key={referee.id}>
+                <div>
+                  <strong>{refereeName(referee)}</strong>
+                  <span className={`status-badge ${status.className}`}>{status.label}</span>
+                  <div className="help-text">
+                    {[referee.relationship, referee.company].filter(Boolean).join(' · ')}
+                  </div>
+                  <div className="help-text">
+                    {referee.email}
+                    {getRefereePhone(referee) && ` · ${formatPhone(getRefereePhone(referee))}`}
+                  </div>
+                </div>
+                <div className="candidate-referee-dates">
+                  <span>Invited: {formatDateTime(referee.initial_sent_at)}</span>
+                  <span>Last contacted: {formatDateTime(referee.last_contacted_at)}</span>
+                  {referee.submitted_at && <span>Submitted: {formatDateTime(referee.submitted_at)}</span>}
+                  {formatNextReminder(referee) && <span>{formatNextReminder(referee)}</span>}
+                  {referee.has_completed && onOpenReport && (
+                    <button onClick={() => onOpenReport(request.id, referee.id)} className="btn-link">
+                      View Report
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section className="candidate-detail-card">
+        <h3>Timeline</h3>
+        {timelineError && (
+          <p className="help-text">
+            Full contact history unavailable ({timelineError}). Showing recorded dates only.
+          </p>
+        )}
+        <ol className="candidate-timeline">
+          {timelineItems.map(item => (
+            <li key={item.key} className={`timeline-item timeline-${item.tone}`}>
+              <span className="timeline-icon" aria-hidden="true">{item.icon}</span>
+              <div className="timeline-body">
+                <div className="timeline-title">{item.title}</div>
+                {item.detail && <div className="timeline-detail">{item.detail}</div>}
+                <time className="timeline-time" dateTime={item.at}>{formatDateTime(item.at)}</time>
+                {item.reportRefereeId && onOpenReport && (
+                  <button onClick={() => onOpenReport(request.id, item.reportRefereeId!)} className="btn-link">
+                    View Report
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <form onSubmit={handleAddNote} className="candidate-note-form">
+          <label htmlFor="candidate-note">Add a note</label>
+          <textarea
+            id="candidate-note"
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            placeholder="e.g. Spoke to candidate, second referee is on leave until Monday"
+            rows={3}
+          />
+          <button type="submit" className="btn-primary" disabled={savingNote || !noteText.trim()}>
+            {savingNote ? 'Saving...' : 'Add Note'}
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default CandidateDetail;
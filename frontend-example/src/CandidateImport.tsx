@@ -0,0 +1,400 @@
+/**
+ * CandidateImport Component
+ * Wizard for creating many reference requests from a CSV file:
+ * upload, map columns, preview and validate, then import with a per-row result
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useCurrentUser } from './AuthContext';
+import { useToast } from './FeedbackContext';
+import { useApi, Template } from './api';
+import { parseCsv } from './csv';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_REFEREES,
+  MAX_IMPORT_ROWS,
+  ColumnMapping,
+  ImportRow,
+  applyExistingMatches,
+  buildImportRows,
+  guessColumnMapping,
+  missingRequiredFields,
+} from './candidateImport';
+import { API_URL } from './config';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'import';
+
+const STEP_LABELS: Record<ImportStep, string> = {
+  upload: 'Upload',
+  map: 'Map Columns',
+  preview: 'Preview',
+  import: 'Import',
+};
+
+type RowOutcome = 'created' | 'partial' | 'failed' | 'skipped';
+
+interface RowResult {
+  line: number;
+  candidateName: string;
+  outcome: RowOutcome;
+  message: string;
+  requestId?: string;
+}
+
+const OUTCOME_LABELS: Record<RowOutcome, { label: string; badge: string }> = {
+  created: { label: 'Created', badge: 'status-completed' },
+  partial: { label: 'Created, referees not added', badge: 'status-sent' },
+  failed: { label: 'Failed', badge: 'status-bounced' },
+  skipped: { label: 'Skipped', badge: 'status-draft' },
+};
+
+interface CandidateImportProps {
+  apiUrl?: string;
+  onDone?: () => void;
+  onOpenCandidate?: (requestId: string) => void;
+}
+
+export const CandidateImport: React.FC<CandidateImportProps> = ({ apiUrl = API_URL, onDone, onOpenCandidate }) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const toast = useToast();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipExisting, setSkipExisting] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [results, setResults] = useState<RowResult[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api.templates.list({ user_id: userId, type: 'all' })
+      .then(data => {
+        setTemplates(data.templates || []);
+        if (data.templates?.length) setTemplateId(data.templates[0].id);
+      })
+      .catch(err => {
+        const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+        setError(errorMessage);
+      });
+  }, [userId]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      setError('The file needs a header row and at least one candidate row.');
+      return;
+    }
+    if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+      setError(`The file has ${parsed.length - 1} rows. Import up to ${MAX_IMPORT_ROWS} candidates at a time.`);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(parsed[0]);
+    setDataRows(parsed.slice(1));
+    setMapping(guessColumnMapping(parsed[0]));
+    setStep('map');
+  };
+
+  const handlePreview = async () => {
+    const built = buildImportRows(dataRows, mapping);
+    const emails = built.map(row => row.candidate.candidate_email).filter(Boolean);
+
+    setChecking(true);
+    try {
+      const data = emails.length > 0 ? await api.requests.findCandidates({ emails }) : { matches: [] };
+      setRows(applyExistingMatches(built, data.matches || []));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.warning(errorMessage, { title: 'Could not check for existing candidates' });
+      setRows(built);
+    } finally {
+      setChecking(false);
+      setStep('preview');
+    }
+  };
+
+  const isImportable = (row: ImportRow) => row.errors.length === 0 && !(skipExisting && row.existingMatch);
+  const importableCount = rows.filter(isImportable).length;
+
+  const handleImport = async () => {
+    setStep('import');
+    setImporting(true);
+    setResults([]);
+
+    for (const row of rows) {
+      const candidateName = `${row.candidate.candidate_first_name} ${row.candidate.candidate_last_name}`.trim() || '(no name)';
+      let result: RowResult;
+
+      if (!isImportable(row)) {
+        result = {
+          line: row.line,
+          candidateName,
+          outcome: 'skipped',
+          message: row.errors.length > 0 ? row.errors.join('; ') : 'Matches an existing request',
+          requestId: row.existingMatch?.request_id,
+        };
+      } else {
+        try {
+          const data = await api.requests.create({ ...row.candidate, user_id: userId, template_id: templateId });
+          result = { line: row.line, candidateName, outcome: 'created', message: '', requestId: data.request.id };
+
+          if (row.referees.length > 0) {
+            try {
+              await api.referees.add(data.request.id, row.referees);
+              result.message = `${row.referees.length} referee${row.referees.length === 1 ? '' : 's'} added`;
+            } catch (err) {
+              const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+              result = { ...result, outcome: 'partial', message: errorMessage };
+            }
+          }
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+          result = { line: row.line, candidateName, outcome: 'failed', message: errorMessage };
+        }
+      }
+
+      setResults(prev => [...prev, result]);
+    }
+
+    setImporting(false);
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setRows([]);
+    setResults([]);
+  };
+
+  const missingFields = missingRequiredFields(mapping);
+  const countOutcome = (outcome: RowOutcome) => results.filter(result => result.outcome === outcome).length;
+
+  return (
+    <div className="candidate-import">
+      <h2>Import Candidates</h2>
+      <p className="help-text">
+        Create reference requests from a CSV file with one candidate per row. Referee columns are optional
+        (up to {MAX_IMPORT_REFEREES} per candidate, e.g. "Referee 1 Email"). Referees are added but not contacted.
+      </p>
+
+      <ol className="import-steps">
+        {(Object.keys(STEP_LABELS) as ImportStep[]).map((s, index) => (
+          <li key={s} className={step === s ? 'import-step-active' : undefined}>
+            {index + 1}. {STEP_LABELS[s]}
+          </li>
+        ))}
+      </ol>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {step === 'upload' && (
+        <div>
+          <div className="form-group">
+            <label htmlFor="import-template">Template for all imported requests *</label>
+            <select id="import-template" value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="import-file">CSV file *</label>
+            <input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFile} disabled={!templateId} />
+            <p className="help-text">
+              Needs columns for first name, last name and position. Email, phone and notes are optional.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div>
+          <p>
+            <strong>{fileName}</strong>: {dataRows.length} row{dataRows.length === 1 ? '' : 's'}. Check which column
+            fills each field.
+          </p>
+          <table className="import-mapping">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>CSV column</th>
+                <th>First row</th>
+              </tr>
+            </thead>
+            <tbody>
+              {IMPORT_FIELDS.map(field => {
+                const column = mapping[field.key] ?? null;
+                return (
+                  <tr key={field.key}>
+                    <td>
+                      {field.referee > 0 ? `Referee ${field.referee} ${field.label}` : `Candidate ${field.label}`}
+                      {field.required && ' *'}
+                    </td>
+                    <td>
+                      <select
+                        value={column === null ? '' : String(column)}
+                        onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                        aria-label={`Column for ${field.label}`}
+                      >
+                        <option value="">— Not imported —</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="import-sample">{column === null ? '' : dataRows[0]?.[column]}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {missingFields.length > 0 && (
+            <p className="alert alert-error">
+              Choose a column for: {missingFields.map(field => field.label).join(', ')}
+            </p>
+          )}
+
+          <div className="form-actions">
+            <button onClick={reset} className="btn-secondary">← Choose Another File</button>
+            <button onClick={handlePreview} className="btn-primary" disabled={missingFields.length > 0 || checking}>
+              {checking ? 'Checking...' : 'Preview →'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div>
+          <p>
+            {importableCount} of {rows.length} rows ready to import.
+            {' '}{rows.filter(row => row.errors.length > 0).length} with errors will be skipped.
+          </p>
+          {rows.some(row => row.existingMatch) && (
+            <label className="filter-checkbox">
+              <input type="checkbox" checked={skipExisting} onChange={(e) => setSkipExisting(e.target.checked)} />
+              Skip {rows.filter(row => row.existingMatch).length} row(s) whose email matches an existing active request
+            </label>
+          )}
+
+          <div className="table-container">
+            <table className="requests-table import-preview">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Candidate</th>
+                  <th>Email</th>
+                  <th>Position</th>
+                  <th>Referees</th>
+                  <th>Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.line} className={isImportable(row) ? undefined : 'import-row-skipped'}>
+                    <td>{row.line}</td>
+                    <td>{row.candidate.candidate_first_name} {row.candidate.candidate_last_name}</td>
+                    <td>{row.candidate.candidate_email}</td>
+                    <td>{row.candidate.position_applied_for}</td>
+                    <td>{row.referees.length}</td>
+                    <td>
+                      {row.errors.map(message => <div key={message} className="import-error">{message}</div>)}
+                      {row.warnings.map(message => (
+                        <div key={message} className="import-warning">
+                          {message}
+                          {row.existingMatch && onOpenCandidate && (
+                            <button onClick={() => onOpenCandidate(row.existingMatch!.request_id)} className="btn-link">
+                              View
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="form-actions">
+            <button onClick={() => setStep('map')} className="btn-secondary">← Back to Mapping</button>
+            <button onClick={handleImport} className="btn-primary" disabled={importableCount === 0}>
+              Import {importableCount} Candidate{importableCount === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'import' && (
+        <div>
+          <p aria-live="polite">
+            {importing
+              ? `Importing... ${results.length} of ${rows.length} rows processed`
+              : `Done: ${countOutcome('created')} created, ${countOutcome('partial')} created without referees, ${countOutcome('failed')} failed, ${countOutcome('skipped')} skipped.`}
+          </p>
+
+          <div className="table-container">
+            <table className="requests-table import-results">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Candidate</th>
+                  <th>Result</th>
+                  <th>Details</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.line}>
+                    <td>{result.line}</td>
+                    <td>{result.candidateName}</td>
+                    <td>
+                      <span className={`status-badge ${OUTCOME_LABELS[result.outcome].badge}`}>
+                        {OUTCOME_LABELS[result.outcome].label}
+                      </span>
+                    </td>
+                    <td>{result.message}</td>
+                    <td>
+                      {result.requestId && onOpenCandidate && (
+                        <button onClick={() => onOpenCandidate(result.requestId!)} className="btn-link">
+                          Open
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!importing && (
+            <div className="form-actions">
+              <button onClick={reset} className="btn-secondary">Import Another File</button>
+              {onDone && (
+                <button onClick={onDone} className="btn-primary">Back to Requests</button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateImport;
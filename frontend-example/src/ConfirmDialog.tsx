@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useId, useRef } from 'react';
 
 interface ConfirmDialogProps {
   title: string;
@@ -19,22 +19,68 @@ export function ConfirmDialog({
   onCancel,
   isDestructive = false
 }: ConfirmDialogProps) {
+  const titleId = useId();
+  const messageId = useId();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const confirmRef = useRef<HTMLButtonElement>(null);
+
+  // Focus the safe choice for destructive actions, restore focus on close
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    (isDestructive ? cancelRef : confirmRef).current?.focus();
+    return () => previouslyFocused?.focus?.();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+      return;
+    }
+
+    // Keep Tab focus inside the dialog
+    if (e.key === 'Tab' && dialogRef.current) {
+      const focusable = dialogRef.current.querySelectorAll<HTMLElement>('button:not([disabled])');
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+  };
+
   return (
     <div className="modal-overlay" onClick={onCancel}>
-      <div className="modal-content confirm-dialog" onClick={(e) => e.stopPropagation()}>
+      <div
+        ref={dialogRef}
+        className={`modal-content confirm-dialog${isDestructive ? ' confirm-dialog-destructive' : ''}`}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={messageId}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
         <div className="modal-header">
-          <h2>{title}</h2>
+          <h2 id={titleId}>{title}</h2>
         </div>
-        
+
         <div className="modal-body">
-          <p>{message}</p>
+          <p id={messageId}>{message}</p>
         </div>
-        
+
         <div className="modal-footer">
-          <button onClick={onCancel} className="btn-secondary">
+          <button ref={cancelRef} onClick={onCancel} className="btn-secondary">
             {cancelText}
           </button>
           <button
+            ref={confirmRef}
             onClick={onConfirm}
             className={isDestructive ? 'btn-danger' : 'btn-primary'}
           >
@@ -45,4 +91,3 @@ export function ConfirmDialog({
     </div>
   );
 }
-
@@ -11,6 +11,11 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
+import { useApi, ConversationAnswerResult, ConversationQuestion as Question, ConversationStatus } from './api';
+import { API_URL } from './config';
+import { BranchingContext, isShown } from './branching';
+import { answerError, formatAnswer, isStructuredType } from './questionTypes';
+import { StructuredAnswerInput } from './StructuredAnswerInput';
 
 interface Message {
   role: 'assistant' | 'user';
@@ -18,14 +23,6 @@ interface Message {
   timestamp: Date;
 }
 
-interface Question {
-  index: number;
-  key: string;
-  text: string;
-  type: string;
-  required: boolean;
-}
-
 interface ConversationalChatProps {
   token: string;
   apiUrl?: string;
@@ -35,7 +32,7 @@ interface ConversationalChatProps {
 
 export const ConversationalChat: React.FC<ConversationalChatProps> = ({
   token,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
   onComplete,
   onSessionIdChange,
 }) => {
@@ -47,7 +44,11 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string>('');
   const [progress, setProgress] = useState({ answered: 0, total: 0, percent: 0 });
-  const [status, setStatus] = useState<'in_progress' | 'ready_for_review' | 'completed'>('in_progress');
+  const [status, setStatus] = useState<ConversationStatus>('in_progress');
+  // Accepted answers and referee context, for the template's show/skip rules
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [branchingContext, setBranchingContext] = useState<BranchingContext>({});
+  const api = useApi(apiUrl);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -73,6 +74,24 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
     }
   }, [currentQuestion, submitting]);
 
+  /** Passes over questions the template's rules hide, so the referee only sees ones that apply */
+  const skipHiddenQuestions = async (
+    session: string,
+    result: ConversationAnswerResult,
+    known: Record<string, string>,
+    context: BranchingContext
+  ): Promise<ConversationAnswerResult> => {
+    let current = result;
+    while (
+      current.status !== 'needs_clarification' &&
+      current.next_question &&
+      !isShown(current.next_question, known, context)
+    ) {
+      current = await api.conversation.skip({ session_id: session, question_index: current.next_question.index });
+    }
+    return current;
+  };
+
   const initializeSession = async () => {
     console.log('ConversationalChat: initializeSession called');
     console.log('ConversationalChat: apiUrl =', apiUrl);
@@ -82,25 +101,19 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
     setError('');
 
     try {
-      const url = `${apiUrl}/conversation/init?token=${token}`;
-      console.log('ConversationalChat: Fetching:', url);
-
-      const response = await fetch(url);
-      console.log('ConversationalChat: Response received:', response.status, response.statusText);
-
-      const data = await response.json();
+      const data = await api.conversation.init(token);
       console.log('ConversationalChat: Data received:', data);
 
-      if (!response.ok) {
-        console.log('ConversationalChat: Response not OK, throwing error');
-        throw new Error(data.error || 'Failed to initialize session');
-      }
-
       console.log('ConversationalChat: Setting session state...');
       setSessionId(data.session_id);
       setStatus(data.status);
       setProgress(data.progress);
 
+      const known = data.answers || {};
+      const context = { relationship: data.context?.relationship };
+      setAnswers(known);
+      setBranchingContext(context);
+
       // Notify parent component of sessionId
       if (onSessionIdChange && data.session_id) {
         console.log('ConversationalChat: Notifying parent of sessionId:', data.session_id);
@@ -134,11 +147,26 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
 
         addMessage('assistant', welcomeMessage);
 
+        const resolved = await skipHiddenQuestions(
+          data.session_id,
+          { status: data.status, progress: data.progress, next_question: data.question },
+          known,
+          context
+        );
+        setProgress(resolved.progress);
+
         // Then add first question
-        setTimeout(() => {
-          setCurrentQuestion(data.question);
-          addMessage('assistant', data.question.text);
-        }, 300);  // Reduced from 500ms to 300ms
+        const question = resolved.next_question;
+        if (question) {
+          setTimeout(() => {
+            setCurrentQuestion(question);
+            addMessage('assistant', question.text);
+          }, 300);  // Reduced from 500ms to 300ms
+        } else {
+          // Every remaining question was skipped by the template's rules
+          addMessage('assistant', '✅ Great! You\'ve answered all the questions. Please review your answers before submitting.');
+          setStatus('ready_for_review');
+        }
       } else {
         console.log('ConversationalChat: No question in response!');
       }
@@ -175,32 +203,33 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
       return;
     }
 
+    const problem = answerError(currentQuestion, answer.trim());
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
     setSubmitting(true);
     setError('');
 
-    // Add user's answer to chat immediately
-    addMessage('user', answer.trim());
+    // Add user's answer to chat immediately, readable rather than in its stored form
+    addMessage('user', formatAnswer(answer.trim(), currentQuestion));
     const userAnswer = answer.trim();
     setAnswer('');
 
     try {
-      const response = await fetch(`${apiUrl}/conversation/answer`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          session_id: sessionId,
-          question_index: currentQuestion.index,
-          answer: userAnswer,
-          skip_proofreading: true,
-        }),
+      const result = await api.conversation.answer({
+        session_id: sessionId,
+        question_index: currentQuestion.index,
+        answer: userAnswer,
+        skip_proofreading: true,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to save answer');
+      let data = result;
+      if (result.status !== 'needs_clarification') {
+        const known = { ...answers, [currentQuestion.key]: userAnswer };
+        setAnswers(known);
+        data = await skipHiddenQuestions(sessionId, result, known, branchingContext);
       }
 
       setProgress(data.progress);
@@ -433,31 +462,46 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
           )}
 
           <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-end' }}>
-            <textarea
-              ref={textareaRef}
-              value={answer}
-              onChange={(e) => setAnswer(e.target.value)}
-              placeholder="Type your answer here..."
-              disabled={submitting}
-              spellCheck={true}
-              rows={3}
-              style={{
-                flex: 1,
-                padding: '12px',
-                border: '1px solid #d1d5db',
-                borderRadius: '8px',
-                fontSize: '14px',
-                resize: 'vertical',
-                fontFamily: 'inherit',
-              }}
-              onKeyDown={(e) => {
-                // Submit on Ctrl/Cmd + Enter
-                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
-                  e.preventDefault();
-                  handleSubmitAnswer(e);
-                }
-              }}
-            />
+            {isStructuredType(currentQuestion.type) ? (
+              <div style={{ flex: 1 }}>
+                <StructuredAnswerInput
+                  question={currentQuestion}
+                  value={answer}
+                  onChange={(value) => {
+                    setAnswer(value);
+                    setError('');
+                  }}
+                  disabled={submitting}
+                  name={`chat_${currentQuestion.key}`}
+                />
+              </div>
+            ) : (
+              <textarea
+                ref={textareaRef}
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                placeholder="Type your answer here..."
+                disabled={submitting}
+                spellCheck={true}
+                rows={3}
+                style={{
+                  flex: 1,
+                  padding: '12px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  resize: 'vertical',
+                  fontFamily: 'inherit',
+                }}
+                onKeyDown={(e) => {
+                  // Submit on Ctrl/Cmd + Enter
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                    e.preventDefault();
+                    handleSubmitAnswer(e);
+                  }
+                }}
+              />
+            )}
             <button
               type="submit"
               disabled={!answer.trim() || submitting}
@@ -483,7 +527,9 @@ export const ConversationalChat: React.FC<ConversationalChatProps> = ({
               color: '#6b7280',
             }}
           >
-            Press Ctrl+Enter to send • Browser spell-check enabled
+            {isStructuredType(currentQuestion.type)
+              ? 'Choose your answer, then press Send'
+              : 'Press Ctrl+Enter to send • Browser spell-check enabled'}
           </div>
         </form>
       )}
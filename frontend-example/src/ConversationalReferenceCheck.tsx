@@ -13,6 +13,7 @@ import React, { useState } from 'react';
 import { RefereeAuthorization } from './RefereeAuthorization';
 import { ConversationalChat } from './ConversationalChat';
 import { ConversationalReview } from './ConversationalReview';
+import { API_URL } from './config';
 
 interface ConversationalReferenceCheckProps {
   token: string;
@@ -24,7 +25,7 @@ type Step = 'authorization' | 'chat' | 'review' | 'complete';
 
 export const ConversationalReferenceCheck: React.FC<
   ConversationalReferenceCheckProps
-> = ({ token, apiUrl = 'http://localhost:5001/api', onComplete }) => {
+> = ({ token, apiUrl = API_URL, onComplete }) => {
   const [currentStep, setCurrentStep] = useState<Step>('authorization');
   const [sessionId, setSessionId] = useState<string | null>(null);
 
@@ -11,25 +11,13 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useApi, ReviewItem } from './api';
+import { useConfirm, useToast } from './FeedbackContext';
+import { API_URL } from './config';
+import { AnswerQuestion, answerError, formatAnswer, isStructuredType } from './questionTypes';
+import { StructuredAnswerInput } from './StructuredAnswerInput';
 
-interface ConversationTurn {
-  type: string;
-  content: string;
-  created_at: string;
-}
-
-interface ReviewItem {
-  answer_id: string;
-  question_index: number;
-  question_key: string;
-  question_text: string;
-  answer_type: string;
-  raw_answer: string;
-  polished_answer: string;
-  word_count: number;
-  answered_at: string;
-  conversation_turns?: ConversationTurn[];
-}
+const reviewQuestion = (item: ReviewItem): AnswerQuestion => ({ ...item.answer_config, type: item.answer_type });
 
 interface ConversationalReviewProps {
   sessionId: string;
@@ -40,7 +28,7 @@ interface ConversationalReviewProps {
 
 export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
   sessionId,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
   onComplete,
   onBack,
 }) => {
@@ -54,6 +42,9 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
   const [showComparison, setShowComparison] = useState<string | null>(null);
   const [sessionStatus, setSessionStatus] = useState<string>('');
   const [totalQuestions, setTotalQuestions] = useState(0);
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const confirm = useConfirm();
 
   useEffect(() => {
     fetchReviewData();
@@ -64,12 +55,7 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
     setError('');
 
     try {
-      const response = await fetch(`${apiUrl}/conversation/review/${sessionId}`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch review data');
-      }
+      const data = await api.conversation.review(sessionId);
 
       setReviewItems(data.review_items);
       setSessionStatus(data.status);
@@ -94,31 +80,26 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
     setEditReason('');
   };
 
-  const handleSaveEdit = async (answerId: string) => {
+  const handleSaveEdit = async (item: ReviewItem) => {
+    const answerId = item.answer_id;
     if (!editValue.trim()) {
-      alert('Answer cannot be empty');
+      toast.warning('Answer cannot be empty');
+      return;
+    }
+
+    const problem = answerError(reviewQuestion(item), editValue.trim());
+    if (problem) {
+      toast.warning(problem);
       return;
     }
 
     try {
-      const response = await fetch(`${apiUrl}/conversation/revise`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          answer_id: answerId,
-          new_answer: editValue.trim(),
-          revision_reason: editReason || 'User revision during review',
-        }),
+      await api.conversation.revise({
+        answer_id: answerId,
+        new_answer: editValue.trim(),
+        revision_reason: editReason || 'User revision during review',
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to save revision');
-      }
-
       // Update local state - update both polished_answer and conversation_turns
       setReviewItems((prev) =>
         prev.map((item) => {
@@ -145,36 +126,27 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
       setEditReason('');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`Error saving changes: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Error saving changes' });
     }
   };
 
   const handleSubmit = async () => {
-    if (
-      !confirm(
-        `Submit your reference check?\n\nThis will finalize your responses and they cannot be changed after submission.`
-      )
-    ) {
-      return;
-    }
+    const confirmed = await confirm({
+      title: 'Submit your reference check?',
+      message: 'This will finalize your responses and they cannot be changed after submission.',
+      confirmText: 'Submit',
+    });
+    if (!confirmed) return;
 
     setSubmitting(true);
     setError('');
 
     try {
-      const response = await fetch(`${apiUrl}/conversation/complete/${sessionId}`, {
-        method: 'POST',
-      });
-
-      const data = await response.json();
+      await api.conversation.complete(sessionId);
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to complete session');
-      }
-
-      alert(
-        `✅ Reference check submitted successfully!\n\nYour responses have been recorded and secured with a tamper-proof hash.\n\nThank you for your time!`
-      );
+      toast.success('Your responses have been recorded and secured with a tamper-proof hash. Thank you for your time!', {
+        title: 'Reference check submitted',
+      });
 
       if (onComplete) {
         onComplete();
@@ -182,7 +154,7 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       setError(errorMessage);
-      alert(`Error submitting: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Error submitting' });
     } finally {
       setSubmitting(false);
     }
@@ -303,21 +275,30 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
             {editingId === item.answer_id ? (
               // Edit Mode
               <div style={{ marginTop: '16px' }}>
-                <textarea
-                  value={editValue}
-                  onChange={(e) => setEditValue(e.target.value)}
-                  spellCheck={item.answer_type !== 'number' && item.answer_type !== 'rating'}
-                  rows={6}
-                  style={{
-                    width: '100%',
-                    padding: '12px',
-                    border: '2px solid #3b82f6',
-                    borderRadius: '6px',
-                    fontSize: '14px',
-                    fontFamily: 'inherit',
-                    resize: 'vertical',
-                  }}
-                />
+                {isStructuredType(item.answer_type) ? (
+                  <StructuredAnswerInput
+                    question={reviewQuestion(item)}
+                    value={editValue}
+                    onChange={setEditValue}
+                    name={`review_${item.answer_id}`}
+                  />
+                ) : (
+                  <textarea
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    spellCheck={item.answer_type !== 'number' && item.answer_type !== 'rating'}
+                    rows={6}
+                    style={{
+                      width: '100%',
+                      padding: '12px',
+                      border: '2px solid #3b82f6',
+                      borderRadius: '6px',
+                      fontSize: '14px',
+                      fontFamily: 'inherit',
+                      resize: 'vertical',
+                    }}
+                  />
+                )}
                 <div style={{ marginTop: '12px' }}>
                   <input
                     type="text"
@@ -335,7 +316,7 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
                 </div>
                 <div style={{ marginTop: '12px', display: 'flex', gap: '8px' }}>
                   <button
-                    onClick={() => handleSaveEdit(item.answer_id)}
+                    onClick={() => handleSaveEdit(item)}
                     style={{
                       padding: '8px 16px',
                       backgroundColor: '#10b981',
@@ -421,7 +402,7 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
                               {isUserAnswer ? 'Your Response:' : isClarification ? 'Follow-up:' : 'System:'}
                             </div>
                             <div style={{ color: '#374151', whiteSpace: 'pre-wrap', lineHeight: '1.5' }}>
-                              {turn.content}
+                              {isUserAnswer ? formatAnswer(turn.content, reviewQuestion(item)) : turn.content}
                             </div>
                           </div>
                         );
@@ -449,7 +430,7 @@ export const ConversationalReview: React.FC<ConversationalReviewProps> = ({
                           Your Response:
                         </div>
                         <div style={{ color: '#374151', whiteSpace: 'pre-wrap', lineHeight: '1.5' }}>
-                          {item.polished_answer}
+                          {formatAnswer(item.polished_answer, reviewQuestion(item))}
                         </div>
                       </div>
                     )}
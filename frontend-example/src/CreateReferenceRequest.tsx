@@ -3,33 +3,38 @@
  * Form to create a new reference check request
  */
 
-import React, { useState } from 'react';
-
-interface FormData {
-  user_id: string;
-  template_id: string;
-  candidate_first_name: string;
-  candidate_last_name: string;
-  candidate_email: string;
-  candidate_phone_number: string;
-  position_applied_for: string;
-  notes: string;
-}
+import React, { useEffect, useState } from 'react';
+import { useApi, CandidateMatch, NewReferenceRequest as FormData } from './api';
+import { validateCandidate, EMAIL_PATTERN } from './validation';
+import { candidateMatchWarnings, isCompletePhone } from './duplicates';
+import { PhoneInput } from './PhoneInput';
+import { normalizePhone } from './phone';
+import { useConfirm } from './FeedbackContext';
+import { API_URL } from './config';
 
 interface CreateReferenceRequestProps {
   userId: string;
   templateId: string;
+  /** Pins the request to the version shown to the recruiter */
+  templateVersion?: number;
   onSuccess?: (requestId: string) => void;
   onError?: (error: string) => void;
+  /** Open an existing request flagged as a possible duplicate */
+  onOpenRequest?: (requestId: string) => void;
   apiUrl?: string;
 }
 
+/** Wait for the user to stop typing before looking up existing candidates */
+const MATCH_LOOKUP_DELAY_MS = 500;
+
 export const CreateReferenceRequest: React.FC<CreateReferenceRequestProps> = ({
   userId,
   templateId,
+  templateVersion,
   onSuccess,
   onError,
-  apiUrl = 'http://localhost:5001/api',
+  onOpenRequest,
+  apiUrl = API_URL,
 }) => {
   const [formData, setFormData] = useState<FormData>({
     user_id: userId,
@@ -44,26 +49,43 @@ export const CreateReferenceRequest: React.FC<CreateReferenceRequestProps> = ({
 
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [matches, setMatches] = useState<CandidateMatch[]>([]);
+  const api = useApi(apiUrl);
+  const confirm = useConfirm();
 
-  const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
+  const email = formData.candidate_email.trim();
+  const phone = formData.candidate_phone_number.trim();
 
-    if (!formData.candidate_first_name.trim()) {
-      newErrors.candidate_first_name = 'First name is required';
+  // Look for active requests with the same candidate email or phone
+  useEffect(() => {
+    const emails = email.match(EMAIL_PATTERN) ? [email] : [];
+    const phones = isCompletePhone(phone) ? [phone] : [];
+    if (emails.length === 0 && phones.length === 0) {
+      setMatches([]);
+      return;
     }
 
-    if (!formData.candidate_last_name.trim()) {
-      newErrors.candidate_last_name = 'Last name is required';
-    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await api.requests.findCandidates({ emails, phones });
+        if (!cancelled) setMatches(data.matches || []);
+      } catch (err) {
+        // The check is advisory; don't block creating the request
+        console.error('Error checking for existing candidates:', err);
+      }
+    }, MATCH_LOOKUP_DELAY_MS);
 
-    if (!formData.position_applied_for.trim()) {
-      newErrors.position_applied_for = 'Position is required';
-    }
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [email, phone]);
 
-    if (formData.candidate_email && !formData.candidate_email.match(/^[^\s@]+@[^\s@]+\.[^\s@]+$/)) {
-      newErrors.candidate_email = 'Invalid email format';
-    }
+  const duplicateWarnings = candidateMatchWarnings(formData, matches);
 
+  const validateForm = (): boolean => {
+    const newErrors = validateCandidate(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -75,24 +97,25 @@ export const CreateReferenceRequest: React.FC<CreateReferenceRequestProps> = ({
       return;
     }
 
+    if (duplicateWarnings.length > 0) {
+      const proceed = await confirm({
+        title: 'Possible duplicate candidate',
+        message: `${duplicateWarnings.map(w => w.message).join('\n')}\n\nCreate a new request anyway?`,
+        confirmText: 'Create Anyway',
+      });
+      if (!proceed) return;
+    }
+
     setLoading(true);
     setErrors({});
 
     try {
-      const response = await fetch(`${apiUrl}/requests`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
+      const data = await api.requests.create({
+        ...formData,
+        candidate_phone_number: normalizePhone(formData.candidate_phone_number),
+        template_version: templateVersion,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to create request');
-      }
-
       if (onSuccess && data.request) {
         onSuccess(data.request.id);
       }
@@ -118,8 +141,7 @@ export const CreateReferenceRequest: React.FC<CreateReferenceRequestProps> = ({
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
+  const setField = (name: string, value: string) => {
     setFormData((prev) => ({
       ...prev,
       [name]: value,
@@ -134,6 +156,10 @@ export const CreateReferenceRequest: React.FC<CreateReferenceRequestProps> = ({
     }
   };
 
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setField(e.target.name, e.target.value);
+  };
+
   return (
     <div className="create-reference-request">
       <h2>Create Reference Check Request</h2>
@@ -219,16 +245,36 @@ export const CreateReferenceRequest: React.FC<CreateReferenceRequestProps> = ({
         {/* Candidate Phone */}
         <div className="form-group">
           <label htmlFor="candidate_phone_number">Candidate Phone Number</label>
-          <input
-            type="tel"
+          <PhoneInput
             id="candidate_phone_number"
-            name="candidate_phone_number"
             value={formData.candidate_phone_number}
-            onChange={handleChange}
-            placeholder="+1-555-1234"
+            onChange={(value) => setField('candidate_phone_number', value)}
+            className={errors.candidate_phone_number ? 'error' : ''}
           />
+          {errors.candidate_phone_number && (
+            <span className="error-message">{errors.candidate_phone_number}</span>
+          )}
         </div>
 
+        {/* Existing requests for this candidate */}
+        {duplicateWarnings.length > 0 && (
+          <div className="duplicate-warnings" role="status">
+            <strong>⚠️ This candidate may already be in progress</strong>
+            <ul>
+              {duplicateWarnings.map(warning => (
+                <li key={warning.requestId}>
+                  {warning.message}
+                  {onOpenRequest && warning.requestId && (
+                    <button type="button" onClick={() => onOpenRequest(warning.requestId!)} className="btn-link">
+                      View existing request
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Notes */}
         <div className="form-group">
           <label htmlFor="notes">Notes</label>
@@ -4,27 +4,17 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useApi, QuestionConfig, QuestionRule, ResponseVersion as Version } from './api';
+import { visibleQuestions } from './branching';
+import { answerError, isStructuredType } from './questionTypes';
+import { StructuredAnswerInput } from './StructuredAnswerInput';
 
-interface Question {
+interface Question extends QuestionConfig {
   id: string;
   text: string;
   required: boolean;
   type?: string;
-}
-
-interface Version {
-  id: string;
-  version: number;
-  is_original: boolean;
-  answers_json: Record<string, string>;
-  edited_at: string | null;
-  edited_by: string | null;
-  edit_notes: string | null;
-  submitted_at: string;
-  users?: {
-    full_name: string;
-    email: string;
-  };
+  rule?: QuestionRule;
 }
 
 interface EditResponseModalProps {
@@ -35,6 +25,8 @@ interface EditResponseModalProps {
   currentAnswers: Record<string, string>;
   apiUrl: string;
   userId: string;
+  /** Referee's relationship to the candidate, for the template's show/skip rules */
+  relationship?: string;
   onSaveSuccess: () => void;
 }
 
@@ -46,6 +38,7 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
   currentAnswers,
   apiUrl,
   userId,
+  relationship,
   onSaveSuccess,
 }) => {
   const [editedAnswers, setEditedAnswers] = useState<Record<string, string>>(currentAnswers);
@@ -56,6 +49,7 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
   const [loadingVersions, setLoadingVersions] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<Version | null>(null);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const api = useApi(apiUrl);
 
   // Fetch versions when modal opens
   useEffect(() => {
@@ -78,15 +72,7 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
   const fetchVersions = async () => {
     try {
       setLoadingVersions(true);
-      const response = await fetch(`${apiUrl}/responses/${responseId}/versions`);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Failed to fetch versions - server response:', errorData);
-        throw new Error(errorData.message || errorData.error || 'Failed to fetch versions');
-      }
-
-      const data = await response.json();
+      const data = await api.reports.versions(responseId);
       setVersions(data.versions || []);
     } catch (err) {
       console.error('Error fetching versions:', err);
@@ -107,8 +93,9 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
       setSaving(true);
       setError('');
 
-      // Validate that all required questions are answered
-      const missingRequired = questions.filter(
+      // Validate that all required questions are answered; ones the template's rules skip don't count
+      const asked = visibleQuestions(questions, editedAnswers, { relationship });
+      const missingRequired = asked.filter(
         q => q.required && !editedAnswers[q.id]?.trim()
       );
 
@@ -117,26 +104,23 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
         return;
       }
 
-      const response = await fetch(`${apiUrl}/responses/${responseId}/versions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          answers_json: editedAnswers,
-          edit_notes: editNotes.trim()
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Server error details:', errorData);
-        const errorMsg = errorData.message || errorData.error || 'Failed to save edited version';
-        throw new Error(errorMsg);
+      const invalid = asked.find(q => answerError(q, editedAnswers[q.id] || ''));
+      if (invalid) {
+        setError(`${invalid.text}: ${answerError(invalid, editedAnswers[invalid.id] || '')}`);
+        return;
       }
 
-      const result = await response.json();
+      // Answers to questions the edits have made skipped no longer apply
+      const skippedIds = new Set(questions.filter(q => !asked.includes(q)).map(q => q.id));
+      const answersToSave = Object.fromEntries(
+        Object.entries(editedAnswers).filter(([questionId]) => !skippedIds.has(questionId))
+      );
+
+      const result = await api.reports.saveVersion(responseId, {
+        user_id: userId,
+        answers_json: answersToSave,
+        edit_notes: editNotes.trim()
+      });
       
       alert(`✅ Version ${result.version.version} saved successfully!`);
       
@@ -175,6 +159,9 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
 
   if (!isOpen) return null;
 
+  const askedQuestions = visibleQuestions(questions, editedAnswers, { relationship });
+  const skippedCount = questions.length - askedQuestions.length;
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div 
@@ -303,28 +290,42 @@ export const EditResponseModal: React.FC<EditResponseModalProps> = ({
         {/* Edit Form */}
         <div className="edit-form">
           <h3 style={{ fontSize: '16px', marginBottom: '16px' }}>Edit Answers</h3>
+          {skippedCount > 0 && (
+            <p style={{ fontSize: '13px', color: '#666', marginTop: '-8px', marginBottom: '16px' }}>
+              {skippedCount} question{skippedCount === 1 ? ' is' : 's are'} skipped by this template's rules based on the answers below.
+            </p>
+          )}
           
-          {questions.map((question) => (
+          {askedQuestions.map((question) => (
             <div key={question.id} className="form-group" style={{ marginBottom: '20px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500' }}>
                 {question.text}
                 {question.required && <span style={{ color: '#dc2626' }}> *</span>}
               </label>
-              <textarea
-                value={editedAnswers[question.id] || ''}
-                onChange={(e) => handleAnswerChange(question.id, e.target.value)}
-                rows={4}
-                style={{
-                  width: '100%',
-                  padding: '12px',
-                  border: '2px solid #e2e8f0',
-                  borderRadius: '6px',
-                  fontSize: '14px',
-                  fontFamily: 'inherit',
-                  resize: 'vertical'
-                }}
-                placeholder="Enter answer..."
-              />
+              {isStructuredType(question.type) ? (
+                <StructuredAnswerInput
+                  question={question}
+                  value={editedAnswers[question.id] || ''}
+                  onChange={(value) => handleAnswerChange(question.id, value)}
+                  name={`edit_${question.id}`}
+                />
+              ) : (
+                <textarea
+                  value={editedAnswers[question.id] || ''}
+                  onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                  rows={4}
+                  style={{
+                    width: '100%',
+                    padding: '12px',
+                    border: '2px solid #e2e8f0',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                    fontFamily: 'inherit',
+                    resize: 'vertical'
+                  }}
+                  placeholder="Enter answer..."
+                />
+              )}
             </div>
           ))}
 
@@ -0,0 +1,44 @@
+/**
+ * EmailHint Component
+ * Inline deliverability hints under a referee email field: a "did you mean"
+ * typo fix, and a flag for personal webmail on a work reference
+ */
+
+import React from 'react';
+import { getEmailDomain, isFreeWebmail, isProfessionalRelationship, suggestEmailCorrection } from './emailDomains';
+import { EMAIL_PATTERN } from './validation';
+
+interface EmailHintProps {
+  email: string;
+  relationship?: string;
+  onApplySuggestion: (email: string) => void;
+}
+
+export const EmailHint: React.FC<EmailHintProps> = ({ email, relationship = '', onApplySuggestion }) => {
+  if (!email.match(EMAIL_PATTERN)) return null;
+
+  const suggestion = suggestEmailCorrection(email);
+  if (suggestion) {
+    return (
+      <span className="email-hint email-hint-typo">
+        Did you mean{' '}
+        <button type="button" onClick={() => onApplySuggestion(suggestion)} className="btn-link">
+          {suggestion}
+        </button>
+        ?
+      </span>
+    );
+  }
+
+  if (isFreeWebmail(getEmailDomain(email)) && isProfessionalRelationship(relationship)) {
+    return (
+      <span className="email-hint">
+        Personal email for a work reference. A work address is easier to verify.
+      </span>
+    );
+  }
+
+  return null;
+};
+
+export default EmailHint;
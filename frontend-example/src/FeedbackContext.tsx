@@ -0,0 +1,191 @@
+/**
+ * FeedbackContext
+ * Global toast queue and promise-based confirm dialogs
+ *
+ * Replaces native alert()/confirm(): components call useToast() for
+ * transient messages (optionally with an Undo action) and
+ * `await confirm({...})` from useConfirm() for decisions. Confirms render
+ * through ConfirmDialog, so styling and focus handling are shared.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+
+export type ToastVariant = 'success' | 'error' | 'info' | 'warning';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  title?: string;
+  /** Milliseconds before auto-dismiss; 0 keeps the toast until closed */
+  duration?: number;
+  action?: ToastAction;
+  onDismiss?: () => void;
+}
+
+interface PendingConfirm extends ConfirmOptions {
+  id: number;
+  resolve: (confirmed: boolean) => void;
+}
+
+interface Toast extends ToastOptions {
+  id: number;
+  variant: ToastVariant;
+  message: string;
+}
+
+export interface ConfirmOptions {
+  title: string;
+  message: string;
+  confirmText?: string;
+  cancelText?: string;
+  destructive?: boolean;
+}
+
+type ShowToast = (message: string, options?: ToastOptions) => number;
+
+export interface ToastApi {
+  success: ShowToast;
+  error: ShowToast;
+  info: ShowToast;
+  warning: ShowToast;
+  dismiss: (id: number) => void;
+}
+
+interface FeedbackContextValue {
+  toast: ToastApi;
+  confirm: (options: ConfirmOptions) => Promise<boolean>;
+}
+
+const DEFAULT_DURATION_MS = 5000;
+const LONG_DURATION_MS = 8000;
+
+const TOAST_ICONS: Record<ToastVariant, string> = {
+  success: '✓',
+  error: '✕',
+  info: 'i',
+  warning: '!',
+};
+
+const FeedbackContext = createContext<FeedbackContextValue | undefined>(undefined);
+
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: number) => void }> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    if (!toast.duration) return;
+    const timeoutId = setTimeout(() => onDismiss(toast.id), toast.duration);
+    return () => clearTimeout(timeoutId);
+  }, [toast.id, toast.duration, onDismiss]);
+
+  return (
+    <div
+      className={`toast toast-${toast.variant}`}
+      role={toast.variant === 'error' ? 'alert' : 'status'}
+    >
+      <span className="toast-icon" aria-hidden="true">{TOAST_ICONS[toast.variant]}</span>
+      <div className="toast-body">
+        {toast.title && <strong className="toast-title">{toast.title}</strong>}
+        <span className="toast-message">{toast.message}</span>
+      </div>
+      {toast.action && (
+        <button
+          className="toast-action"
+          onClick={() => {
+            toast.action?.onClick();
+            onDismiss(toast.id);
+          }}
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button className="toast-close" onClick={() => onDismiss(toast.id)} aria-label="Dismiss notification">
+        ×
+      </button>
+    </div>
+  );
+};
+
+export const FeedbackProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  // Confirms asked while one is open wait their turn, so every caller's promise settles
+  const [confirmQueue, setConfirmQueue] = useState<PendingConfirm[]>([]);
+  const pendingConfirm = confirmQueue[0] || null;
+  const nextId = useRef(1);
+  const toastsRef = useRef<Toast[]>([]);
+  toastsRef.current = toasts;
+
+  const dismiss = useCallback((id: number) => {
+    const toast = toastsRef.current.find(t => t.id === id);
+    setToasts(prev => prev.filter(t => t.id !== id));
+    toast?.onDismiss?.();
+  }, []);
+
+  const show = useCallback((variant: ToastVariant): ShowToast => (message, options = {}) => {
+    const id = nextId.current++;
+    const duration = options.duration ?? (variant === 'error' || options.action ? LONG_DURATION_MS : DEFAULT_DURATION_MS);
+    setToasts(prev => [...prev, { ...options, id, variant, message, duration }]);
+    return id;
+  }, []);
+
+  const [toast] = useState<ToastApi>(() => ({
+    success: show('success'),
+    error: show('error'),
+    info: show('info'),
+    warning: show('warning'),
+    dismiss,
+  }));
+
+  const confirm = useCallback((options: ConfirmOptions) => {
+    return new Promise<boolean>(resolve => {
+      const id = nextId.current++;
+      setConfirmQueue(prev => [...prev, { ...options, id, resolve }]);
+    });
+  }, []);
+
+  const settleConfirm = (confirmed: boolean) => {
+    if (!pendingConfirm) return;
+    pendingConfirm.resolve(confirmed);
+    setConfirmQueue(prev => prev.filter(c => c.id !== pendingConfirm.id));
+  };
+
+  return (
+    <FeedbackContext.Provider value={{ toast, confirm }}>
+      {children}
+
+      {pendingConfirm && (
+        <ConfirmDialog
+          key={pendingConfirm.id}
+          title={pendingConfirm.title}
+          message={pendingConfirm.message}
+          confirmText={pendingConfirm.confirmText}
+          cancelText={pendingConfirm.cancelText}
+          isDestructive={pendingConfirm.destructive}
+          onConfirm={() => settleConfirm(true)}
+          onCancel={() => settleConfirm(false)}
+        />
+      )}
+
+      <div className="toast-container" aria-live="polite">
+        {toasts.map(t => (
+          <ToastItem key={t.id} toast={t} onDismiss={dismiss} />
+        ))}
+      </div>
+    </FeedbackContext.Provider>
+  );
+};
+
+const useFeedback = (): FeedbackContextValue => {
+  const context = useContext(FeedbackContext);
+  if (!context) {
+    throw new Error('useToast/useConfirm must be used within a FeedbackProvider');
+  }
+  return context;
+};
+
+export const useToast = (): ToastApi => useFeedback().toast;
+
+export const useConfirm = (): FeedbackContextValue['confirm'] => useFeedback().confirm;
+
+export default FeedbackContext;
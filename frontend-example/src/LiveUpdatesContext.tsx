@@ -0,0 +1,65 @@
+/**
+ * LiveUpdatesContext
+ * One live-updates connection per tab, shared by every admin component
+ *
+ * LiveUpdatesProvider opens the event stream (or poller) once; components
+ * call useRequestEvents(handler) to receive events without opening their own.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useRef } from 'react';
+import { RequestEvent } from './api';
+import { useCurrentUser } from './AuthContext';
+import { LiveConnectionState, useRequestEventStream } from './liveUpdates';
+
+type EventHandler = (event: RequestEvent) => void;
+
+interface LiveUpdatesContextValue {
+  connection: LiveConnectionState;
+  subscribe: (handler: EventHandler) => () => void;
+}
+
+const LiveUpdatesContext = createContext<LiveUpdatesContextValue | undefined>(undefined);
+
+export const LiveUpdatesProvider: React.FC<{ apiUrl: string; children: React.ReactNode }> = ({ apiUrl, children }) => {
+  const { id: userId } = useCurrentUser();
+  const handlers = useRef(new Set<EventHandler>());
+
+  const connection = useRequestEventStream(apiUrl, userId, (event) => {
+    handlers.current.forEach(handler => handler(event));
+  });
+
+  const subscribe = useCallback((handler: EventHandler) => {
+    handlers.current.add(handler);
+    return () => {
+      handlers.current.delete(handler);
+    };
+  }, []);
+
+  return (
+    <LiveUpdatesContext.Provider value={{ connection, subscribe }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  );
+};
+
+/**
+ * Calls onEvent for every lifecycle event of the user's requests.
+ * Returns the shared connection state for display.
+ */
+export const useRequestEvents = (onEvent: EventHandler): LiveConnectionState => {
+  const context = useContext(LiveUpdatesContext);
+  if (!context) {
+    throw new Error('useRequestEvents must be used within a LiveUpdatesProvider');
+  }
+
+  // Register once and read the latest handler through a ref, so re-renders don't resubscribe
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+  const { subscribe } = context;
+
+  useEffect(() => subscribe(event => handlerRef.current(event)), [subscribe]);
+
+  return context.connection;
+};
+
+export default LiveUpdatesContext;
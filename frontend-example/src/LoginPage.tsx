@@ -0,0 +1,104 @@
+/**
+ * Login Page
+ * Sign-in screen for recruiters and hiring managers
+ */
+
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+
+interface LocationState {
+  from?: { pathname: string; search?: string };
+}
+
+const LoginPage: React.FC = () => {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const from = (location.state as LocationState | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search || ''}` : '/';
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() || !password) {
+      setError('Please enter your email and password');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await login(email.trim(), password);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <div className="login-card">
+        <h1>Reference Check Management</h1>
+        <p className="help-text">Sign in to manage your reference checks</p>
+
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="login_email">Email</label>
+            <input
+              type="email"
+              id="login_email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@company.com"
+              autoComplete="username"
+              disabled={submitting}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="login_password">Password</label>
+            <input
+              type="password"
+              id="login_password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              disabled={submitting}
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="alert alert-error">
+              {error}
+            </div>
+          )}
+
+          <div className="form-actions">
+            <button type="submit" disabled={submitting} className="btn-primary">
+              {submitting ? 'Signing in...' : 'Sign In'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,217 @@
+/**
+ * NotificationBell Component
+ * Header bell with a persistent feed of reference lifecycle events
+ *
+ * Events: candidate authorized, referee consent signed/declined,
+ * reference submitted and email bounced. Each item has read/unread state
+ * and links to the candidate row or the submitted report.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useCurrentUser } from './AuthContext';
+import { useApi, AppNotification, NotificationType } from './api';
+import { useRequestEvents } from './LiveUpdatesContext';
+import { API_URL } from './config';
+
+interface NotificationBellProps {
+  apiUrl?: string;
+  onOpenRequest: (requestId: string, candidateName: string) => void;
+  onOpenReport: (requestId: string, refereeId: string) => void;
+}
+
+const FEED_LIMIT = 50;
+
+const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  'candidate.authorized': '✍️',
+  'referee.consent_signed': '🤝',
+  'referee.declined': '🚫',
+  'referee.completed': '✅',
+  'referee.bounced': '⚠️',
+  'candidate.nominated_referees': '🙋',
+};
+
+const describeNotification = (notification: AppNotification): string => {
+  const referee = notification.referee_name || 'A referee';
+  switch (notification.type) {
+    case 'candidate.authorized':
+      return `${notification.candidate_name} signed the reference check authorization`;
+    case 'referee.consent_signed':
+      return `${referee} gave consent to provide a reference for ${notification.candidate_name}`;
+    case 'referee.declined':
+      return `${referee} declined to provide a reference for ${notification.candidate_name}`;
+    case 'referee.completed':
+      return `${referee} submitted a reference for ${notification.candidate_name}`;
+    case 'referee.bounced':
+      return `Email to ${referee} (referee for ${notification.candidate_name}) bounced`;
+    case 'candidate.nominated_referees':
+      return `${notification.candidate_name} nominated referees for your approval`;
+    default:
+      return notification.candidate_name;
+  }
+};
+
+const formatRelativeTime = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(dateString).toLocaleDateString('en-NZ', {
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'Pacific/Auckland',
+  });
+};
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({
+  apiUrl = API_URL,
+  onOpenRequest,
+  onOpenReport,
+}) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = async () => {
+    try {
+      const data = await api.notifications.list({ user_id: userId, limit: FEED_LIMIT });
+      setNotifications(data.notifications || []);
+      setUnreadCount(data.unread_count ?? (data.notifications || []).filter(n => !n.read_at).length);
+      setError('');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [userId]);
+
+  // New lifecycle events create notifications server-side; reload the feed
+  useRequestEvents((event) => {
+    if (event.type !== 'referee.started') {
+      fetchNotifications();
+    }
+  });
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const markRead = (notificationId: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n =>
+      n.id === notificationId && !n.read_at ? { ...n, read_at: readAt } : n
+    ));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+    api.notifications.markRead(notificationId).catch(err => {
+      console.error('Failed to mark notification as read:', err);
+    });
+  };
+
+  const handleMarkAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
+    setUnreadCount(0);
+    try {
+      await api.notifications.markAllRead(userId);
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+      fetchNotifications();
+    }
+  };
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markRead(notification.id);
+    }
+    setOpen(false);
+
+    // Submitted references go straight to the report; everything else to the candidate row
+    if (notification.type === 'referee.completed' && notification.referee_id) {
+      onOpenReport(notification.request_id, notification.referee_id);
+    } else {
+      onOpenRequest(notification.request_id, notification.candidate_name);
+    }
+  };
+
+  return (
+    <div className="notification-bell" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="notification-bell-button"
+        aria-haspopup="true"
+        aria-expanded={open}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="notification-count">{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="notification-panel" role="dialog" aria-label="Notifications">
+          <div className="notification-panel-header">
+            <strong>Notifications</strong>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="btn-link">
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {error && <div className="notification-empty">{error}</div>}
+
+          {!error && notifications.length === 0 && (
+            <div className="notification-empty">No notifications yet.</div>
+          )}
+
+          <ul className="notification-list">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`notification-item${notification.read_at ? '' : ' unread'}`}
+                >
+                  <span className="notification-icon" aria-hidden="true">
+                    {NOTIFICATION_ICONS[notification.type] || '🔔'}
+                  </span>
+                  <span className="notification-text">
+                    {describeNotification(notification)}
+                    <span className="notification-time">{formatRelativeTime(notification.created_at)}</span>
+                  </span>
+                  {!notification.read_at && <span className="notification-dot" aria-label="Unread" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
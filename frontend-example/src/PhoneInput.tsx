@@ -0,0 +1,89 @@
+/**
+ * PhoneInput Component
+ * Phone field with a country picker (default NZ)
+ *
+ * Reports the E.164 number once what's typed is valid. Otherwise it reports
+ * the text behind the selected country's dial code (+61 0412), so the form's
+ * validation and save paths judge it by that country rather than reading it
+ * as a New Zealand number. Numbers typed with a leading + or 00 override the
+ * selected country and are reported as typed.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PHONE_COUNTRIES, countryFlag, getPhoneCountry, splitPhone, toE164 } from './phone';
+
+interface PhoneInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export const PhoneInput: React.FC<PhoneInputProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder,
+  className,
+  style,
+}) => {
+  const [country, setCountry] = useState(() => splitPhone(value).country);
+  const [text, setText] = useState(() => splitPhone(value).national);
+  // Last value reported to the parent, so a reset from outside can be told apart from our own updates
+  const lastEmitted = useRef(value);
+
+  useEffect(() => {
+    if (value === lastEmitted.current) return;
+    const parts = splitPhone(value);
+    setCountry(parts.country);
+    setText(parts.national);
+    lastEmitted.current = value;
+  }, [value]);
+
+  const emit = (nextText: string, nextCountry: string) => {
+    const typed = nextText.trim();
+    const next = typed
+      ? toE164(typed, nextCountry) ?? (/^(\+|00)/.test(typed) ? typed : `+${getPhoneCountry(nextCountry).dialCode} ${typed}`)
+      : '';
+    lastEmitted.current = next;
+    onChange(next);
+  };
+
+  const selected = getPhoneCountry(country);
+
+  return (
+    <div className="phone-input" style={style}>
+      <select
+        value={country}
+        onChange={(e) => {
+          setCountry(e.target.value);
+          emit(text, e.target.value);
+        }}
+        aria-label="Country"
+        className="phone-input-country"
+      >
+        {PHONE_COUNTRIES.map(option => (
+          <option key={option.code} value={option.code}>
+            {countryFlag(option.code)} {option.name} +{option.dialCode}
+          </option>
+        ))}
+      </select>
+      <input
+        type="tel"
+        id={id}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          emit(e.target.value, country);
+        }}
+        placeholder={placeholder ?? (selected.code === 'NZ' ? '021 123 4567' : 'Phone number')}
+        className={`phone-input-number${className ? ` ${className}` : ''}`}
+        autoComplete="tel"
+      />
+    </div>
+  );
+};
+
+export default PhoneInput;
@@ -0,0 +1,132 @@
+/**
+ * PipelineExportDialog Component
+ * Choose rows, columns and format for exporting the request list
+ */
+
+import React, { useState } from 'react';
+import { DEFAULT_EXPORT_COLUMN_IDS, EXPORT_COLUMNS, ExportColumn, ExportFormat } from './pipelineExport';
+
+export type ExportScope = 'selected' | 'page' | 'all';
+
+export interface ExportScopeOption {
+  scope: ExportScope;
+  label: string;
+  count: number;
+}
+
+interface PipelineExportDialogProps {
+  scopes: ExportScopeOption[];
+  defaultScope: ExportScope;
+  exporting: boolean;
+  onExport: (scope: ExportScope, columnIds: string[], format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+const COLUMN_GROUPS: ExportColumn['group'][] = ['Candidate', 'Authorization', 'Referee'];
+
+export const PipelineExportDialog: React.FC<PipelineExportDialogProps> = ({
+  scopes,
+  defaultScope,
+  exporting,
+  onExport,
+  onClose,
+}) => {
+  const [scope, setScope] = useState<ExportScope>(defaultScope);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [columnIds, setColumnIds] = useState<string[]>(DEFAULT_EXPORT_COLUMN_IDS);
+
+  const toggleColumn = (id: string) => {
+    setColumnIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={exporting ? undefined : onClose}>
+      <div
+        className="modal-content export-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2 id="export-dialog-title">Export Requests</h2>
+        </div>
+
+        <div className="modal-body">
+          <fieldset className="export-fieldset">
+            <legend>Rows</legend>
+            {scopes.map(option => (
+              <label key={option.scope} className="export-option">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === option.scope}
+                  onChange={() => setScope(option.scope)}
+                  disabled={exporting || option.count === 0}
+                />
+                {option.label} ({option.count})
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className="export-fieldset">
+            <legend>Format</legend>
+            <label className="export-option">
+              <input type="radio" name="export-format" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} disabled={exporting} />
+              Excel (.xlsx)
+            </label>
+            <label className="export-option">
+              <input type="radio" name="export-format" checked={format === 'csv'} onChange={() => setFormat('csv')} disabled={exporting} />
+              CSV
+            </label>
+          </fieldset>
+
+          <fieldset className="export-fieldset">
+            <legend>
+              Columns
+              <button type="button" onClick={() => setColumnIds(DEFAULT_EXPORT_COLUMN_IDS)} className="btn-link" disabled={exporting}>
+                All
+              </button>
+              <button type="button" onClick={() => setColumnIds([])} className="btn-link" disabled={exporting}>
+                None
+              </button>
+            </legend>
+            <div className="export-columns">
+              {COLUMN_GROUPS.map(group => (
+                <div key={group}>
+                  <h4>{group}</h4>
+                  {EXPORT_COLUMNS.filter(column => column.group === group).map(column => (
+                    <label key={column.id} className="export-option">
+                      <input
+                        type="checkbox"
+                        checked={columnIds.includes(column.id)}
+                        onChange={() => toggleColumn(column.id)}
+                        disabled={exporting}
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="btn-secondary" disabled={exporting}>
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(scope, columnIds, format)}
+            className="btn-primary"
+            disabled={exporting || columnIds.length === 0}
+          >
+            {exporting ? 'Preparing...' : '⬇️ Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineExportDialog;
@@ -5,45 +5,8 @@
  */
 
 import React from 'react';
-
-interface ReferenceData {
-  // Candidate info
-  candidate: {
-    name: string;
-    organization?: string;
-    role?: string;
-    email: string;
-    phone?: string;
-    employmentStart: string;
-    employmentEnd: string;
-  };
-
-  // Referee info
-  referee: {
-    name: string;
-    organization?: string;
-    role?: string;
-    email: string;
-    phone?: string;
-    submissionDate: string;
-    relationship: string;
-  };
-
-  // Responses
-  responses: Array<{
-    question: string;
-    answer: string;
-    rating?: number; // 1-7 scale
-    wordCount?: number;
-  }>;
-
-  // Metadata
-  metadata?: {
-    turnaroundTimeHours?: number;
-    totalWordCount?: number;
-    sentimentScore?: number; // 0-100
-  };
-}
+import { ProfessionalReportData as ReferenceData } from './api';
+import { formatAnswer } from './questionTypes';
 
 interface CompetencyScore {
   name: string;
@@ -186,8 +149,8 @@ export const ProfessionalReferenceReport: React.FC<{ data: ReferenceData }> = ({
                 <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px' }}>
                   {response.question}
                 </div>
-                <div style={{ fontSize: '15px', color: '#1a1a1a', lineHeight: '1.6' }}>
-                  {response.answer}
+                <div style={{ fontSize: '15px', color: '#1a1a1a', lineHeight: '1.6', whiteSpace: 'pre-line' }}>
+                  {formatAnswer(response.answer, response)}
                 </div>
               </div>
             </div>
@@ -5,7 +5,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
+import { useApi, ProfessionalReportData } from './api';
 import ProfessionalReferenceReport from './ProfessionalReferenceReport';
+import { API_URL } from './config';
 
 interface RouteParams {
   requestId: string;
@@ -17,12 +19,13 @@ interface ProfessionalReportPageProps {
 }
 
 export const ProfessionalReportPage: React.FC<ProfessionalReportPageProps> = ({
-  apiUrl = 'http://localhost:5001/api'
+  apiUrl = API_URL
 }) => {
   const { requestId, refereeId } = useParams<Record<string, string>>();
-  const [reportData, setReportData] = useState<any>(null);
+  const [reportData, setReportData] = useState<ProfessionalReportData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const api = useApi(apiUrl);
 
   useEffect(() => {
     if (requestId && refereeId) {
@@ -35,16 +38,7 @@ export const ProfessionalReportPage: React.FC<ProfessionalReportPageProps> = ({
       setLoading(true);
       setError('');
 
-      const response = await fetch(
-        `${apiUrl}/reports/${requestId}/referee/${refereeId}`
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to load report');
-      }
-
-      const data = await response.json();
+      const data = await api.reports.professional(requestId!, refereeId!);
       setReportData(data);
     } catch (err: any) {
       console.error('Error fetching report:', err);
@@ -92,7 +86,7 @@ export const ProfessionalReportPage: React.FC<ProfessionalReportPageProps> = ({
       pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
 
       // Generate filename from candidate name
-      const fileName = `Reference_Report_${reportData.candidate?.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
+      const fileName = `Reference_Report_${reportData?.candidate.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
       pdf.save(fileName);
     } catch (error) {
       console.error('Error generating PDF:', error);
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
+import { QuestionConfig, QuestionType } from './api';
+import { questionTypeBadge } from './questionTypes';
 
-export interface QuestionTemplate {
+export interface QuestionTemplate extends QuestionConfig {
   id: string;
   text: string;
   category: string;
-  type: 'text' | 'textarea' | 'scale';
+  type: QuestionType;
   required: boolean;
 }
 
@@ -15,6 +17,7 @@ const QUESTION_LIBRARY: QuestionTemplate[] = [
   { id: 'lib_wp_3', text: 'What areas could the candidate improve upon?', category: 'Work Performance', type: 'textarea', required: true },
   { id: 'lib_wp_4', text: 'On a scale of 1-5, how would you rate their work quality?', category: 'Work Performance', type: 'scale', required: true },
   { id: 'lib_wp_5', text: 'Did the candidate consistently meet deadlines and deliverables?', category: 'Work Performance', type: 'textarea', required: true },
+  { id: 'lib_wp_6', text: 'Please rate the candidate on each of the following competencies', category: 'Work Performance', type: 'matrix', rows: ['Work Quality', 'Communication', 'Teamwork', 'Problem Solving', 'Reliability'], scale_max: 5, required: true },
   
   // Communication & Teamwork
   { id: 'lib_ct_1', text: 'How effective was the candidate at communicating with team members?', category: 'Communication', type: 'textarea', required: true },
@@ -27,6 +30,7 @@ const QUESTION_LIBRARY: QuestionTemplate[] = [
   { id: 'lib_li_2', text: 'Can you provide an example of when they took initiative?', category: 'Leadership', type: 'textarea', required: false },
   { id: 'lib_li_3', text: 'How did they handle responsibility and accountability?', category: 'Leadership', type: 'textarea', required: true },
   { id: 'lib_li_4', text: 'On a scale of 1-5, how proactive were they?', category: 'Leadership', type: 'scale', required: false },
+  { id: 'lib_li_5', text: 'How many people did the candidate manage directly?', category: 'Leadership', type: 'numeric', min: 0, unit: 'people', required: false },
   
   // Reliability & Attendance
   { id: 'lib_ra_1', text: 'How would you rate the candidate\'s punctuality and attendance?', category: 'Reliability', type: 'textarea', required: true },
@@ -51,6 +55,11 @@ const QUESTION_LIBRARY: QuestionTemplate[] = [
   // Reason for Leaving
   { id: 'lib_rfl_1', text: 'What was the reason for the candidate leaving your organization?', category: 'Employment History', type: 'textarea', required: true },
   { id: 'lib_rfl_2', text: 'Would you consider them eligible for rehire?', category: 'Employment History', type: 'textarea', required: true },
+  { id: 'lib_eh_1', text: 'What were the candidate\'s dates of employment?', category: 'Employment History', type: 'date_range', required: true },
+  { id: 'lib_eh_2', text: 'What was the candidate\'s working arrangement?', category: 'Employment History', type: 'single_choice', options: ['Permanent full-time', 'Permanent part-time', 'Fixed-term', 'Contractor', 'Casual'], required: false },
+  { id: 'lib_eh_3', text: 'What was the candidate\'s final base salary?', category: 'Employment History', type: 'numeric', min: 0, unit: 'NZD', required: false },
+  { id: 'lib_eh_4', text: 'Were there any performance or conduct concerns during their employment?', category: 'Employment History', type: 'yes_no', required: true },
+  { id: 'lib_eh_5', text: 'Which areas was the candidate responsible for?', category: 'Employment History', type: 'multi_choice', options: ['People management', 'Budget', 'Customer relationships', 'Projects', 'Compliance'], required: false },
 ];
 
 interface QuestionLibraryProps {
@@ -129,7 +138,7 @@ export function QuestionLibrary({ onAddQuestion, onClose }: QuestionLibraryProps
                     <span className="question-category">{question.category}</span>
                     <p className="question-text">{question.text}</p>
                     <div className="question-meta">
-                      <span className="meta-badge">{question.type === 'textarea' ? 'Long Text' : question.type === 'scale' ? 'Rating (1-5)' : 'Short Text'}</span>
+                      <span className="meta-badge">{questionTypeBadge(question)}</span>
                       {question.required && <span className="meta-badge required">Required</span>}
                     </div>
                   </div>
@@ -7,6 +7,9 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useApi, ApiError, isNetworkError, RefereeAuthorizationDetails as AuthorizationData } from './api';
+import { API_URL } from './config';
+import { useConfirm, useToast } from './FeedbackContext';
 
 interface RefereeAuthorizationProps {
   token: string;
@@ -14,17 +17,9 @@ interface RefereeAuthorizationProps {
   onAuthorizationComplete?: () => void;
 }
 
-interface AuthorizationData {
-  referee_name: string;
-  candidate_name: string;
-  position: string;
-  recruiting_company: string;
-  contact_email: string;
-}
-
 export const RefereeAuthorization: React.FC<RefereeAuthorizationProps> = ({
   token,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
   onAuthorizationComplete,
 }) => {
   const [loading, setLoading] = useState(true);
@@ -35,6 +30,9 @@ export const RefereeAuthorization: React.FC<RefereeAuthorizationProps> = ({
   const [submitting, setSubmitting] = useState(false);
   const [declining, setDeclining] = useState(false);
   const [declined, setDeclined] = useState(false);
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const confirm = useConfirm();
 
   useEffect(() => {
     if (!token) {
@@ -44,93 +42,86 @@ export const RefereeAuthorization: React.FC<RefereeAuthorizationProps> = ({
     }
 
     // Fetch referee and request details
-    fetch(`${apiUrl}/public/referee-authorization?token=${token}`)
-      .then(res => res.json())
+    api.publicAuthorization.getReferee(token)
       .then(responseData => {
         if (responseData.ok) {
           setData(responseData.data);
         } else {
-          setError(responseData.error || 'Failed to load authorization form');
+          setError('Failed to load authorization form');
         }
         setLoading(false);
       })
       .catch(err => {
         console.error('Authorization fetch error:', err);
-        setError('Failed to load authorization. Please try again.');
+        setError(err instanceof ApiError && !isNetworkError(err)
+          ? err.message
+          : 'Failed to load authorization. Please try again.');
         setLoading(false);
       });
-  }, [token, apiUrl]);
+  }, [token, api]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!signature.trim()) {
-      alert('Please enter your full name as signature');
+      toast.warning('Please enter your full name as signature');
       return;
     }
 
     if (!agreed) {
-      alert('You must agree to the consent terms to proceed');
+      toast.warning('You must agree to the consent terms to proceed');
       return;
     }
 
     setSubmitting(true);
     try {
-      const response = await fetch(`${apiUrl}/public/referee-authorization/submit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          token,
-          signature: signature.trim(),
-          agreed,
-          user_agent: navigator.userAgent,
-          signed_at: new Date().toISOString(),
-        }),
+      await api.publicAuthorization.submitReferee({
+        token,
+        signature: signature.trim(),
+        agreed,
+        user_agent: navigator.userAgent,
+        signed_at: new Date().toISOString(),
       });
 
-      const responseData = await response.json();
-
-      if (response.ok) {
-        // Authorization complete, proceed to reference questions
-        if (onAuthorizationComplete) {
-          onAuthorizationComplete();
-        }
-      } else {
-        alert(`Error: ${responseData.error || 'Failed to submit authorization'}`);
+      // Authorization complete, proceed to reference questions
+      if (onAuthorizationComplete) {
+        onAuthorizationComplete();
       }
     } catch (err) {
-      alert('Network error. Please check your connection and try again.');
+      if (err instanceof ApiError && !isNetworkError(err)) {
+        toast.error(err.message);
+      } else {
+        toast.error('Network error. Please check your connection and try again.');
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
   const handleDecline = async () => {
-    if (!confirm('Are you sure you do not wish to provide a reference? The hiring company will be notified.')) {
-      return;
-    }
+    const confirmed = await confirm({
+      title: 'Decline to provide a reference?',
+      message: 'Are you sure you do not wish to provide a reference? The hiring company will be notified.',
+      confirmText: 'Decline',
+      cancelText: 'Go Back',
+      destructive: true,
+    });
+    if (!confirmed) return;
 
     setDeclining(true);
     try {
-      const response = await fetch(`${apiUrl}/public/referee-authorization/decline`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          token,
-          user_agent: navigator.userAgent,
-          declined_at: new Date().toISOString(),
-        }),
+      await api.publicAuthorization.declineReferee({
+        token,
+        user_agent: navigator.userAgent,
+        declined_at: new Date().toISOString(),
       });
-
-      const responseData = await response.json();
-
-      if (response.ok) {
-        setDeclined(true);
+      setDeclined(true);
+    } catch (err) {
+      if (err instanceof ApiError && !isNetworkError(err)) {
+        toast.error(err.message);
       } else {
-        alert(`Error: ${responseData.error || 'Failed to record decline'}`);
+        toast.error('Network error. Please check your connection and try again.');
       }
-    } catch (err) {
-      alert('Network error. Please check your connection and try again.');
     } finally {
       setDeclining(false);
     }
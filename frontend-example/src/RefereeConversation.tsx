@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { useApi, isNetworkError } from './api';
+import { API_URL } from './config';
 
 interface Message {
   id: string;
@@ -26,7 +28,7 @@ const RefereeConversation: React.FC<RefereeConversationProps> = ({ token, onBack
   const hasInitialized = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const API_URL = process.env.NODE_ENV === 'production' ? 'https://api-ref.getbrindleai.com/api' : 'http://localhost:5001/api';
+  const api = useApi(API_URL);
 
   // Auto-scroll to bottom when new messages arrive
   const scrollToBottom = () => {
@@ -44,26 +46,12 @@ const RefereeConversation: React.FC<RefereeConversationProps> = ({ token, onBack
     }
   }, [token]);
 
-  const initializeConversation = async (retryCount = 0) => {
+  const initializeConversation = async () => {
     try {
       setIsLoading(true);
       
-      // Longer timeout for first load (cold start can take 10+ seconds)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-      
-      const response = await fetch(`${API_URL}/public/conversation/init?token=${token}`, {
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to initialize conversation');
-      }
-
-      const data = await response.json();
+      // The client applies a longer timeout and retries for cold starts
+      const data = await api.publicConversation.init(token);
       
       // Set candidate name from context
       if (data.context?.candidate_first_name && data.context?.candidate_last_name) {
@@ -106,16 +94,6 @@ const RefereeConversation: React.FC<RefereeConversationProps> = ({ token, onBack
 
       setIsLoading(false);
     } catch (err: any) {
-      // Handle timeout or network errors with automatic retry
-      if ((err.name === 'AbortError' || err.message.includes('fetch')) && retryCount < 2) {
-        console.log(`Request timed out, retrying (attempt ${retryCount + 1}/2)...`);
-        // Wait 2 seconds then retry (server should be warm now)
-        setTimeout(() => {
-          initializeConversation(retryCount + 1);
-        }, 2000);
-        return;
-      }
-      
       setError(err.message || 'Failed to load. Please refresh the page.');
       setIsLoading(false);
     }
@@ -137,79 +115,53 @@ const RefereeConversation: React.FC<RefereeConversationProps> = ({ token, onBack
 
     try {
       // Save draft
-      const draftResponse = await fetch(`${API_URL}/public/conversation/draft`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          token,
-          turn: {
-            question_id: currentQuestionId,
-            answer: currentInput,
-            timestamp: new Date().toISOString()
-          }
-        })
+      const draftData = await api.publicConversation.saveDraft({
+        token,
+        turn: {
+          question_id: currentQuestionId,
+          answer: currentInput,
+          timestamp: new Date().toISOString()
+        }
       });
 
-      if (!draftResponse.ok) {
-        throw new Error('Failed to save response');
-      }
-
-      const draftData = await draftResponse.json();
-
       // Update progress
       setProgress(prev => ({ ...prev, current: prev.current + 1 }));
 
       // Check if there are more questions
-      if (draftData.next_question) {
+      const nextQuestion = draftData.next_question;
+      if (nextQuestion) {
         setTimeout(() => {
           const nextMessage: Message = {
-            id: draftData.next_question.id,
-            text: draftData.next_question.text,
+            id: nextQuestion.id,
+            text: nextQuestion.text,
             from: 'system',
             timestamp: new Date().toISOString()
           };
           setMessages(prev => [...prev, nextMessage]);
-          setCurrentQuestionId(draftData.next_question.id);
+          setCurrentQuestionId(nextQuestion.id);
           setIsSubmitting(false);
         }, 800);
       } else {
         // All questions answered, submit
         setTimeout(async () => {
           try {
-            const submitResponse = await fetch(`${API_URL}/public/conversation/submit`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ token })
-            });
-
-            const submitData = await submitResponse.json();
-
-            if (submitResponse.ok) {
-              console.log('✅ Reference submitted successfully:', submitData);
-              const thankYouMessage: Message = {
-                id: 'complete',
-                text: 'Thank you for completing this reference! Your responses have been submitted.',
-                from: 'system',
-                timestamp: new Date().toISOString()
-              };
-              setMessages(prev => [...prev, thankYouMessage]);
-              setIsComplete(true);
-            } else {
-              console.error('❌ Submission failed:', submitData);
-              const errorMessage: Message = {
-                id: 'error',
-                text: `Failed to submit: ${submitData.error || 'Unknown error'}. Please contact support with this error.`,
-                from: 'system',
-                timestamp: new Date().toISOString()
-              };
-              setMessages(prev => [...prev, errorMessage]);
-              setError(submitData.error || 'Failed to submit reference');
-            }
+            const submitData = await api.publicConversation.submit(token);
+            console.log('✅ Reference submitted successfully:', submitData);
+            const thankYouMessage: Message = {
+              id: 'complete',
+              text: 'Thank you for completing this reference! Your responses have been submitted.',
+              from: 'system',
+              timestamp: new Date().toISOString()
+            };
+            setMessages(prev => [...prev, thankYouMessage]);
+            setIsComplete(true);
           } catch (submitError: any) {
-            console.error('❌ Submission error:', submitError);
+            console.error('❌ Submission failed:', submitError);
             const errorMessage: Message = {
               id: 'error',
-              text: 'Network error during submission. Please check your connection and try refreshing the page.',
+              text: isNetworkError(submitError)
+                ? 'Network error during submission. Please check your connection and try refreshing the page.'
+                : `Failed to submit: ${submitError.message}. Please contact support with this error.`,
               from: 'system',
               timestamp: new Date().toISOString()
             };
@@ -0,0 +1,212 @@
+/**
+ * RefereeNomination Component
+ * Candidate-facing form for nominating referees after signing the authorization
+ */
+
+import React, { useState } from 'react';
+import { NewReferee, RefereeNominationSettings } from './api';
+import { validateReferee } from './validation';
+import { MAX_NOMINATED_REFEREES, RELATIONSHIP_TYPES, missingRelationships, validateNominations } from './nominations';
+import { PhoneInput } from './PhoneInput';
+
+interface RefereeNominationProps {
+  settings: RefereeNominationSettings;
+  submitting: boolean;
+  onSubmit: (referees: NewReferee[]) => void;
+}
+
+/** A referee being entered, with a stable id so errors and inputs follow the card when another is removed */
+type NomineeCard = NewReferee & { cardId: number };
+
+let nextCardId = 1;
+
+const emptyReferee = (): NomineeCard => ({
+  cardId: nextCardId++,
+  first_name: '',
+  last_name: '',
+  email: '',
+  phone_number: '',
+  relationship: '',
+  company: '',
+});
+
+export const RefereeNomination: React.FC<RefereeNominationProps> = ({ settings, submitting, onSubmit }) => {
+  const [referees, setReferees] = useState<NomineeCard[]>(() =>
+    Array.from({ length: Math.min(Math.max(settings.min_referees, 1), MAX_NOMINATED_REFEREES) }, emptyReferee)
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const updateReferee = (cardId: number, field: keyof NewReferee, value: string) => {
+    setReferees(prev => prev.map(referee => (referee.cardId === cardId ? { ...referee, [field]: value } : referee)));
+    const errorKey = `${cardId}_${field}`;
+    if (errors[errorKey]) {
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[errorKey];
+        return next;
+      });
+    }
+  };
+
+  const removeReferee = (cardId: number) => {
+    setReferees(prev => prev.filter(referee => referee.cardId !== cardId));
+    setErrors(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => !key.startsWith(`${cardId}_`))
+    ));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    referees.forEach(referee => {
+      Object.entries(validateReferee(referee)).forEach(([field, message]) => {
+        newErrors[`${referee.cardId}_${field}`] = message;
+      });
+    });
+    const newProblems = validateNominations(settings, referees);
+
+    setErrors(newErrors);
+    setProblems(newProblems);
+    if (Object.keys(newErrors).length > 0 || newProblems.length > 0) return;
+
+    onSubmit(referees.map(({ cardId, ...referee }) => referee));
+  };
+
+  const stillNeeded = missingRelationships(settings, referees);
+
+  const renderField = (cardId: number, field: keyof NewReferee, label: string, input: React.ReactNode, required = true) => (
+    <div className="form-group">
+      <label htmlFor={`nominee_${field}_${cardId}`}>
+        {label} {required && <span className="required">*</span>}
+      </label>
+      {input}
+      {errors[`${cardId}_${field}`] && <span className="error-message">{errors[`${cardId}_${field}`]}</span>}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="referee-nomination">
+      <h2>Nominate Your Referees</h2>
+      <p className="help-text">
+        Please give us {settings.min_referees > 1 ? `at least ${settings.min_referees} people` : 'someone'} who can
+        speak to your work. We'll only contact them once the hiring team has reviewed your list.
+      </p>
+
+      {settings.required_relationships.length > 0 && (
+        <div className="nomination-requirements">
+          <strong>Please include:</strong>
+          <ul>
+            {settings.required_relationships.map(type => (
+              <li key={type} className={stillNeeded.includes(type) ? '' : 'met'}>
+                {stillNeeded.includes(type) ? '○' : '✓'} {type}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <datalist id="nominee-relationships">
+        {RELATIONSHIP_TYPES.map(type => <option key={type} value={type} />)}
+      </datalist>
+
+      {referees.map((referee, index) => (
+        <div key={referee.cardId} className="referee-card">
+          <div className="referee-header">
+            <h3>Referee {index + 1}</h3>
+            {referees.length > Math.max(settings.min_referees, 1) && (
+              <button
+                type="button"
+                onClick={() => removeReferee(referee.cardId)}
+                className="btn-remove"
+                aria-label="Remove referee"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+
+          <div className="form-row">
+            {renderField(referee.cardId, 'first_name', 'First Name', (
+              <input
+                id={`nominee_first_name_${referee.cardId}`}
+                value={referee.first_name}
+                onChange={(e) => updateReferee(referee.cardId, 'first_name', e.target.value)}
+                className={errors[`${referee.cardId}_first_name`] ? 'error' : ''}
+              />
+            ))}
+            {renderField(referee.cardId, 'last_name', 'Last Name', (
+              <input
+                id={`nominee_last_name_${referee.cardId}`}
+                value={referee.last_name}
+                onChange={(e) => updateReferee(referee.cardId, 'last_name', e.target.value)}
+                className={errors[`${referee.cardId}_last_name`] ? 'error' : ''}
+              />
+            ))}
+          </div>
+
+          <div className="form-row">
+            {renderField(referee.cardId, 'email', 'Email', (
+              <input
+                type="email"
+                id={`nominee_email_${referee.cardId}`}
+                value={referee.email}
+                onChange={(e) => updateReferee(referee.cardId, 'email', e.target.value)}
+                className={errors[`${referee.cardId}_email`] ? 'error' : ''}
+              />
+            ))}
+            {renderField(referee.cardId, 'phone_number', 'Mobile', (
+              <PhoneInput
+                id={`nominee_phone_number_${referee.cardId}`}
+                value={referee.phone_number}
+                onChange={(value) => updateReferee(referee.cardId, 'phone_number', value)}
+                className={errors[`${referee.cardId}_phone_number`] ? 'error' : ''}
+              />
+            ), false)}
+          </div>
+
+          <div className="form-row">
+            {renderField(referee.cardId, 'relationship', 'How do you know them?', (
+              <input
+                id={`nominee_relationship_${referee.cardId}`}
+                list="nominee-relationships"
+                value={referee.relationship}
+                onChange={(e) => updateReferee(referee.cardId, 'relationship', e.target.value)}
+                placeholder="e.g. Direct Manager"
+                className={errors[`${referee.cardId}_relationship`] ? 'error' : ''}
+              />
+            ))}
+            {renderField(referee.cardId, 'company', 'Where you worked together', (
+              <input
+                id={`nominee_company_${referee.cardId}`}
+                value={referee.company}
+                onChange={(e) => updateReferee(referee.cardId, 'company', e.target.value)}
+              />
+            ), false)}
+          </div>
+        </div>
+      ))}
+
+      {referees.length < MAX_NOMINATED_REFEREES && (
+        <button type="button" onClick={() => setReferees(prev => [...prev, emptyReferee()])} className="btn-secondary">
+          + Add Another Referee
+        </button>
+      )}
+
+      {problems.length > 0 && (
+        <div className="alert alert-error">
+          {problems.map(problem => <div key={problem}>{problem}</div>)}
+        </div>
+      )}
+
+      <div className="form-actions">
+        <button type="submit" disabled={submitting} className="btn-primary">
+          {submitting ? 'Submitting...' : `Submit ${referees.length} Referee${referees.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RefereeNomination;
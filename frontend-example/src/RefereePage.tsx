@@ -6,6 +6,7 @@
 import React, { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { ConversationalReferenceCheck } from './ConversationalReferenceCheck';
+import { API_URL } from './config';
 
 interface RefereePageProps {
   apiUrl?: string;
@@ -15,9 +16,7 @@ const RefereePage: React.FC<RefereePageProps> = ({ apiUrl }) => {
   const { token } = useParams<{ token: string }>();
   const [error, setError] = useState<string>('');
   
-  const API_URL = apiUrl || (process.env.NODE_ENV === 'production'
-    ? 'https://api-ref.getbrindleai.com/api'
-    : 'http://localhost:5001/api');
+  const resolvedApiUrl = apiUrl || API_URL;
 
   useEffect(() => {
     if (!token) {
@@ -70,7 +69,7 @@ const RefereePage: React.FC<RefereePageProps> = ({ apiUrl }) => {
   return (
     <ConversationalReferenceCheck
       token={token}
-      apiUrl={API_URL}
+      apiUrl={resolvedApiUrl}
     />
   );
 };
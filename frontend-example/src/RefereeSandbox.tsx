@@ -0,0 +1,71 @@
+/**
+ * RefereeSandbox Component
+ * Runs a template through the referee's consent, chat and review screens
+ * with sample candidate details, so hiring managers can try the check
+ * before sending it. Answers stay in the browser and are thrown away on exit.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ApiClientContext, Template, useApi } from './api';
+import { useAuth } from './AuthContext';
+import { ConversationalReferenceCheck } from './ConversationalReferenceCheck';
+import { RELATIONSHIP_TYPES } from './nominations';
+import { SAMPLE_CANDIDATE, SANDBOX_TOKEN, createSandboxClient } from './sandboxSession';
+
+interface RefereeSandboxProps {
+  apiUrl: string;
+  template: Template;
+  onClose: () => void;
+}
+
+export const RefereeSandbox: React.FC<RefereeSandboxProps> = ({ apiUrl, template, onClose }) => {
+  const { user, organization } = useAuth();
+  const api = useApi(apiUrl);
+  const [relationship, setRelationship] = useState(RELATIONSHIP_TYPES[0]);
+  // Bumped to start over with a fresh session
+  const [run, setRun] = useState(0);
+
+  const client = useMemo(
+    () => createSandboxClient(api, template, {
+      ...SAMPLE_CANDIDATE,
+      refereeName: user?.full_name || 'Sample Referee',
+      relationship,
+      company: organization?.name || 'Your Company',
+    }),
+    [api, template, relationship, user, organization, run]
+  );
+
+  return (
+    <div className="referee-sandbox">
+      <div className="referee-sandbox-bar">
+        <div className="referee-sandbox-title">
+          <strong>Preview as referee: {template.name}</strong>
+          <span className="help-text">
+            Sample candidate {SAMPLE_CANDIDATE.candidateName}. Nothing you enter is saved or sent.
+          </span>
+        </div>
+        <label htmlFor="sandbox_relationship">Relationship</label>
+        <select
+          id="sandbox_relationship"
+          value={relationship}
+          onChange={(e) => setRelationship(e.target.value)}
+          title="Changing this starts the preview again"
+        >
+          {RELATIONSHIP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <button type="button" onClick={() => setRun(prev => prev + 1)} className="btn-secondary">
+          ↺ Start Over
+        </button>
+        <button type="button" onClick={onClose} className="btn-primary">
+          Exit Preview
+        </button>
+      </div>
+
+      <ApiClientContext.Provider value={client}>
+        <ConversationalReferenceCheck key={`${relationship}_${run}`} token={SANDBOX_TOKEN} apiUrl={apiUrl} />
+      </ApiClientContext.Provider>
+    </div>
+  );
+};
+
+export default RefereeSandbox;
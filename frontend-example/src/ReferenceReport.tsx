@@ -3,40 +3,16 @@
  * Clean, printable reference report for completed references
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { EditResponseModal } from './EditResponseModal';
+import { useApi, ReferenceReportData as ReferenceData, SubmittedAnswer } from './api';
+import { formatPhone } from './phone';
+import { formatAnswer } from './questionTypes';
+import { API_URL } from './config';
 
-interface ReferenceData {
-  candidate: {
-    first_name: string;
-    last_name: string;
-    email: string;
-    phone_number: string | null;
-    position_applied_for: string;
-  };
-  referee: {
-    first_name: string;
-    last_name: string;
-    email: string;
-    phone_number: string | null;
-    relationship: string;
-    company: string | null;
-  };
-  submission: {
-    id: string;
-    submitted_at: string;
-    answers: Record<string, any>;
-    version?: number;
-    is_original?: boolean;
-    edited_at?: string | null;
-    edited_by?: string | null;
-    edit_notes?: string | null;
-  };
-  template: {
-    name: string;
-    questions: any[];
-  };
-}
+/** Follow-up answers are edited as one text, original answer first */
+const editableAnswer = (answer: SubmittedAnswer): string =>
+  typeof answer === 'string' ? answer : `${answer.original_answer}\n\n${answer.follow_up_answer}`;
 
 interface ReferenceReportProps {
   requestId: string;
@@ -49,7 +25,7 @@ interface ReferenceReportProps {
 export const ReferenceReport: React.FC<ReferenceReportProps> = ({
   requestId,
   refereeId,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
   userId = 'user-test-1',
   onClose,
 }) => {
@@ -57,6 +33,7 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [showEditModal, setShowEditModal] = useState(false);
+  const api = useApi(apiUrl);
 
   useEffect(() => {
     fetchReferenceData();
@@ -68,13 +45,7 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
 
     try {
       // TODO: Create backend endpoint to fetch completed reference
-      const response = await fetch(`${apiUrl}/requests/${requestId}/referees/${refereeId}/report`);
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to fetch reference data');
-      }
-
+      const result = await api.reports.reference(requestId, refereeId);
       setData(result.data);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
@@ -120,6 +91,11 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
     });
   };
 
+  // Memoised: the modal resets its edits whenever this object changes
+  const editableAnswers = useMemo(() => Object.fromEntries(
+    Object.entries(data?.submission.answers || {}).map(([questionId, answer]) => [questionId, editableAnswer(answer)])
+  ), [data]);
+
   if (loading) {
     return (
       <div className="reference-report-modal">
@@ -217,7 +193,7 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
               {data.candidate.phone_number && (
                 <div className="info-item">
                   <span className="info-label">Phone:</span>
-                  <span className="info-value">{data.candidate.phone_number}</span>
+                  <span className="info-value">{formatPhone(data.candidate.phone_number)}</span>
                 </div>
               )}
             </div>
@@ -250,13 +226,19 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
               {data.referee.phone_number && (
                 <div className="info-item">
                   <span className="info-label">Phone:</span>
-                  <span className="info-value">{data.referee.phone_number}</span>
+                  <span className="info-value">{formatPhone(data.referee.phone_number)}</span>
                 </div>
               )}
               <div className="info-item">
                 <span className="info-label">Submitted:</span>
                 <span className="info-value">{formatDate(data.submission.submitted_at)}</span>
               </div>
+              <div className="info-item">
+                <span className="info-label">Template:</span>
+                <span className="info-value">
+                  {data.template.name}{data.template.version ? ` (version ${data.template.version})` : ''}
+                </span>
+              </div>
             </div>
           </div>
 
@@ -302,7 +284,7 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
                       </div>
                     ) : (
                       <div className="answer-text">
-                        {typeof answer === 'object' ? JSON.stringify(answer, null, 2) : answer}
+                        {formatAnswer(answer, question)}
                       </div>
                     )}
                   </div>
@@ -332,9 +314,10 @@ export const ReferenceReport: React.FC<ReferenceReportProps> = ({
           onClose={() => setShowEditModal(false)}
           responseId={data.submission.id}
           questions={data.template.questions}
-          currentAnswers={data.submission.answers}
+          currentAnswers={editableAnswers}
           apiUrl={apiUrl}
           userId={userId}
+          relationship={data.referee.relationship}
           onSaveSuccess={() => {
             // Refresh the report to show the new version
             fetchReferenceData();
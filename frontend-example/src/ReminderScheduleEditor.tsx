@@ -0,0 +1,117 @@
+/**
+ * ReminderScheduleEditor Component
+ * Edit an automatic reminder cadence: days after the first invitation
+ * plus an optional final reminder before the link expires
+ */
+
+import React from 'react';
+import { ReminderSchedule } from './api';
+import { describeReminderSchedule, validateReminderSchedule } from './reminders';
+
+interface ReminderScheduleEditorProps {
+  schedule: ReminderSchedule;
+  linkExpiryDays: number;
+  onChange: (schedule: ReminderSchedule) => void;
+  disabled?: boolean;
+}
+
+export const ReminderScheduleEditor: React.FC<ReminderScheduleEditorProps> = ({
+  schedule,
+  linkExpiryDays,
+  onChange,
+  disabled = false,
+}) => {
+  const validationError = validateReminderSchedule(schedule, linkExpiryDays);
+
+  const updateDay = (index: number, value: string) => {
+    const days = [...schedule.days_after_invite];
+    days[index] = parseInt(value, 10) || 0;
+    onChange({ ...schedule, days_after_invite: days });
+  };
+
+  const removeDay = (index: number) => {
+    onChange({ ...schedule, days_after_invite: schedule.days_after_invite.filter((_, i) => i !== index) });
+  };
+
+  const addDay = () => {
+    const last = Math.max(0, ...schedule.days_after_invite);
+    onChange({ ...schedule, days_after_invite: [...schedule.days_after_invite, last + 1] });
+  };
+
+  return (
+    <div className="reminder-schedule-editor">
+      <label className="reminder-toggle">
+        <input
+          type="checkbox"
+          checked={schedule.enabled}
+          onChange={(e) => onChange({ ...schedule, enabled: e.target.checked })}
+          disabled={disabled}
+        />
+        Send automatic reminders to referees who haven't responded
+      </label>
+
+      {schedule.enabled && (
+        <>
+          <div className="reminder-days">
+            {schedule.days_after_invite.map((day, index) => (
+              <div key={index} className="reminder-day">
+                <span>Day</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={linkExpiryDays - 1}
+                  value={day || ''}
+                  onChange={(e) => updateDay(index, e.target.value)}
+                  disabled={disabled}
+                  aria-label={`Reminder ${index + 1} day after invitation`}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeDay(index)}
+                  className="btn-link"
+                  disabled={disabled}
+                  aria-label={`Remove reminder ${index + 1}`}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button type="button" onClick={addDay} className="btn-link" disabled={disabled}>
+              + Add reminder
+            </button>
+          </div>
+
+          <label className="reminder-toggle">
+            <input
+              type="checkbox"
+              checked={schedule.final_days_before_expiry !== null}
+              onChange={(e) => onChange({ ...schedule, final_days_before_expiry: e.target.checked ? 1 : null })}
+              disabled={disabled}
+            />
+            Final reminder
+            {schedule.final_days_before_expiry !== null && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  max={linkExpiryDays - 1}
+                  value={schedule.final_days_before_expiry}
+                  onChange={(e) => onChange({ ...schedule, final_days_before_expiry: parseInt(e.target.value, 10) || 0 })}
+                  disabled={disabled}
+                  aria-label="Days before link expiry"
+                />
+                day(s) before the link expires
+              </>
+            )}
+          </label>
+        </>
+      )}
+
+      <p className={validationError ? 'reminder-summary reminder-summary-error' : 'reminder-summary'}>
+        {validationError || `${describeReminderSchedule(schedule, linkExpiryDays)}. Links expire after ${linkExpiryDays} days.`}
+      </p>
+    </div>
+  );
+};
+
+export default ReminderScheduleEditor;
@@ -0,0 +1,152 @@
+/**
+ * RequestFilterPanel Component
+ * Advanced, combinable filters for the request list
+ */
+
+import React from 'react';
+import { OrganizationMember } from './api';
+import {
+  AUTHORIZATION_FILTER_OPTIONS,
+  DEFAULT_REQUEST_FILTERS,
+  REFEREE_STATUS_FILTER_OPTIONS,
+  RequestFilters,
+  orderDateRanges,
+} from './requestFilters';
+
+interface RequestFilterPanelProps {
+  filters: RequestFilters;
+  members: OrganizationMember[];
+  onChange: (filters: RequestFilters) => void;
+}
+
+export const RequestFilterPanel: React.FC<RequestFilterPanelProps> = ({ filters, members, onChange }) => {
+  // Typed dates can ignore the inputs' min/max, so an inverted range is swapped before it reaches the URL
+  const update = (changes: Partial<RequestFilters>) => onChange(orderDateRanges({ ...filters, ...changes }));
+
+  const clearAdvanced = () => onChange({
+    ...DEFAULT_REQUEST_FILTERS,
+    status: filters.status,
+    search: filters.search,
+  });
+
+  return (
+    <div className="request-filter-panel">
+      <div className="filter-grid">
+        <div className="form-group">
+          <label htmlFor="filter-authorization">Authorization</label>
+          <select
+            id="filter-authorization"
+            value={filters.authorization}
+            onChange={(e) => update({ authorization: e.target.value })}
+          >
+            <option value="">Any</option>
+            {AUTHORIZATION_FILTER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="filter-referee-status">Has a referee who is</label>
+          <select
+            id="filter-referee-status"
+            value={filters.refereeStatus}
+            onChange={(e) => update({ refereeStatus: e.target.value })}
+          >
+            <option value="">Any</option>
+            {REFEREE_STATUS_FILTER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="filter-position">Position</label>
+          <input
+            id="filter-position"
+            type="text"
+            value={filters.position}
+            onChange={(e) => update({ position: e.target.value })}
+            placeholder="e.g. Nurse"
+          />
+        </div>
+
+        {members.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="filter-owner">Owner</label>
+            <select
+              id="filter-owner"
+              value={filters.ownerId}
+              onChange={(e) => update({ ownerId: e.target.value })}
+            >
+              <option value="">Anyone</option>
+              {members.map(member => (
+                <option key={member.id} value={member.id}>{member.full_name || member.email}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="filter-created-from">Created</label>
+          <div className="filter-date-range">
+            <input
+              id="filter-created-from"
+              type="date"
+              value={filters.createdFrom}
+              max={filters.createdTo || undefined}
+              onChange={(e) => update({ createdFrom: e.target.value })}
+              aria-label="Created from"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={filters.createdTo}
+              min={filters.createdFrom || undefined}
+              onChange={(e) => update({ createdTo: e.target.value })}
+              aria-label="Created to"
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="filter-start-from">Start date</label>
+          <div className="filter-date-range">
+            <input
+              id="filter-start-from"
+              type="date"
+              value={filters.startFrom}
+              max={filters.startTo || undefined}
+              onChange={(e) => update({ startFrom: e.target.value })}
+              aria-label="Start date from"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={filters.startTo}
+              min={filters.startFrom || undefined}
+              onChange={(e) => update({ startTo: e.target.value })}
+              aria-label="Start date to"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="filter-panel-footer">
+        <label className="filter-checkbox">
+          <input
+            type="checkbox"
+            checked={filters.overdue}
+            onChange={(e) => update({ overdue: e.target.checked })}
+          />
+          Overdue for a reminder
+        </label>
+        <button type="button" onClick={clearAdvanced} className="btn-link">
+          Clear filters
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RequestFilterPanel;
@@ -6,45 +6,35 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { ReferenceReport } from './ReferenceReport';
 import { ConversationalReferenceCheck } from './ConversationalReferenceCheck';
-
-interface Referee {
-  id: string;
-  first_name: string;
-  last_name: string;
-  email: string;
-  phone?: string | null;
-  relationship: string;
-  company?: string | null;
-  status: string;
-  has_completed: boolean;
-  submitted_at: string | null;
-  last_contacted_at: string | null;
-  initial_sent_at: string | null;
-  consent_signature?: string | null;
-  consent_signed_at?: string | null;
-  consent_agreed?: boolean;
-}
-
-interface RequestWithReferees {
-  id: string;
-  candidate_first_name: string;
-  candidate_last_name: string;
-  position_applied_for: string;
-  candidate_email: string;
-  candidate_phone_number: string | null;
-  status: string;
-  created_at: string;
-  authorization_status?: string;
-  authorization_method?: string;
-  authorization_completed_at?: string;
-  authorization_sent_at?: string;
-  referees: Referee[];
-  summary: {
-    total_referees: number;
-    completed: number;
-    pending: number;
-  };
-}
+import { useAuth, useCurrentUser } from './AuthContext';
+import { useConfirm, useToast } from './FeedbackContext';
+import { useApi, ApiError, ContactChannel, DeliveryChannel, errorDetail, OrganizationMember, Pagination, Referee, RequestEvent, RequestListQuery, RequestSortColumn, RequestWithReferees } from './api';
+import { LiveConnectionState } from './liveUpdates';
+import { useRequestEvents } from './LiveUpdatesContext';
+import { formatNextReminder } from './reminders';
+import { CHANNEL_LABELS, DELIVERY_CHANNEL_ICONS, canSendSms, describeChannelTarget } from './channels';
+import { BulkActionBar, BulkFailure, BulkItem, BulkJob, BulkProgressModal, useBulkJob } from './BulkActions';
+import { downloadBlob, downloadCsv } from './csv';
+import { toXlsx } from './xlsx';
+import { validateCandidate, validateReferee } from './validation';
+import { EmailHint } from './EmailHint';
+import { PhoneInput } from './PhoneInput';
+import { formatPhone, normalizePhone } from './phone';
+import { ExportFormat, buildExportTable } from './pipelineExport';
+import { ExportScope, PipelineExportDialog } from './PipelineExportDialog';
+import { canPurgeRequests, formatPurgeCountdown, getPurgeDate } from './archive';
+import { isNominationPending } from './nominations';
+import {
+  DEFAULT_REQUEST_FILTERS,
+  RequestFilters,
+  countAdvancedFilters,
+  filtersToListQuery,
+  filtersToSearchParams,
+  isDefaultFilters,
+} from './requestFilters';
+import { RequestFilterPanel } from './RequestFilterPanel';
+import { SavedViews } from './SavedViews';
+import { API_URL } from './config';
 
 interface CandidateEditData {
   id: string;
@@ -59,253 +49,410 @@ interface CandidateEditData {
   authorization_signature?: string;
 }
 
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+const SEARCH_DEBOUNCE_MS = 300;
+const HIGHLIGHT_MS = 4000;
+// Page size used when exporting every matching request
+const EXPORT_PAGE_SIZE = 100;
+
+const LIVE_STATUS: Record<LiveConnectionState, { label: string; title: string }> = {
+  connecting: { label: 'Connecting', title: 'Connecting to live updates...' },
+  live: { label: 'Live', title: 'Receiving live updates' },
+  polling: { label: 'Auto-refresh', title: 'Checking for updates every 15 seconds' },
+  offline: { label: 'Offline', title: 'Live updates unavailable - use Refresh' },
+};
+
+const REFEREE_EVENT_STATUS: Record<string, string> = {
+  'referee.started': 'started',
+  'referee.completed': 'completed',
+  'referee.declined': 'declined',
+  'referee.bounced': 'bounced',
+};
+
+// Apply a pushed lifecycle event to one request row
+const applyRequestEvent = (req: RequestWithReferees, event: RequestEvent): RequestWithReferees => {
+  if (event.type === 'candidate.authorized') {
+    return {
+      ...req,
+      authorization_status: 'authorized',
+      authorization_method: event.data?.authorization_method || 'online',
+      authorization_completed_at: event.occurred_at,
+    };
+  }
+
+  const status = REFEREE_EVENT_STATUS[event.type];
+  if (!status || !event.referee_id) return req;
+
+  const referees = req.referees.map(ref =>
+    ref.id === event.referee_id
+      ? {
+          ...ref,
+          status,
+          has_completed: ref.has_completed || status === 'completed',
+          submitted_at: status === 'completed' ? event.occurred_at : ref.submitted_at,
+        }
+      : ref
+  );
+  const completed = referees.filter(ref => ref.has_completed).length;
+
+  return {
+    ...req,
+    referees,
+    summary: {
+      ...req.summary,
+      completed,
+      pending: referees.length - completed,
+    },
+  };
+};
+
+const candidateName = (req: RequestWithReferees) =>
+  `${req.candidate_first_name} ${req.candidate_last_name}`;
+
+const isCandidateAuthorized = (req: RequestWithReferees) =>
+  req.authorization_status === 'authorized' || req.authorization_status === 'verbal';
+
+// Invited referees who still owe a response
+const isAwaitingReferee = (referee: Referee) =>
+  !!referee.initial_sent_at && !referee.has_completed && referee.status !== 'completed' && referee.status !== 'declined';
+
 interface RequestListProps {
-  userId: string;
   apiUrl?: string;
+  /** Bring a candidate's rows into view, e.g. when opened from a notification */
+  focusRequest?: { requestId: string; candidateName: string } | null;
   onSelectRequest?: (requestId: string) => void;
+  /** Open the candidate detail page; without it the candidate name opens the edit modal */
+  onOpenCandidate?: (requestId: string) => void;
+  /** Controlled filters, e.g. kept in the URL; without them the list manages its own */
+  filters?: RequestFilters;
+  onFiltersChange?: (filters: RequestFilters) => void;
 }
 
 export const RequestList: React.FC<RequestListProps> = ({
-  userId,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
+  focusRequest,
   onSelectRequest,
+  onOpenCandidate,
+  filters: filtersProp,
+  onFiltersChange,
 }) => {
+  const { id: userId } = useCurrentUser();
+  const { user, organization } = useAuth();
+  const canPurge = canPurgeRequests(user);
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const confirm = useConfirm();
   const [requestsWithReferees, setRequestsWithReferees] = useState<RequestWithReferees[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [localFilters, setLocalFilters] = useState<RequestFilters>(DEFAULT_REQUEST_FILTERS);
+  const filters = filtersProp ?? localFilters;
+  const setFilters = onFiltersChange ?? setLocalFilters;
+  // Stable key for effects; controlled filters are a new object on every render
+  const filtersKey = filtersToSearchParams(filters).toString();
+  const [showFilterPanel, setShowFilterPanel] = useState(() => countAdvancedFilters(filters) > 0);
   const [openRefereeMenuId, setOpenRefereeMenuId] = useState<string | null>(null);
   const [menuPositions, setMenuPositions] = useState<Record<string, 'up' | 'down'>>({});
   const menuButtonRefs = useRef<Record<string, HTMLElement | null>>({});
   const menuContentRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const [showingReport, setShowingReport] = useState<{ requestId: string; refereeId: string } | null>(null);
   const [showingConversation, setShowingConversation] = useState<{ token: string } | null>(null);
-  const [sortColumn, setSortColumn] = useState<string>('start_date');
+  const [sortColumn, setSortColumn] = useState<RequestSortColumn>('start_date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc'); // newest first
   const [lastRefreshed, setLastRefreshed] = useState<Date | null>(null);
-  const [searchTerm, setSearchTerm] = useState<string>('');
+  const [searchTerm, setSearchTerm] = useState<string>(filters.search);
+  // Last search pushed from the input, so echoes of our own updates don't overwrite typing
+  const committedSearch = useRef(filters.search);
+  // The page belongs to the filters it was chosen for, so a filter change reads as page 1 in the same render
+  // and the list is fetched once rather than again after a separate reset
+  const [pageState, setPageState] = useState({ filtersKey, page: 1 });
+  const page = pageState.filtersKey === filtersKey ? pageState.page : 1;
+  const setPage = (nextPage: number) => setPageState({ filtersKey, page: nextPage });
+  const [pageSize, setPageSize] = useState(PAGE_SIZE_OPTIONS[0]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const latestFetchId = useRef(0);
+  const [highlightedRows, setHighlightedRows] = useState<Set<string>>(new Set());
+  const highlightTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const bulk = useBulkJob();
+  const [exportScope, setExportScope] = useState<ExportScope | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const highlightRow = (rowId: string) => {
+    setHighlightedRows(prev => new Set(prev).add(rowId));
+    const timer = setTimeout(() => {
+      setHighlightedRows(prev => {
+        const next = new Set(prev);
+        next.delete(rowId);
+        return next;
+      });
+    }, HIGHLIGHT_MS);
+    highlightTimers.current.push(timer);
+  };
+
+  const liveConnection = useRequestEvents((event) => {
+    if (event.type === 'candidate.nominated_referees') {
+      // New referee rows; the event doesn't carry them, so reload in the background
+      fetchRequestsWithDetails(false);
+    }
+    setRequestsWithReferees(prev => prev.map(req =>
+      req.id === event.request_id ? applyRequestEvent(req, event) : req
+    ));
+    highlightRow(event.referee_id || event.request_id);
+    setLastRefreshed(new Date());
+  });
+
+  useEffect(() => {
+    return () => highlightTimers.current.forEach(clearTimeout);
+  }, []);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    committedSearch.current = focusRequest.candidateName;
+    setSearchTerm(focusRequest.candidateName);
+    setFilters({ ...DEFAULT_REQUEST_FILTERS, search: focusRequest.candidateName });
+    highlightRow(focusRequest.requestId);
+  }, [focusRequest]);
+
+  const isRowHighlighted = (req: RequestWithReferees, refereeId?: string) =>
+    highlightedRows.has(req.id) || (refereeId !== undefined && highlightedRows.has(refereeId));
   const [editingReferee, setEditingReferee] = useState<Referee | null>(null);
   const [savingReferee, setSavingReferee] = useState(false);
+  // Set when the referee modal was opened from a bounced badge; saving also resends the invitation
+  const [bounceFix, setBounceFix] = useState<{ requestId: string; bouncedEmail: string } | null>(null);
   const [editingCandidate, setEditingCandidate] = useState<CandidateEditData | null>(null);
   const [savingCandidate, setSavingCandidate] = useState(false);
   const [sendingAuthForRequest, setSendingAuthForRequest] = useState<string | null>(null);
 
-  const fetchWithRetry = async (url: string, retries = 3, delay = 500): Promise<any> => {
-    for (let i = 0; i < retries; i++) {
-      try {
-        // Add cache busting to ensure fresh data
-        const cacheBuster = `_t=${Date.now()}`;
-        const separator = url.includes('?') ? '&' : '?';
-        const finalUrl = `${url}${separator}${cacheBuster}`;
-        
-        const response = await fetch(finalUrl, {
-          cache: 'no-store',
-          headers: {
-            'Cache-Control': 'no-cache'
-          }
-        });
-        const data = await response.json();
-        if (response.ok) {
-          return data;
-        }
-        // If it's a server error and we have retries left, try again
-        if (response.status >= 500 && i < retries - 1) {
-          await new Promise(resolve => setTimeout(resolve, delay * (i + 1)));
-          continue;
-        }
-        throw new Error(data.error || 'Request failed');
-      } catch (err) {
-        if (i === retries - 1) throw err;
-        await new Promise(resolve => setTimeout(resolve, delay * (i + 1)));
-      }
-    }
-    throw new Error('Max retries reached');
-  };
+  // The list query for the current filters and sort, shared by the table and exports
+  const buildListQuery = (pageNumber: number, size: number): RequestListQuery => ({
+    user_id: userId,
+    ...filtersToListQuery(filters),
+    sort: sortColumn,
+    direction: sortDirection,
+    page: pageNumber,
+    page_size: size,
+    exclude_unsent_drafts: true,
+  });
 
   const fetchRequestsWithDetails = async (showLoader: boolean = true) => {
+    const fetchId = ++latestFetchId.current;
     if (showLoader) {
       setLoading(true);
+    } else {
+      setRefreshing(true);
     }
     setError('');
 
     try {
-      // First, get all requests
-      const params = new URLSearchParams({ user_id: userId });
-      if (statusFilter !== 'all') {
-        params.append('status', statusFilter);
-      }
+      // One call returns the page of requests with referees and summaries embedded.
+      // Search, status and sort are applied server-side.
+      const data = await api.requests.listWithReferees(buildListQuery(page, pageSize));
 
-      const data = await fetchWithRetry(`${apiUrl}/requests?${params}`);
-      let requests = data.requests || [];
-
-      // Filter out draft_candidate requests (where Begin Reference Checking wasn't clicked)
-      // Keep requests that are NOT draft_candidate, OR that have been sent (status='sent')
-      requests = requests.filter((req: any) => {
-        // Keep all non-draft_candidate requests
-        if (req.status !== 'draft_candidate') return true;
-        // Also keep draft_candidate if it has authorization_sent_at (shouldn't happen, but safety check)
-        if (req.authorization_sent_at) return true;
-        // Filter out draft_candidate without authorization_sent_at
-        return false;
-      });
+      // Ignore responses that arrive after a newer query was issued
+      if (fetchId !== latestFetchId.current) return;
 
-      // Fetch details in batches of 2 to avoid overwhelming the connection pool
-      const batchSize = 2;
-      const allDetails = [];
-      
-      for (let i = 0; i < requests.length; i += batchSize) {
-        const batch = requests.slice(i, i + batchSize);
-        const batchPromises = batch.map(async (req: any) => {
-          try {
-            return await fetchWithRetry(`${apiUrl}/requests/${req.id}`);
-          } catch (err) {
-            console.error(`Failed to fetch details for request ${req.id}:`, err);
-            // Return a minimal object so we don't lose the request entirely
-            return {
-              request: req,
-              referees: [],
-              summary: { total_referees: 0, completed: 0, pending: 0 }
-            };
-          }
-        });
-        
-        const batchResults = await Promise.all(batchPromises);
-        allDetails.push(...batchResults);
-        
-        // Small delay between batches to avoid overwhelming the connection pool
-        if (i + batchSize < requests.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-      
-      // Combine request data with referee details
-      const combined = allDetails
-        .filter(detail => detail && detail.request)
-        .map((detail) => ({
-          ...detail.request,
-          referees: detail.referees || [],
-          summary: detail.summary || { total_referees: 0, completed: 0, pending: 0 }
-        }));
-
-      setRequestsWithReferees(combined);
+      setRequestsWithReferees((data.requests || []).map(req => ({
+        ...req,
+        referees: req.referees || [],
+        summary: req.summary || { total_referees: 0, completed: 0, pending: 0 }
+      })));
+      setPagination(data.pagination || null);
       setLastRefreshed(new Date());
+      // Selection only covers rows that are still on screen
+      const visibleIds = new Set((data.requests || []).map(req => req.id));
+      setSelectedIds(prev => new Set([...prev].filter(id => visibleIds.has(id))));
     } catch (err) {
+      if (fetchId !== latestFetchId.current) return;
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       setError(errorMessage);
     } finally {
-      setLoading(false);
+      if (fetchId === latestFetchId.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
-  const handleDeleteRequest = async (requestId: string, candidateName: string) => {
-    if (!confirm(`⚠️ DELETE CANDIDATE?\n\nAre you sure you want to delete ${candidateName} and all their referees?\n\nThis action cannot be undone.`)) {
-      return;
+  // Archiving is recoverable, so it happens straight away with an Undo rather than a confirm
+  const handleArchiveRequest = async (requestId: string, candidateName: string) => {
+    try {
+      await api.requests.archive(requestId);
+      setRequestsWithReferees(prev => prev.filter(req => req.id !== requestId));
+
+      toast.success(`Archived ${candidateName}. You can restore them from the Archived filter.`, {
+        action: {
+          label: 'Undo',
+          onClick: () => handleRestoreRequest(requestId, candidateName),
+        },
+      });
+      fetchRequestsWithDetails(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: `Could not archive ${candidateName}` });
     }
+  };
 
+  const handleRestoreRequest = async (requestId: string, candidateName: string) => {
     try {
-      const response = await fetch(`${apiUrl}/requests/${requestId}`, {
-        method: 'DELETE',
-      });
+      await api.requests.restore(requestId);
+      toast.success(`Restored ${candidateName}`);
+      highlightRow(requestId);
+      fetchRequestsWithDetails(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: `Could not restore ${candidateName}` });
+    }
+  };
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete request');
-      }
+  const handlePurgeRequest = async (request: RequestWithReferees) => {
+    const purgeDate = getPurgeDate(request);
+    const confirmed = await confirm({
+      title: 'Permanently delete candidate?',
+      message: `${candidateName(request)} and all their referees and reports will be permanently deleted. This cannot be undone.${
+        purgeDate ? `\n\nIt would otherwise be kept until ${purgeDate.toLocaleDateString('en-NZ', { timeZone: 'Pacific/Auckland' })}.` : ''
+      }`,
+      confirmText: 'Delete Permanently',
+      destructive: true,
+    });
+    if (!confirmed) return;
 
-      // Refresh the list
+    try {
+      await api.requests.purge(request.id);
+      setRequestsWithReferees(prev => prev.filter(req => req.id !== request.id));
+      toast.success(`Permanently deleted ${candidateName(request)}`);
+      fetchRequestsWithDetails(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: `Could not delete ${candidateName(request)}` });
+    }
+  };
+
+  const handleSendReminder = async (requestId: string, referee: Referee, channel: ContactChannel = 'email') => {
+    const refereeName = `${referee.first_name} ${referee.last_name}`;
+    const confirmed = await confirm({
+      title: 'Send reminder?',
+      message: `Send a reminder to ${refereeName} ${describeChannelTarget(referee, channel)}?`,
+      confirmText: `Send ${CHANNEL_LABELS[channel]} Reminder`,
+    });
+    if (!confirmed) return;
+
+    try {
+      await api.referees.remind(requestId, referee.id, channel);
+
+      // Refresh the list to show updated last_contacted_at and delivery status
       await fetchRequestsWithDetails();
       
-      alert(`✅ Deleted ${candidateName} and all associated referees`);
+      toast.success(`${CHANNEL_LABELS[channel]} reminder sent to ${refereeName}`);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Reminder not sent' });
     }
   };
 
-  const handleSendReminder = async (requestId: string, refereeId: string, refereeName: string) => {
-    if (!confirm(`📧 SEND REMINDER?\n\nSend a reminder email to ${refereeName}?`)) {
-      return;
-    }
+  const handleApproveNomination = async (request: RequestWithReferees, referee: Referee) => {
+    const refereeName = `${referee.first_name} ${referee.last_name}`;
+    const confirmed = await confirm({
+      title: 'Approve referee?',
+      message: `${candidateName(request)} nominated ${refereeName} (${referee.relationship}, ${referee.email}).\n\nApproving sends their reference invitation.`,
+      confirmText: 'Approve & Invite',
+    });
+    if (!confirmed) return;
 
     try {
-      const response = await fetch(`${apiUrl}/requests/${requestId}/referees/${refereeId}/remind`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          channel: 'email'
-        })
-      });
+      await api.referees.approveNomination(request.id, referee.id);
+      toast.success(`${refereeName} approved and invited`);
+      fetchRequestsWithDetails(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: `Could not approve ${refereeName}` });
+    }
+  };
 
-      const data = await response.json();
+  const handleRejectNomination = async (request: RequestWithReferees, referee: Referee) => {
+    const refereeName = `${referee.first_name} ${referee.last_name}`;
+    const confirmed = await confirm({
+      title: 'Reject referee?',
+      message: `Remove ${refereeName} from ${candidateName(request)}'s referees? They won't be contacted.`,
+      confirmText: 'Reject',
+      destructive: true,
+    });
+    if (!confirmed) return;
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send reminder');
-      }
+    try {
+      await api.referees.rejectNomination(request.id, referee.id);
+      setRequestsWithReferees(prev => prev.map(req =>
+        req.id === request.id ? { ...req, referees: req.referees.filter(ref => ref.id !== referee.id) } : req
+      ));
+      toast.success(`${refereeName} rejected`);
+      fetchRequestsWithDetails(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: `Could not reject ${refereeName}` });
+    }
+  };
 
-      // Refresh the list to show updated last_contacted_at
-      await fetchRequestsWithDetails();
-      
-      alert(`✅ Reminder sent to ${refereeName}`);
+  const handleToggleReminders = async (requestId: string, referee: Referee) => {
+    const paused = !referee.reminders_paused;
+    const refereeName = `${referee.first_name} ${referee.last_name}`;
+    const setPaused = (value: boolean) => setRequestsWithReferees(prev => prev.map(req =>
+      req.id === requestId
+        ? { ...req, referees: req.referees.map(ref => ref.id === referee.id ? { ...ref, reminders_paused: value } : ref) }
+        : req
+    ));
+
+    // Optimistic UI update, reverted if the server rejects it
+    setPaused(paused);
+    try {
+      await api.referees.setRemindersPaused(requestId, referee.id, paused);
+      toast.success(paused ? `Automatic reminders paused for ${refereeName}` : `Automatic reminders resumed for ${refereeName}`);
+      // Refresh in background to pick up the recalculated next reminder
+      fetchRequestsWithDetails(false);
     } catch (err) {
+      setPaused(!paused);
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage);
     }
   };
 
   const handleCompletePhoneReference = async (requestId: string, refereeId: string, refereeName: string) => {
-    if (!confirm(`📞 COMPLETE PHONE REFERENCE\n\nComplete reference for ${refereeName} via phone?\n\nThis will open the conversational form where you can enter their responses as you speak with them.`)) {
-      return;
-    }
+    const confirmed = await confirm({
+      title: 'Complete phone reference',
+      message: `Complete the reference for ${refereeName} by phone?\n\nThis opens the conversational form so you can enter their responses as you speak with them.`,
+      confirmText: 'Open Form',
+    });
+    if (!confirmed) return;
 
     try {
       // Get token for this specific referee
-      const response = await fetch(`${apiUrl}/requests/${requestId}/referees/${refereeId}/phone-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to get reference token');
-      }
+      const data = await api.referees.phoneToken(requestId, refereeId);
 
       setShowingConversation({ token: data.token });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Could not start phone reference' });
     }
   };
 
   const handleSendAuthorization = async (requestId: string, candidateName: string) => {
     // Prevent duplicate sends
     if (sendingAuthForRequest === requestId) {
-      alert('⏳ Already sending authorization email to this candidate. Please wait...');
+      toast.info('Already sending the authorization email to this candidate. Please wait...');
       return;
     }
 
-    if (!confirm(`📧 SEND AUTHORIZATION REQUEST\n\nSend authorization email to ${candidateName}?\n\nThey will receive an email with a link to sign the authorization form online.\n\n⚠️ Note: Only the most recent email link will work. Previous links will be invalidated.`)) {
-      return;
-    }
+    const confirmed = await confirm({
+      title: 'Send authorization request',
+      message: `Send an authorization email to ${candidateName}?\n\nThey will receive a link to sign the authorization form online. Only the most recent link works; previous links will be invalidated.`,
+      confirmText: 'Send Email',
+    });
+    if (!confirmed) return;
 
     setSendingAuthForRequest(requestId);
     try {
-      const response = await fetch(`${apiUrl}/requests/${requestId}/send-authorization`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send authorization');
-      }
+      await api.requests.sendAuthorization(requestId);
 
       // Optimistic UI update - immediately update local state
       setRequestsWithReferees(prev => prev.map(req => 
@@ -316,39 +463,37 @@ export const RequestList: React.FC<RequestListProps> = ({
 
       // Close menu and show success immediately
       setOpenRefereeMenuId(null);
-      alert(`✅ Authorization request sent to ${candidateName}!\n\nThey will receive an email shortly. Only this latest link will work - any previous authorization links are now invalid.`);
+      toast.success('Only this latest link will work - any previous authorization links are now invalid.', {
+        title: `Authorization request sent to ${candidateName}`,
+      });
       
       // Refresh data in background (no await)
       fetchRequestsWithDetails(false);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Authorization request not sent' });
     } finally {
       setSendingAuthForRequest(null);
     }
   };
 
   const handleMarkVerbalAuthorization = async (requestId: string, candidateName: string) => {
-    if (!confirm(`✅ VERBAL AUTHORIZATION\n\nMark ${candidateName} as VERBALLY authorized?\n\n⚠️ ONLY click YES if you have spoken to the candidate and they have given permission to contact their referees.\n\nThis will allow you to immediately proceed with sending reference requests.`)) {
-      return;
-    }
+    const confirmed = await confirm({
+      title: 'Verbal authorization',
+      message: `Mark ${candidateName} as verbally authorized?\n\nOnly continue if you have spoken to the candidate and they have given permission to contact their referees. You can then send reference requests immediately.`,
+      confirmText: 'Mark as Authorized',
+    });
+    if (!confirmed) return;
 
     try {
-      const response = await fetch(`${apiUrl}/requests/${requestId}/verbal-authorization`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      try {
+        await api.requests.markVerbalAuthorization(requestId);
+      } catch (err) {
+        if (err instanceof ApiError && errorDetail(err, 'traceback')) {
+          console.error('Verbal authorization failed:', err.data);
+          throw new Error(`${err.message}\n\nDetails: ${errorDetail(err, 'type') || 'Unknown error'}`);
         }
-      });
-
-      const data = await response.json();
-      console.log('Verbal authorization response:', response.status, data);
-
-      if (!response.ok) {
-        console.error('Verbal authorization failed:', data);
-        const errorMsg = data.message || data.error || 'Failed to mark as verbally authorized';
-        const details = data.traceback ? `\n\nDetails: ${data.type || 'Unknown error'}` : '';
-        throw new Error(errorMsg + details);
+        throw err;
       }
 
       // Optimistic UI update - immediately update local state
@@ -365,18 +510,229 @@ export const RequestList: React.FC<RequestListProps> = ({
 
       // Close menu and show success immediately
       setOpenRefereeMenuId(null);
-      alert(`✅ ${candidateName} marked as verbally authorized!\n\nYou can now add referees and send invitations.`);
+      toast.success('You can now add referees and send invitations.', {
+        title: `${candidateName} marked as verbally authorized`,
+      });
       
       // Refresh data in background (no await)
       fetchRequestsWithDetails(false);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       console.error('Error marking verbal authorization:', err);
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Verbal authorization failed' });
+    }
+  };
+
+  const selectedRequests = requestsWithReferees.filter(req => selectedIds.has(req.id));
+  const allOnPageSelected = requestsWithReferees.length > 0 && selectedRequests.length === requestsWithReferees.length;
+
+  const toggleSelected = (requestId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(requestId)) {
+        next.delete(requestId);
+      } else {
+        next.add(requestId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allOnPageSelected ? new Set() : new Set(requestsWithReferees.map(req => req.id)));
+  };
+
+  // Team members for the reassign picker; the list is optional so failures are quiet
+  useEffect(() => {
+    if (!organization) return;
+    api.organizations.members(organization.id)
+      .then(data => setMembers(data.users || []))
+      .catch(err => console.error('Failed to load team members:', err));
+  }, [organization?.id]);
+
+  const runBulkJob = async (title: string, items: BulkItem[], skipped: BulkFailure[] = []) => {
+    if (items.length === 0) {
+      toast.info(skipped.length > 0 ? `Nothing to do - ${skipped[0].error.toLowerCase()}` : 'Nothing to do for the selected rows');
+      return null;
+    }
+
+    const result: BulkJob = await bulk.run(title, items, skipped);
+    const succeeded = result.completed - result.failures.length;
+    const skippedNote = result.skipped.length > 0 ? `, ${result.skipped.length} skipped` : '';
+    if (result.failures.length === 0) {
+      toast.success(`${title}: ${succeeded} of ${result.total} done${skippedNote}`);
+    } else {
+      toast.warning(`${succeeded} succeeded, ${result.failures.length} failed${skippedNote}. See the report for details.`, { title });
+    }
+    fetchRequestsWithDetails(false);
+    return result;
+  };
+
+  const handleBulkSendReminders = async () => {
+    const items: BulkItem[] = [];
+    const skipped: BulkFailure[] = [];
+    let bouncedCount = 0;
+
+    selectedRequests.forEach(req => {
+      const pending = req.referees.filter(isAwaitingReferee);
+      if (pending.length === 0) {
+        skipped.push({ id: req.id, label: candidateName(req), error: 'No referees awaiting a response' });
+        return;
+      }
+      pending.forEach(referee => {
+        const label = `${referee.first_name} ${referee.last_name} (for ${candidateName(req)})`;
+        // Reminders go by email, so an address that bounced would only bounce again
+        if (referee.status === 'bounced') {
+          bouncedCount++;
+          skipped.push({ id: referee.id, label, error: 'Email bounced - fix the address first' });
+          return;
+        }
+        items.push({ id: referee.id, label, run: () => api.referees.remind(req.id, referee.id, 'email') });
+      });
+    });
+
+
+    if (items.length > 0) {
+      const confirmed = await confirm({
+        title: 'Send reminders?',
+        message: `Send an email reminder to ${items.length} referee${items.length === 1 ? '' : 's'} who haven't responded yet?`
+          + (bouncedCount > 0 ? `\n\n${bouncedCount} referee${bouncedCount === 1 ? '' : 's'} with a bounced email will be skipped.` : ''),
+        confirmText: 'Send Reminders',
+      });
+      if (!confirmed) return;
+    }
+
+    runBulkJob('Sending reminders', items, skipped);
+  };
+
+  const handleBulkSendAuthorizations = async () => {
+    const items: BulkItem[] = [];
+    const skipped: BulkFailure[] = [];
+
+    selectedRequests.forEach(req => {
+      if (isCandidateAuthorized(req)) {
+        skipped.push({ id: req.id, label: candidateName(req), error: 'Already authorized' });
+        return;
+      }
+      items.push({
+        id: req.id,
+        label: candidateName(req),
+        run: () => api.requests.sendAuthorization(req.id),
+      });
+    });
+
+    if (items.length > 0) {
+      const confirmed = await confirm({
+        title: 'Send authorization requests?',
+        message: `Send an authorization email to ${items.length} candidate${items.length === 1 ? '' : 's'}?\n\nAny earlier authorization links they were sent will stop working.`,
+        confirmText: 'Send Emails',
+      });
+      if (!confirmed) return;
+    }
+
+    runBulkJob('Sending authorization requests', items, skipped);
+  };
+
+  const handleBulkArchive = async () => {
+    const confirmed = await confirm({
+      title: 'Archive requests?',
+      message: `Archive ${selectedRequests.length} request${selectedRequests.length === 1 ? '' : 's'}? They will no longer appear in this list.`,
+      confirmText: 'Archive',
+    });
+    if (!confirmed) return;
+
+    const result = await runBulkJob('Archiving requests', selectedRequests.map(req => ({
+      id: req.id,
+      label: candidateName(req),
+      run: () => api.requests.archive(req.id),
+    })));
+    if (result) setSelectedIds(new Set(result.failures.map(failure => failure.id)));
+  };
+
+  const handleBulkRestore = async () => {
+    const result = await runBulkJob('Restoring requests', selectedRequests.map(req => ({
+      id: req.id,
+      label: candidateName(req),
+      run: () => api.requests.restore(req.id),
+    })));
+    if (result) setSelectedIds(new Set(result.failures.map(failure => failure.id)));
+  };
+
+  const handleBulkPurge = async () => {
+    const confirmed = await confirm({
+      title: `Permanently delete ${selectedRequests.length} candidate${selectedRequests.length === 1 ? '' : 's'}?`,
+      message: 'The selected candidates and all their referees and reports will be permanently deleted. This cannot be undone.',
+      confirmText: 'Delete Permanently',
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    const result = await runBulkJob('Permanently deleting candidates', selectedRequests.map(req => ({
+      id: req.id,
+      label: candidateName(req),
+      run: () => api.requests.purge(req.id),
+    })));
+    if (result) setSelectedIds(new Set(result.failures.map(failure => failure.id)));
+  };
+
+  const handleBulkReassign = async (ownerId: string) => {
+    const owner = members.find(member => member.id === ownerId);
+    if (!owner) return;
+
+    const confirmed = await confirm({
+      title: 'Reassign requests?',
+      message: `Make ${owner.full_name || owner.email} the owner of ${selectedRequests.length} request${selectedRequests.length === 1 ? '' : 's'}?`,
+      confirmText: 'Reassign',
+    });
+    if (!confirmed) return;
+
+    runBulkJob(`Reassigning to ${owner.full_name || owner.email}`, selectedRequests.map(req => ({
+      id: req.id,
+      label: candidateName(req),
+      run: () => api.requests.reassign(req.id, ownerId),
+    })));
+  };
+
+  const fetchAllMatchingRequests = async (): Promise<RequestWithReferees[]> => {
+    const requests: RequestWithReferees[] = [];
+    for (let pageNumber = 1; ; pageNumber++) {
+      const data = await api.requests.listWithReferees(buildListQuery(pageNumber, EXPORT_PAGE_SIZE));
+      requests.push(...(data.requests || []).map(req => ({
+        ...req,
+        referees: req.referees || [],
+        summary: req.summary || { total_referees: 0, completed: 0, pending: 0 },
+      })));
+      if (!data.pagination || pageNumber >= data.pagination.total_pages) return requests;
+    }
+  };
+
+  // Files are generated here from list data; only "all matching" needs extra requests
+  const handleExport = async (scope: ExportScope, columnIds: string[], format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const requests = scope === 'selected'
+        ? selectedRequests
+        : scope === 'page' ? requestsWithReferees : await fetchAllMatchingRequests();
+      const table = buildExportTable(requests, columnIds);
+      const fileName = `reference-pipeline-${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === 'xlsx') {
+        downloadBlob(toXlsx(table, 'Reference Pipeline'), `${fileName}.xlsx`);
+      } else {
+        downloadCsv(table, `${fileName}.csv`);
+      }
+
+      setExportScope(null);
+      toast.success(`Exported ${requests.length} request${requests.length === 1 ? '' : 's'} (${table.length - 1} rows)`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: 'Export failed' });
+    } finally {
+      setExporting(false);
     }
   };
 
-  const handleSort = (column: string) => {
+  const handleSort = (column: RequestSortColumn) => {
     if (sortColumn === column) {
       // Toggle direction if same column
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -385,6 +741,7 @@ export const RequestList: React.FC<RequestListProps> = ({
       setSortColumn(column);
       setSortDirection((column === 'created' || column === 'last_contact' || column === 'start_date') ? 'desc' : 'asc');
     }
+    setPage(1);
   };
 
   const formatStartDate = (dateString: string | null) => {
@@ -414,85 +771,31 @@ export const RequestList: React.FC<RequestListProps> = ({
     return timeStr;
   };
 
-  const getFilteredAndSortedData = () => {
-    // First filter by search term
-    let filtered = requestsWithReferees;
-    
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      filtered = requestsWithReferees.filter(req => {
-        // Check candidate name
-        const candidateName = `${req.candidate_first_name} ${req.candidate_last_name}`.toLowerCase();
-        if (candidateName.includes(term)) return true;
-        
-        // Check referee names
-        return req.referees.some(referee => {
-          const refereeName = `${referee.first_name} ${referee.last_name}`.toLowerCase();
-          return refereeName.includes(term);
-        });
-      });
-    }
-    
-    // Then sort
-    const sorted = [...filtered];
-    
-    sorted.sort((a, b) => {
-      let compareA: any;
-      let compareB: any;
-      
-      switch (sortColumn) {
-        case 'start_date':
-          compareA = a.authorization_sent_at ? new Date(a.authorization_sent_at).getTime() : 0;
-          compareB = b.authorization_sent_at ? new Date(b.authorization_sent_at).getTime() : 0;
-          break;
-        case 'candidate':
-          compareA = `${a.candidate_first_name || ''} ${a.candidate_last_name || ''}`.trim().toLowerCase();
-          compareB = `${b.candidate_first_name || ''} ${b.candidate_last_name || ''}`.trim().toLowerCase();
-          break;
-        case 'position':
-          compareA = (a.position_applied_for || '').toLowerCase();
-          compareB = (b.position_applied_for || '').toLowerCase();
-          break;
-        case 'created':
-          compareA = new Date(a.created_at).getTime();
-          compareB = new Date(b.created_at).getTime();
-          break;
-        case 'last_contact':
-          // Find the most recent contact time across all referees
-          const getLatestContact = (req: RequestWithReferees) => {
-            if (!req.referees || req.referees.length === 0) return 0;
-            const times = req.referees
-              .map(r => r.last_contacted_at ? new Date(r.last_contacted_at).getTime() : 0)
-              .filter(t => t > 0);
-            return times.length > 0 ? Math.max(...times) : 0;
-          };
-          compareA = getLatestContact(a);
-          compareB = getLatestContact(b);
-          break;
-        default:
-          return 0;
-      }
-      
-      if (compareA < compareB) return sortDirection === 'asc' ? -1 : 1;
-      if (compareA > compareB) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-    
-    return sorted;
-  };
-
-  const renderSortIndicator = (column: string) => {
+  const renderSortIndicator = (column: RequestSortColumn) => {
     if (sortColumn !== column) return ' ⇅';
     return sortDirection === 'asc' ? ' ▲' : ' ▼';
   };
 
+  const closeRefereeModal = () => {
+    setEditingReferee(null);
+    setBounceFix(null);
+  };
+
+  // Resending to the address that bounced would just bounce again
+  const bouncedEmailUnchanged = !!bounceFix && !!editingReferee &&
+    editingReferee.email.trim().toLowerCase() === bounceFix.bouncedEmail.trim().toLowerCase();
+
+  const handleFixBounce = (requestId: string, referee: Referee) => {
+    setBounceFix({ requestId, bouncedEmail: referee.email });
+    handleRefereeClick(referee);
+  };
+
   const handleRefereeClick = async (referee: Referee) => {
     try {
       // Fetch full referee details including consent data
-      const response = await fetch(`${apiUrl}/referees/${referee.id}`);
-      const data = await response.json();
+      const data = await api.referees.get(referee.id);
 
-      if (response.ok && data.referee) {
+      if (data.referee) {
         // Use the detailed referee data which includes consent fields
         setEditingReferee(data.referee);
       } else {
@@ -580,30 +883,28 @@ export const RequestList: React.FC<RequestListProps> = ({
 
   const handleSaveReferee = async () => {
     if (!editingReferee) return;
+    if (bouncedEmailUnchanged) {
+      toast.warning('Change the email address before resending the invitation');
+      return;
+    }
+
+    const { email: emailError, phone_number: phoneError } = validateReferee(editingReferee);
+    if (emailError || phoneError) {
+      toast.error(emailError || phoneError, { title: 'Referee details not saved' });
+      return;
+    }
 
     setSavingReferee(true);
     try {
-      const response = await fetch(`${apiUrl}/referees/${editingReferee.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          first_name: editingReferee.first_name,
-          last_name: editingReferee.last_name,
-          email: editingReferee.email,
-          phone: editingReferee.phone || null,
-          relationship: editingReferee.relationship,
-          company: editingReferee.company || null,
-        }),
+      await api.referees.update(editingReferee.id, {
+        first_name: editingReferee.first_name,
+        last_name: editingReferee.last_name,
+        email: editingReferee.email,
+        phone: editingReferee.phone ? normalizePhone(editingReferee.phone) : null,
+        relationship: editingReferee.relationship,
+        company: editingReferee.company || null,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update referee');
-      }
-
       // Optimistic UI update - immediately update local state
       setRequestsWithReferees(prev => prev.map(req => ({
         ...req,
@@ -614,7 +915,7 @@ export const RequestList: React.FC<RequestListProps> = ({
                 first_name: editingReferee.first_name,
                 last_name: editingReferee.last_name,
                 email: editingReferee.email,
-                phone: editingReferee.phone || null,
+                phone: editingReferee.phone ? normalizePhone(editingReferee.phone) : null,
                 relationship: editingReferee.relationship,
                 company: editingReferee.company || null,
               }
@@ -622,16 +923,27 @@ export const RequestList: React.FC<RequestListProps> = ({
         )
       })));
 
-      // Close modal and show success immediately
-      setEditingReferee(null);
+      if (bounceFix) {
+        try {
+          await api.referees.resendInvitation(bounceFix.requestId, editingReferee.id);
+          toast.success(`Invitation resent to ${editingReferee.email}`);
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+          toast.error(errorMessage, { title: 'Details saved, but the invitation was not resent' });
+        }
+      } else {
+        toast.success('Referee details updated');
+      }
+
+      // Close modal immediately
+      closeRefereeModal();
       setSavingReferee(false);
-      alert('✅ Referee details updated successfully!');
       
       // Refresh data in background (no await)
       fetchRequestsWithDetails(false);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Referee details not saved' });
       setSavingReferee(false);
     }
   };
@@ -658,7 +970,7 @@ export const RequestList: React.FC<RequestListProps> = ({
                         editingCandidate.authorization_status === 'verbal';
 
     if (!isAuthorized) {
-      alert('⚠️ This candidate has not completed authorization yet.');
+      toast.warning('This candidate has not completed authorization yet.');
       return;
     }
 
@@ -746,7 +1058,7 @@ export const RequestList: React.FC<RequestListProps> = ({
         doc.text('Phone:', margin + 5, yPos);
         doc.setFont('helvetica', 'normal');
         doc.setTextColor(0, 0, 0);
-        doc.text(editingCandidate.candidate_phone_number, margin + 5, yPos + 5);
+        doc.text(formatPhone(editingCandidate.candidate_phone_number), margin + 5, yPos + 5);
         yPos += 15;
       }
 
@@ -876,7 +1188,7 @@ export const RequestList: React.FC<RequestListProps> = ({
 
     } catch (error) {
       console.error('Failed to generate PDF:', error);
-      alert('❌ Failed to generate PDF. Please try again or contact support.');
+      toast.error('Please try again or contact support.', { title: 'Failed to generate PDF' });
     }
   };
 
@@ -886,7 +1198,7 @@ export const RequestList: React.FC<RequestListProps> = ({
     const hasConsent = editingReferee.consent_agreed && editingReferee.consent_signature;
 
     if (!hasConsent) {
-      alert('⚠️ This referee has not completed the consent form yet.');
+      toast.warning('This referee has not completed the consent form yet.');
       return;
     }
 
@@ -983,7 +1295,7 @@ export const RequestList: React.FC<RequestListProps> = ({
         doc.text('Phone:', margin + 5, yPos);
         doc.setFont('helvetica', 'normal');
         doc.setTextColor(0, 0, 0);
-        doc.text(editingReferee.phone, margin + 5, yPos + 5);
+        doc.text(formatPhone(editingReferee.phone), margin + 5, yPos + 5);
         yPos += 15;
       }
 
@@ -1147,35 +1459,29 @@ export const RequestList: React.FC<RequestListProps> = ({
 
     } catch (error) {
       console.error('Failed to generate PDF:', error);
-      alert('❌ Failed to generate PDF. Please try again or contact support.');
+      toast.error('Please try again or contact support.', { title: 'Failed to generate PDF' });
     }
   };
 
   const handleSaveCandidate = async () => {
     if (!editingCandidate) return;
 
+    const phoneError = validateCandidate(editingCandidate).candidate_phone_number;
+    if (phoneError) {
+      toast.error(phoneError, { title: 'Candidate details not saved' });
+      return;
+    }
+
     setSavingCandidate(true);
     try {
-      const response = await fetch(`${apiUrl}/requests/${editingCandidate.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          candidate_first_name: editingCandidate.candidate_first_name,
-          candidate_last_name: editingCandidate.candidate_last_name,
-          candidate_email: editingCandidate.candidate_email,
-          candidate_phone_number: editingCandidate.candidate_phone_number || null,
-          position_applied_for: editingCandidate.position_applied_for,
-        }),
+      await api.requests.update(editingCandidate.id, {
+        candidate_first_name: editingCandidate.candidate_first_name,
+        candidate_last_name: editingCandidate.candidate_last_name,
+        candidate_email: editingCandidate.candidate_email,
+        candidate_phone_number: editingCandidate.candidate_phone_number ? normalizePhone(editingCandidate.candidate_phone_number) : null,
+        position_applied_for: editingCandidate.position_applied_for,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update candidate');
-      }
-
       // Optimistic UI update - immediately update local state
       setRequestsWithReferees(prev => prev.map(req => 
         req.id === editingCandidate.id
@@ -1184,7 +1490,7 @@ export const RequestList: React.FC<RequestListProps> = ({
               candidate_first_name: editingCandidate.candidate_first_name,
               candidate_last_name: editingCandidate.candidate_last_name,
               candidate_email: editingCandidate.candidate_email,
-              candidate_phone_number: editingCandidate.candidate_phone_number || null,
+              candidate_phone_number: editingCandidate.candidate_phone_number ? normalizePhone(editingCandidate.candidate_phone_number) : null,
               position_applied_for: editingCandidate.position_applied_for,
             }
           : req
@@ -1193,20 +1499,38 @@ export const RequestList: React.FC<RequestListProps> = ({
       // Close modal and show success immediately
       setEditingCandidate(null);
       setSavingCandidate(false);
-      alert('✅ Candidate details updated successfully!');
+      toast.success('Candidate details updated');
       
       // Refresh data in background (no await)
       fetchRequestsWithDetails(false);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Candidate details not saved' });
       setSavingCandidate(false);
     }
   };
 
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    if (searchTerm === filters.search) return;
+    const timeoutId = setTimeout(() => {
+      committedSearch.current = searchTerm;
+      setFilters({ ...filters, search: searchTerm });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm, filtersKey]);
+
+  // Follow search changes made elsewhere (saved views, back button)
   useEffect(() => {
-    fetchRequestsWithDetails();
-  }, [userId, statusFilter]);
+    if (filters.search === committedSearch.current) return;
+    committedSearch.current = filters.search;
+    setSearchTerm(filters.search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    // Only show the full-page loader on first load; later queries keep the controls mounted
+    fetchRequestsWithDetails(lastRefreshed === null);
+  }, [userId, filtersKey, sortColumn, sortDirection, page, pageSize]);
 
   useEffect(() => {
     // Close menu when clicking outside
@@ -1293,6 +1617,45 @@ export const RequestList: React.FC<RequestListProps> = ({
     return null; // Don't show anything if not authorized yet
   };
 
+  const renderArchivedNotice = (req: RequestWithReferees) => {
+    if (!req.archived_at) return null;
+    return (
+      <div className="archived-notice">
+        <span className="status-badge status-expired">Archived</span>
+        <div>{formatPurgeCountdown(req)}</div>
+      </div>
+    );
+  };
+
+  // Archived rows only offer restore, plus permanent delete for admins
+  const renderArchivedMenu = (menuId: string, req: RequestWithReferees) => (
+    <div
+      ref={(el) => handleMenuContentRef(menuId, el)}
+      className={`actions-menu ${(menuPositions[menuId] || 'down') === 'up' ? 'actions-menu-up' : ''}`}
+    >
+      <button
+        onClick={() => {
+          setOpenRefereeMenuId(null);
+          handleRestoreRequest(req.id, candidateName(req));
+        }}
+        style={{ color: '#059669' }}
+      >
+        ♻️ Restore Candidate
+      </button>
+      {canPurge && (
+        <button
+          onClick={() => {
+            setOpenRefereeMenuId(null);
+            handlePurgeRequest(req);
+          }}
+          style={{ color: '#dc2626' }}
+        >
+          🗑️ Delete Permanently
+        </button>
+      )}
+    </div>
+  );
+
   if (loading) {
     return <div className="loading">Loading requests...</div>;
   }
@@ -1348,6 +1711,7 @@ export const RequestList: React.FC<RequestListProps> = ({
         requestId={showingReport.requestId}
         refereeId={showingReport.refereeId}
         apiUrl={apiUrl}
+        userId={userId}
         onClose={() => setShowingReport(null)}
       />
     );
@@ -1396,8 +1760,8 @@ export const RequestList: React.FC<RequestListProps> = ({
             <label htmlFor="status-filter">Filter by status:</label>
             <select
               id="status-filter"
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value })}
               className="status-filter"
             >
               <option value="all">All</option>
@@ -1405,15 +1769,34 @@ export const RequestList: React.FC<RequestListProps> = ({
               <option value="sent">Sent</option>
               <option value="completed">Completed</option>
               <option value="expired">Expired</option>
+              <option value="archived">Archived</option>
             </select>
           </div>
 
+          <button
+            onClick={() => setShowFilterPanel(!showFilterPanel)}
+            className="btn-secondary"
+            aria-expanded={showFilterPanel}
+          >
+            ⚙️ Filters{countAdvancedFilters(filters) > 0 ? ` (${countAdvancedFilters(filters)})` : ''}
+          </button>
+
+          <SavedViews apiUrl={apiUrl} filters={filters} onApply={setFilters} />
+
+          <button
+            onClick={() => setExportScope(selectedRequests.length > 0 ? 'selected' : 'all')}
+            className="btn-secondary"
+            disabled={requestsWithReferees.length === 0}
+          >
+            ⬇️ Export
+          </button>
+
           <button 
-            onClick={() => fetchRequestsWithDetails(true)} 
+            onClick={() => fetchRequestsWithDetails(false)} 
             className="btn-refresh"
-            disabled={loading}
+            disabled={loading || refreshing}
           >
-            {loading ? '⏳ Refreshing...' : '🔄 Refresh'}
+            {loading || refreshing ? '⏳ Refreshing...' : '🔄 Refresh'}
           </button>
 
           {lastRefreshed && (
@@ -1421,20 +1804,60 @@ export const RequestList: React.FC<RequestListProps> = ({
               Last updated: {lastRefreshed.toLocaleTimeString()}
             </span>
           )}
+
+          <span
+            className={`live-indicator live-${liveConnection}`}
+            title={LIVE_STATUS[liveConnection].title}
+          >
+            ● {LIVE_STATUS[liveConnection].label}
+          </span>
         </div>
+
+        {showFilterPanel && (
+          <RequestFilterPanel filters={filters} members={members} onChange={setFilters} />
+        )}
       </div>
 
+      {selectedRequests.length > 0 && (
+        <BulkActionBar
+          selectedCount={selectedRequests.length}
+          busy={!!bulk.job?.running}
+          members={members}
+          onSendReminders={handleBulkSendReminders}
+          onSendAuthorizations={handleBulkSendAuthorizations}
+          archivedView={filters.status === 'archived'}
+          onArchive={handleBulkArchive}
+          onRestore={handleBulkRestore}
+          onPurge={canPurge ? handleBulkPurge : undefined}
+          onExport={() => setExportScope('selected')}
+          onReassign={handleBulkReassign}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
+
       {/* Requests Table */}
       {requestsWithReferees.length === 0 ? (
         <div className="empty-state">
           <p>No reference requests found.</p>
-          <p className="help-text">Create a new request to get started.</p>
+          <p className="help-text">
+            {!isDefaultFilters(filters)
+              ? 'Try a different search or clear some filters.'
+              : 'Create a new request to get started.'}
+          </p>
         </div>
       ) : (
         <div className="table-container">
           <table className="requests-table">
             <thead>
               <tr>
+                <th className="select-column">
+                  <input
+                    type="checkbox"
+                    checked={allOnPageSelected}
+                    onChange={toggleSelectAll}
+                    aria-label="Select all requests on this page"
+                  />
+                </th>
                 <th onClick={() => handleSort('start_date')} style={{ cursor: 'pointer', userSelect: 'none' }}>
                   Start Date{renderSortIndicator('start_date')}
                 </th>
@@ -1451,26 +1874,35 @@ export const RequestList: React.FC<RequestListProps> = ({
               </tr>
             </thead>
             <tbody>
-              {getFilteredAndSortedData().map((req) => (
+              {requestsWithReferees.map((req) => (
                 <React.Fragment key={req.id}>
                   {/* If no referees, show one row for the candidate */}
                   {req.referees.length === 0 ? (
-                    <tr>
+                    <tr className={isRowHighlighted(req) ? 'row-updated' : undefined}>
+                      <td className="select-column">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(req.id)}
+                          onChange={() => toggleSelected(req.id)}
+                          aria-label={`Select ${candidateName(req)}`}
+                        />
+                      </td>
                       <td>
                         {formatStartDate(req.authorization_sent_at)}
                       </td>
                       <td className="candidate-name">
                         <span
-                          onClick={() => handleCandidateClick(req)}
+                          onClick={() => onOpenCandidate ? onOpenCandidate(req.id) : handleCandidateClick(req)}
                           style={{
                             color: '#2563eb',
                             cursor: 'pointer',
                             textDecoration: 'underline',
                           }}
-                          title="Click to view/edit details"
+                          title={onOpenCandidate ? 'Click to view candidate timeline' : 'Click to view/edit details'}
                         >
                           {req.candidate_first_name} {req.candidate_last_name}
                         </span>
+                        {renderArchivedNotice(req)}
                       </td>
                       <td>{req.position_applied_for}</td>
                       <td colSpan={3} style={{ textAlign: 'center', color: '#999' }}>
@@ -1486,7 +1918,8 @@ export const RequestList: React.FC<RequestListProps> = ({
                         >
                           ⋯
                         </button>
-                        {openRefereeMenuId === req.id && (
+                        {openRefereeMenuId === req.id && req.archived_at && renderArchivedMenu(req.id, req)}
+                        {openRefereeMenuId === req.id && !req.archived_at && (
                           <div
                             ref={(el) => handleMenuContentRef(req.id, el)}
                             className={`actions-menu ${(menuPositions[req.id] || 'down') === 'up' ? 'actions-menu-up' : ''}`}
@@ -1516,6 +1949,16 @@ export const RequestList: React.FC<RequestListProps> = ({
                             )}
                             
                             {/* SECTION 2: Candidate Actions (always shown) */}
+                            {onOpenCandidate && (
+                              <button
+                                onClick={() => {
+                                  setOpenRefereeMenuId(null);
+                                  handleCandidateClick(req);
+                                }}
+                              >
+                                ✏️ Edit Candidate
+                              </button>
+                            )}
                             <button
                               onClick={() => {
                                 setOpenRefereeMenuId(null);
@@ -1527,11 +1970,11 @@ export const RequestList: React.FC<RequestListProps> = ({
                             <button
                               onClick={() => {
                                 setOpenRefereeMenuId(null);
-                                handleDeleteRequest(req.id, `${req.candidate_first_name} ${req.candidate_last_name}`);
+                                handleArchiveRequest(req.id, `${req.candidate_first_name} ${req.candidate_last_name}`);
                               }}
                               style={{ color: '#dc2626' }}
                             >
-                              🗑️ Delete Candidate
+                              🗄️ Archive Candidate
                             </button>
                           </div>
                         )}
@@ -1540,10 +1983,22 @@ export const RequestList: React.FC<RequestListProps> = ({
                   ) : (
                     /* Show one row per referee */
                     req.referees.map((referee, index) => (
-                      <tr key={referee.id}>
+                      <tr key={referee.id} className={isRowHighlighted(req, referee.id) ? 'row-updated' : undefined}>
                         {/* Show start date and candidate name only on first row */}
                         {index === 0 ? (
                           <>
+                            <td
+                              className="select-column"
+                              rowSpan={req.referees.length}
+                              style={{ verticalAlign: 'top', paddingTop: '20px' }}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(req.id)}
+                                onChange={() => toggleSelected(req.id)}
+                                aria-label={`Select ${candidateName(req)}`}
+                              />
+                            </td>
                             <td
                               rowSpan={req.referees.length}
                               style={{ verticalAlign: 'top', paddingTop: '20px' }}
@@ -1556,13 +2011,13 @@ export const RequestList: React.FC<RequestListProps> = ({
                               style={{ verticalAlign: 'top', paddingTop: '20px' }}
                             >
                               <span
-                                onClick={() => handleCandidateClick(req)}
+                                onClick={() => onOpenCandidate ? onOpenCandidate(req.id) : handleCandidateClick(req)}
                                 style={{
                                   color: '#2563eb',
                                   cursor: 'pointer',
                                   textDecoration: 'underline',
                                 }}
-                                title="Click to view/edit details"
+                                title={onOpenCandidate ? 'Click to view candidate timeline' : 'Click to view/edit details'}
                               >
                                 <strong>{req.candidate_first_name} {req.candidate_last_name}</strong>
                               </span>
@@ -1571,6 +2026,7 @@ export const RequestList: React.FC<RequestListProps> = ({
                               </div>
                               <div style={{ marginTop: '8px' }}>
                                 {getAuthorizationBadge(req)}
+                                {renderArchivedNotice(req)}
                               </div>
                             </td>
                             <td
@@ -1624,6 +2080,27 @@ export const RequestList: React.FC<RequestListProps> = ({
                               );
                             }
                             
+                            // Candidate-nominated referees wait for a recruiter before they're invited
+                            if (isNominationPending(referee)) {
+                              return (
+                                <>
+                                  <span className="status-badge status-nominated" title="Nominated by the candidate">
+                                    Nominated
+                                  </span>
+                                  {!req.archived_at && (
+                                    <div className="nomination-actions">
+                                      <button type="button" onClick={() => handleApproveNomination(req, referee)} className="btn-link">
+                                        ✓ Approve
+                                      </button>
+                                      <button type="button" onClick={() => handleRejectNomination(req, referee)} className="btn-link btn-link-danger">
+                                        ✕ Reject
+                                      </button>
+                                    </div>
+                                  )}
+                                </>
+                              );
+                            }
+
                             // If not authorized at all, show locked status
                             if (isNotAuthorized) {
                               return (
@@ -1659,9 +2136,20 @@ export const RequestList: React.FC<RequestListProps> = ({
                             
                             return (
                               <>
-                                <span className={`status-badge ${getRefereeStatusBadgeClass(referee.status, referee.has_completed)}`}>
-                                  {displayStatus}
-                                </span>
+                                {displayStatus === 'Bounced' && !req.archived_at ? (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleFixBounce(req.id, referee)}
+                                    className="status-badge status-bounced status-badge-action"
+                                    title="Fix the email address and resend the invitation"
+                                  >
+                                    Bounced · Fix &amp; Resend
+                                  </button>
+                                ) : (
+                                  <span className={`status-badge ${getRefereeStatusBadgeClass(referee.status, referee.has_completed)}`}>
+                                    {displayStatus}
+                                  </span>
+                                )}
                                 {referee.submitted_at && (
                                   <div style={{ fontSize: '11px', color: '#666', marginTop: '2px' }}>
                                     {new Date(referee.submitted_at).toLocaleDateString('en-NZ', {
@@ -1698,6 +2186,28 @@ export const RequestList: React.FC<RequestListProps> = ({
                                     {formatTimeNoLeadingZero(referee.last_contacted_at || referee.initial_sent_at)}
                                   </div>
                                 )}
+                                {referee.delivery && (
+                                  <div className="delivery-status">
+                                    {(Object.keys(DELIVERY_CHANNEL_ICONS) as DeliveryChannel[]).map(channel => {
+                                      const delivery = referee.delivery?.[channel];
+                                      if (!delivery) return null;
+                                      return (
+                                        <span
+                                          key={channel}
+                                          className={`delivery-chip delivery-${delivery.status}`}
+                                          title={delivery.error || `${CHANNEL_LABELS[channel]} ${delivery.status}`}
+                                        >
+                                          {DELIVERY_CHANNEL_ICONS[channel]} {delivery.status}
+                                        </span>
+                                      );
+                                    })}
+                                  </div>
+                                )}
+                                {formatNextReminder(referee) && (
+                                  <div className={`next-reminder${referee.reminders_paused ? ' next-reminder-paused' : ''}`}>
+                                    {formatNextReminder(referee)}
+                                  </div>
+                                )}
                               </>
                             );
                           })()}
@@ -1712,7 +2222,8 @@ export const RequestList: React.FC<RequestListProps> = ({
                           >
                             ⋯
                           </button>
-                          {openRefereeMenuId === referee.id && (
+                          {openRefereeMenuId === referee.id && req.archived_at && renderArchivedMenu(referee.id, req)}
+                          {openRefereeMenuId === referee.id && !req.archived_at && (
                             <div
                               ref={(el) => handleMenuContentRef(referee.id, el)}
                               className={`actions-menu ${(menuPositions[referee.id] || 'down') === 'up' ? 'actions-menu-up' : ''}`}
@@ -1745,11 +2256,42 @@ export const RequestList: React.FC<RequestListProps> = ({
                                           <button
                                             onClick={() => {
                                               setOpenRefereeMenuId(null);
-                                              handleSendReminder(req.id, referee.id, `${referee.first_name} ${referee.last_name}`);
+                                              handleSendReminder(req.id, referee, 'email');
                                             }}
                                             style={{ color: '#2563eb' }}
                                           >
-                                            📧 Send Reminder
+                                            📧 Send Email Reminder
+                                          </button>
+                                          {canSendSms(referee) && (
+                                            <>
+                                              <button
+                                                onClick={() => {
+                                                  setOpenRefereeMenuId(null);
+                                                  handleSendReminder(req.id, referee, 'sms');
+                                                }}
+                                                style={{ color: '#2563eb' }}
+                                              >
+                                                💬 Send SMS Reminder
+                                              </button>
+                                              <button
+                                                onClick={() => {
+                                                  setOpenRefereeMenuId(null);
+                                                  handleSendReminder(req.id, referee, 'both');
+                                                }}
+                                                style={{ color: '#2563eb' }}
+                                              >
+                                                📣 Send Email + SMS Reminder
+                                              </button>
+                                            </>
+                                          )}
+                                          <button
+                                            onClick={() => {
+                                              setOpenRefereeMenuId(null);
+                                              handleToggleReminders(req.id, referee);
+                                            }}
+                                            style={{ color: '#6b7280' }}
+                                          >
+                                            {referee.reminders_paused ? '▶️ Resume Auto Reminders' : '⏸️ Pause Auto Reminders'}
                                           </button>
                                           <button
                                             onClick={() => {
@@ -1820,6 +2362,16 @@ export const RequestList: React.FC<RequestListProps> = ({
                               )}
 
                               {/* SECTION 3: Standard Candidate Actions (always shown on ALL rows) */}
+                              {onOpenCandidate && (
+                                <button
+                                  onClick={() => {
+                                    setOpenRefereeMenuId(null);
+                                    handleCandidateClick(req);
+                                  }}
+                                >
+                                  ✏️ Edit Candidate
+                                </button>
+                              )}
                               <button
                                 onClick={() => {
                                   setOpenRefereeMenuId(null);
@@ -1831,11 +2383,11 @@ export const RequestList: React.FC<RequestListProps> = ({
                               <button
                                 onClick={() => {
                                   setOpenRefereeMenuId(null);
-                                  handleDeleteRequest(req.id, `${req.candidate_first_name} ${req.candidate_last_name}`);
+                                  handleArchiveRequest(req.id, `${req.candidate_first_name} ${req.candidate_last_name}`);
                                 }}
                                 style={{ color: '#dc2626' }}
                               >
-                                🗑️ Delete Candidate
+                                🗄️ Archive Candidate
                               </button>
                             </div>
                           )}
@@ -1850,6 +2402,67 @@ export const RequestList: React.FC<RequestListProps> = ({
         </div>
       )}
 
+      {/* Pagination */}
+      {pagination && pagination.total > 0 && (
+        <div className="pagination">
+          <span className="pagination-summary">
+            Showing {(pagination.page - 1) * pagination.page_size + 1}–
+            {Math.min(pagination.page * pagination.page_size, pagination.total)} of {pagination.total}
+          </span>
+          <div className="pagination-controls">
+            <label htmlFor="page-size">Per page:</label>
+            <select
+              id="page-size"
+              value={pageSize}
+              onChange={(e) => {
+                setPageSize(Number(e.target.value));
+                setPage(1);
+              }}
+              className="status-filter"
+            >
+              {PAGE_SIZE_OPTIONS.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || refreshing}
+              className="btn-secondary"
+            >
+              ← Previous
+            </button>
+            <span>
+              Page {pagination.page} of {Math.max(pagination.total_pages, 1)}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.total_pages || refreshing}
+              className="btn-secondary"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      )}
+
+      {bulk.job && (
+        <BulkProgressModal job={bulk.job} onClose={bulk.dismiss} />
+      )}
+
+      {exportScope && (
+        <PipelineExportDialog
+          scopes={[
+            ...(selectedRequests.length > 0 ? [{ scope: 'selected' as const, label: 'Selected requests', count: selectedRequests.length }] : []),
+            { scope: 'page', label: 'This page', count: requestsWithReferees.length },
+            { scope: 'all', label: 'All matching the current filters', count: pagination?.total ?? requestsWithReferees.length },
+          ]}
+          defaultScope={exportScope}
+          exporting={exporting}
+          onExport={handleExport}
+          onClose={() => setExportScope(null)}
+        />
+      )}
+
       {/* Referee Edit Modal */}
       {editingReferee && (
         <div
@@ -1865,7 +2478,7 @@ export const RequestList: React.FC<RequestListProps> = ({
             justifyContent: 'center',
             zIndex: 1000,
           }}
-          onClick={() => setEditingReferee(null)}
+          onClick={closeRefereeModal}
         >
           <div
             style={{
@@ -1881,9 +2494,16 @@ export const RequestList: React.FC<RequestListProps> = ({
             onClick={(e) => e.stopPropagation()}
           >
             <h2 style={{ marginTop: 0, marginBottom: '24px', color: '#1f2937' }}>
-              Edit Referee Details
+              {bounceFix ? 'Fix Email & Resend' : 'Edit Referee Details'}
             </h2>
 
+            {bounceFix && (
+              <div className="bounce-notice">
+                The invitation to <strong>{bounceFix.bouncedEmail}</strong> bounced. Correct the address
+                and save to send a new invitation.
+              </div>
+            )}
+
             <div style={{ marginBottom: '20px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#374151' }}>
                 First Name *
@@ -1939,23 +2559,20 @@ export const RequestList: React.FC<RequestListProps> = ({
                   }}
                 required
                 />
+                <EmailHint
+                  email={editingReferee.email}
+                  relationship={editingReferee.relationship}
+                  onApplySuggestion={(email) => setEditingReferee({ ...editingReferee, email })}
+                />
               </div>
 
             <div style={{ marginBottom: '20px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#374151' }}>
                 Phone
                 </label>
-                <input
-                  type="tel"
+                <PhoneInput
                   value={editingReferee.phone || ''}
-                  onChange={(e) => setEditingReferee({ ...editingReferee, phone: e.target.value })}
-                  style={{
-                    width: '100%',
-                  padding: '10px',
-                    border: '1px solid #d1d5db',
-                  borderRadius: '4px',
-                    fontSize: '14px',
-                  }}
+                  onChange={(phone) => setEditingReferee({ ...editingReferee, phone })}
                 />
               </div>
 
@@ -2054,7 +2671,7 @@ export const RequestList: React.FC<RequestListProps> = ({
 
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
               <button
-                onClick={() => setEditingReferee(null)}
+                onClick={closeRefereeModal}
                 style={{
                   padding: '10px 20px',
                   backgroundColor: '#f3f4f6',
@@ -2080,8 +2697,10 @@ export const RequestList: React.FC<RequestListProps> = ({
                   fontSize: '14px',
                   fontWeight: '500',
                 }}
+                disabled={savingReferee || bouncedEmailUnchanged}
+                title={bouncedEmailUnchanged ? 'Change the email address before resending' : undefined}
               >
-                Save Changes
+                {savingReferee ? 'Saving...' : bounceFix ? 'Save & Resend' : 'Save Changes'}
               </button>
             </div>
           </div>
@@ -2183,17 +2802,9 @@ export const RequestList: React.FC<RequestListProps> = ({
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#374151' }}>
                 Phone
                 </label>
-                <input
-                  type="tel"
+                <PhoneInput
                   value={editingCandidate.candidate_phone_number || ''}
-                  onChange={(e) => setEditingCandidate({ ...editingCandidate, candidate_phone_number: e.target.value })}
-                  style={{
-                    width: '100%',
-                  padding: '10px',
-                    border: '1px solid #d1d5db',
-                  borderRadius: '4px',
-                    fontSize: '14px',
-                  }}
+                  onChange={(phone) => setEditingCandidate({ ...editingCandidate, candidate_phone_number: phone })}
                 />
               </div>
 
@@ -0,0 +1,29 @@
+/**
+ * RequireAuth Component
+ * Route guard for the admin interface - redirects to /login when signed out
+ */
+
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+
+interface RequireAuthProps {
+  children: React.ReactElement;
+}
+
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <div className="loading">Checking your session...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return children;
+};
+
+export default RequireAuth;
@@ -0,0 +1,130 @@
+/**
+ * SavedViews Component
+ * Named request list filters saved per user
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useCurrentUser } from './AuthContext';
+import { useConfirm, useToast } from './FeedbackContext';
+import { useApi, SavedView } from './api';
+import { RequestFilters, filtersFromSearchParams, filtersToSearchParams, isDefaultFilters } from './requestFilters';
+import { API_URL } from './config';
+
+interface SavedViewsProps {
+  apiUrl?: string;
+  filters: RequestFilters;
+  onApply: (filters: RequestFilters) => void;
+}
+
+export const SavedViews: React.FC<SavedViewsProps> = ({ apiUrl = API_URL, filters, onApply }) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const confirm = useConfirm();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const currentQuery = filtersToSearchParams(filters).toString();
+  const activeView = views.find(view => view.query === currentQuery);
+
+  useEffect(() => {
+    api.savedViews.list(userId)
+      .then(data => setViews(data.views || []))
+      .catch(err => console.error('Failed to load saved views:', err));
+  }, [userId]);
+
+  const handleSelect = (viewId: string) => {
+    const view = views.find(v => v.id === viewId);
+    if (view) onApply(filtersFromSearchParams(new URLSearchParams(view.query)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setSaving(true);
+    try {
+      const data = await api.savedViews.create(userId, { name: trimmed, query: currentQuery });
+      setViews(prev => [...prev.filter(view => view.id !== data.view.id), data.view]);
+      setNaming(false);
+      setName('');
+      toast.success(`Saved view "${trimmed}"`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: 'View not saved' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    const confirmed = await confirm({
+      title: 'Delete saved view?',
+      message: `Delete the saved view "${view.name}"? Your current filters stay as they are.`,
+      confirmText: 'Delete',
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await api.savedViews.remove(userId, view.id);
+      setViews(prev => prev.filter(v => v.id !== view.id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: 'View not deleted' });
+    }
+  };
+
+  return (
+    <div className="saved-views">
+      <select
+        value={activeView?.id || ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        aria-label="Saved views"
+        className="status-filter"
+      >
+        <option value="" disabled>{views.length > 0 ? 'Saved views...' : 'No saved views'}</option>
+        {views.map(view => (
+          <option key={view.id} value={view.id}>{view.name}</option>
+        ))}
+      </select>
+
+      {activeView && (
+        <button type="button" onClick={() => handleDelete(activeView)} className="btn-link">
+          Delete view
+        </button>
+      )}
+
+      {naming ? (
+        <form onSubmit={handleSave} className="saved-view-form">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="View name"
+            aria-label="View name"
+            maxLength={60}
+            autoFocus
+          />
+          <button type="submit" className="btn-secondary" disabled={saving || !name.trim()}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button type="button" onClick={() => setNaming(false)} className="btn-link" disabled={saving}>
+            Cancel
+          </button>
+        </form>
+      ) : (
+        !activeView && !isDefaultFilters(filters) && (
+          <button type="button" onClick={() => setNaming(true)} className="btn-link">
+            💾 Save view
+          </button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default SavedViews;
@@ -4,14 +4,26 @@
  */
 
 import React, { useState, useEffect } from 'react';
-
-interface Referee {
-  id: string;
-  first_name: string;
-  last_name: string;
-  email: string;
-  phone_number: string | null;
-}
+import { useCurrentUser } from './AuthContext';
+import { useConfirm, useToast } from './FeedbackContext';
+import { useApi, ContactChannel, InvitationOptions, Referee, RefereeNominationSettings, ReminderSchedule, SendSummary } from './api';
+import { ReminderScheduleEditor } from './ReminderScheduleEditor';
+import { CHANNEL_LABELS, canSendSms, countSmsSegments, getRefereePhone } from './channels';
+import { formatPhone } from './phone';
+import {
+  DEFAULT_NOMINATION_SETTINGS,
+  MAX_NOMINATED_REFEREES,
+  RELATIONSHIP_TYPES,
+  describeNominationSettings,
+  isNominationPending,
+} from './nominations';
+import {
+  DEFAULT_LINK_EXPIRY_DAYS,
+  DEFAULT_REMINDER_SCHEDULE,
+  describeReminderSchedule,
+  validateReminderSchedule,
+} from './reminders';
+import { API_URL } from './config';
 
 interface SendInvitationsProps {
   requestId: string;
@@ -26,18 +38,28 @@ export const SendInvitations: React.FC<SendInvitationsProps> = ({
   requestId,
   candidateName,
   positionAppliedFor,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
   onBack,
   onSuccess,
 }) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const toast = useToast();
+  const confirm = useConfirm();
   const [referees, setReferees] = useState<Referee[]>([]);
   const [loading, setLoading] = useState(true);
-  const [sending, setSending] = useState(false);
   const [sendingAuth, setSendingAuth] = useState(false);
   const [error, setError] = useState<string>('');
   const [candidateEmail, setCandidateEmail] = useState('');
   const [authorizationStatus, setAuthorizationStatus] = useState('');
 
+  // Reminder cadence - the org default from Settings unless this request overrides it
+  const [reminderMode, setReminderMode] = useState<'default' | 'custom'>('default');
+  const [customSchedule, setCustomSchedule] = useState<ReminderSchedule>(DEFAULT_REMINDER_SCHEDULE);
+  const [orgSchedule, setOrgSchedule] = useState<ReminderSchedule>(DEFAULT_REMINDER_SCHEDULE);
+  const [linkExpiryDays, setLinkExpiryDays] = useState(DEFAULT_LINK_EXPIRY_DAYS);
+  const [savingReminders, setSavingReminders] = useState(false);
+
   // Authorization email template
   const [authEmailSubject, setAuthEmailSubject] = useState(`Authorization Required: Reference Check for ${positionAppliedFor}`);
   const [authEmailMessage, setAuthEmailMessage] = useState('');
@@ -49,6 +71,12 @@ export const SendInvitations: React.FC<SendInvitationsProps> = ({
   // SMS template
   const [smsMessage, setSmsMessage] = useState('');
 
+  // How referees are invited once the candidate authorizes
+  const [invitationChannel, setInvitationChannel] = useState<ContactChannel>('email');
+
+  // Whether the candidate nominates referees after signing
+  const [nomination, setNomination] = useState<RefereeNominationSettings>(DEFAULT_NOMINATION_SETTINGS);
+
   useEffect(() => {
     fetchReferees();
     initializeDefaultMessages();
@@ -113,16 +141,27 @@ Best regards`
     setError('');
 
     try {
-      const response = await fetch(`${apiUrl}/requests/${requestId}`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch referees');
-      }
+      const [data, settingsData] = await Promise.all([
+        api.requests.get(requestId),
+        api.settings.get(userId).catch(() => null),
+      ]);
 
       setReferees(data.referees || []);
       setCandidateEmail(data.request?.candidate_email || '');
       setAuthorizationStatus(data.request?.authorization_status || 'pending');
+      setInvitationChannel(data.request?.invitation_channel || 'email');
+      if (data.request?.referee_nomination) {
+        setNomination(data.request.referee_nomination);
+      }
+
+      if (data.request?.reminder_schedule) {
+        setReminderMode('custom');
+        setCustomSchedule(data.request.reminder_schedule);
+      }
+      if (settingsData?.settings) {
+        setOrgSchedule(settingsData.settings.reminder_schedule || DEFAULT_REMINDER_SCHEDULE);
+        setLinkExpiryDays(settingsData.settings.link_expiry_days || DEFAULT_LINK_EXPIRY_DAYS);
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       setError(errorMessage);
@@ -131,100 +170,113 @@ Best regards`
     }
   };
 
-  const handleSendAuthorization = async () => {
-    if (!confirm(`Send authorization request to ${candidateName}?\n\nThey will receive an email at: ${candidateEmail}\n\n⚠️ Note: Only the most recent email link will work. Previous links will be invalidated.`)) {
-      return;
-    }
+  const usesSms = invitationChannel !== 'email';
+  const refereesWithoutPhone = referees.filter(referee => !canSendSms(referee));
 
-    setSendingAuth(true);
-    setError('');
+  const invitationOptions = (): InvitationOptions => ({
+    invitation_channel: invitationChannel,
+    sms_message: usesSms ? smsMessage : undefined,
+    referee_nomination: nomination.enabled ? nomination : null,
+  });
 
-    try {
-      const response = await fetch(`${apiUrl}/requests/${requestId}/send-authorization`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+  const toggleRequiredRelationship = (type: string) => {
+    setNomination(prev => {
+      if (prev.required_relationships.includes(type)) {
+        return { ...prev, required_relationships: prev.required_relationships.filter(t => t !== type) };
+      }
+      // Each required type needs its own referee, so more than the maximum could never be satisfied
+      if (prev.required_relationships.length >= MAX_NOMINATED_REFEREES) return prev;
+      return { ...prev, required_relationships: [...prev.required_relationships, type] };
+    });
+  };
 
-      const data = await response.json();
+  const relationshipLimitReached = nomination.required_relationships.length >= MAX_NOMINATED_REFEREES;
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send authorization');
-      }
+  const reminderError = reminderMode === 'custom' ? validateReminderSchedule(customSchedule, linkExpiryDays) : null;
 
-      alert(`✅ Authorization request sent to ${candidateName}!\n\nThey will receive an email shortly. Only this latest link will work - any previous authorization links are now invalid.`);
+  const saveReminderSchedule = () =>
+    api.requests.setReminderSchedule(requestId, reminderMode === 'custom' ? customSchedule : null);
 
-      // Return to home page after success
-      if (onSuccess) {
-        onSuccess();
-      } else if (onBack) {
-        onBack();
-      }
+  const handleSaveReminders = async () => {
+    if (reminderError) return;
+
+    setSavingReminders(true);
+    try {
+      await saveReminderSchedule();
+      toast.success('Reminder schedule saved');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      setError(`Authorization Error: ${errorMessage}`);
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Reminder schedule not saved' });
     } finally {
-      setSendingAuth(false);
+      setSavingReminders(false);
     }
   };
 
-  const handleSend = async () => {
-    setSending(true);
-    setError('');
+  // Email and SMS delivery results for invitations that went out straight away
+  const showInvitationSummary = (summary: SendSummary) => {
+    const sent = summary.sent || 0;
+    const failed = summary.failed || 0;
+    const total = summary.total || referees.length;
+    const smsFailed = summary.sms_failed || 0;
 
-    try {
-      // First check if user has completed settings
-      const userId = '10242198-4ee0-4540-8cfd-25343df1f41d'; // TODO: Get from auth context
-      const settingsResponse = await fetch(`${apiUrl}/users/${userId}/settings`);
-      const settingsData = await settingsResponse.json();
-
-      if (settingsResponse.ok && settingsData.settings) {
-        const { contact_name, contact_mobile, contact_email, company_name } = settingsData.settings;
-
-        if (!contact_name || !contact_mobile || !contact_email || !company_name) {
-          alert('❌ Settings Incomplete\n\nYou must complete all contact information in Settings before sending referee invitations.\n\nRequired fields:\n• Your Name\n• Mobile Number\n• Email Address\n• Company Name\n\nPlease go to Settings and fill in all fields.');
-          setSending(false);
-          return;
-        }
-      }
+    let message = `${sent} of ${total} email(s) sent successfully.`;
+    if (usesSms) {
+      message += `\n${summary.sms_sent || 0} SMS message(s) sent.`;
+    }
+    message += `\nReferees should receive their invitations within 30 seconds.`;
 
-      // Now, mark request as sent
-      const response = await fetch(`${apiUrl}/requests/${requestId}/send`, {
-        method: 'POST',
-      });
+    if (failed > 0 || smsFailed > 0) {
+      const failures = [failed > 0 && `${failed} email(s)`, smsFailed > 0 && `${smsFailed} SMS message(s)`].filter(Boolean).join(' and ');
+      toast.warning(`${message}\n${failures} failed.`, { title: 'Invitations partly sent' });
+    } else {
+      toast.success(message, { title: 'Invitations sent' });
+    }
+  };
 
-      const data = await response.json();
+  const handleSendAuthorization = async () => {
+    if (reminderError) {
+      setError(`Reminder schedule: ${reminderError}`);
+      return;
+    }
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send invitations');
-      }
+    if (referees.length === 0 && !nomination.enabled) {
+      setError('Add at least one referee, or ask the candidate to nominate their referees.');
+      return;
+    }
+
+    const confirmed = await confirm({
+      title: 'Send authorization request',
+      message: `Send an authorization request to ${candidateName}?\n\nThey will receive an email at: ${candidateEmail}\n\nOnly the most recent email link will work. Previous links will be invalidated.`,
+      confirmText: 'Send Email',
+    });
+    if (!confirmed) return;
+
+    setSendingAuth(true);
+    setError('');
+
+    try {
+      await saveReminderSchedule();
+      const data = await api.requests.sendAuthorization(requestId, invitationOptions());
 
-      // Show actual sending results
-      const summary = data.summary || {};
-      const sent = summary.sent || 0;
-      const failed = summary.failed || 0;
-      const total = summary.total || referees.length;
-      
-      let message = `✅ Invitations Sent!\n\n`;
-      message += `📧 ${sent} email(s) sent successfully\n`;
-      if (failed > 0) {
-        message += `⚠️ ${failed} email(s) failed\n`;
+      toast.success('Only this latest link will work - any previous authorization links are now invalid.', {
+        title: `Authorization request sent to ${candidateName}`,
+      });
+      if (data.summary) {
+        showInvitationSummary(data.summary);
       }
-      message += `\nReferees should receive their invitation emails within 30 seconds.`;
-      message += `\n\nCheck your inbox (and spam folder) if you added yourself as a test.`;
-      
-      alert(message);
 
+      // Return to home page after success
       if (onSuccess) {
         onSuccess();
+      } else if (onBack) {
+        onBack();
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      setError(errorMessage);
+      setError(`Authorization Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Authorization request not sent' });
     } finally {
-      setSending(false);
+      setSendingAuth(false);
     }
   };
 
@@ -309,12 +361,13 @@ Best regards`
               }}
             >
               <strong>{referee.first_name} {referee.last_name}</strong>
+              {isNominationPending(referee) && <span className="nomination-tag">Nominated - awaiting approval</span>}
               <br />
               📧 {referee.email}
-              {referee.phone_number && (
+              {getRefereePhone(referee) && (
                 <>
                   <br />
-                  📱 {referee.phone_number}
+                  📱 {formatPhone(getRefereePhone(referee))}
                 </>
               )}
             </li>
@@ -322,6 +375,143 @@ Best regards`
         </ul>
       </div>
 
+      {/* Referee Nomination */}
+      <div style={{ marginBottom: '30px' }}>
+        <h3>Referee nomination:</h3>
+        <label className="reminder-toggle">
+          <input
+            type="checkbox"
+            checked={nomination.enabled}
+            onChange={(e) => setNomination({ ...nomination, enabled: e.target.checked })}
+            disabled={authorizationStatus === 'authorized' || authorizationStatus === 'verbal'}
+          />
+          Ask the candidate to nominate referees after signing
+        </label>
+        {nomination.enabled && (
+          <div className="nomination-settings">
+            <div className="form-group">
+              <label htmlFor="nomination-min">Minimum referees</label>
+              <input
+                type="number"
+                id="nomination-min"
+                min={1}
+                max={MAX_NOMINATED_REFEREES}
+                value={nomination.min_referees}
+                onChange={(e) => setNomination({
+                  ...nomination,
+                  min_referees: Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_NOMINATED_REFEREES),
+                })}
+                disabled={authorizationStatus === 'authorized' || authorizationStatus === 'verbal'}
+              />
+            </div>
+            <fieldset className="nomination-relationships">
+              <legend>Required relationship types</legend>
+              {RELATIONSHIP_TYPES.map(type => (
+                <label key={type} className="filter-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={nomination.required_relationships.includes(type)}
+                    onChange={() => toggleRequiredRelationship(type)}
+                    disabled={
+                      authorizationStatus === 'authorized' || authorizationStatus === 'verbal' ||
+                      (relationshipLimitReached && !nomination.required_relationships.includes(type))
+                    }
+                  />
+                  {type}
+                </label>
+              ))}
+              {relationshipLimitReached && (
+                <span className="help-text">
+                  Candidates can nominate at most {MAX_NOMINATED_REFEREES} referees, so up to {MAX_NOMINATED_REFEREES} types can be required.
+                </span>
+              )}
+            </fieldset>
+            <p className="help-text">
+              The candidate must nominate {describeNominationSettings(nomination)}. You approve each referee from the
+              request list before they are invited.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Invitation Channel */}
+      <div style={{ marginBottom: '30px' }}>
+        <h3>Send invitations by:</h3>
+        <div className="channel-options" role="radiogroup" aria-label="Invitation channel">
+          {(Object.keys(CHANNEL_LABELS) as ContactChannel[]).map(channel => (
+            <label key={channel} className="reminder-toggle">
+              <input
+                type="radio"
+                name="invitation-channel"
+                checked={invitationChannel === channel}
+                onChange={() => setInvitationChannel(channel)}
+                disabled={authorizationStatus === 'authorized' || authorizationStatus === 'verbal'}
+              />
+              {CHANNEL_LABELS[channel]}
+            </label>
+          ))}
+        </div>
+        {usesSms && refereesWithoutPhone.length > 0 && (
+          <p className="help-text" style={{ color: '#b45309' }}>
+            No mobile number for {refereesWithoutPhone.map(ref => `${ref.first_name} ${ref.last_name}`).join(', ')} - they will be invited by email only.
+          </p>
+        )}
+        {usesSms && (
+          <div className="form-group">
+            <label htmlFor="sms-message">SMS message</label>
+            <textarea
+              id="sms-message"
+              value={smsMessage}
+              onChange={(e) => setSmsMessage(e.target.value)}
+              rows={3}
+              disabled={authorizationStatus === 'authorized' || authorizationStatus === 'verbal'}
+            />
+            <p className="help-text">
+              {smsMessage.length} characters · {countSmsSegments(smsMessage)} SMS segment(s). Keep {'{reference_link}'} in the message.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Reminder Schedule */}
+      <div style={{ marginBottom: '30px' }}>
+        <h3>Reminders:</h3>
+        <label className="reminder-toggle">
+          <input
+            type="radio"
+            name="reminder-mode"
+            checked={reminderMode === 'default'}
+            onChange={() => setReminderMode('default')}
+          />
+          Organisation default - {describeReminderSchedule(orgSchedule, linkExpiryDays)}
+        </label>
+        <label className="reminder-toggle">
+          <input
+            type="radio"
+            name="reminder-mode"
+            checked={reminderMode === 'custom'}
+            onChange={() => setReminderMode('custom')}
+          />
+          Custom schedule for this request
+        </label>
+        {reminderMode === 'custom' && (
+          <ReminderScheduleEditor
+            schedule={customSchedule}
+            linkExpiryDays={linkExpiryDays}
+            onChange={setCustomSchedule}
+          />
+        )}
+        {(authorizationStatus === 'authorized' || authorizationStatus === 'verbal') && (
+          <button
+            onClick={handleSaveReminders}
+            disabled={savingReminders || !!reminderError}
+            className="btn-secondary"
+            style={{ marginTop: '10px' }}
+          >
+            {savingReminders ? 'Saving...' : 'Save Reminder Schedule'}
+          </button>
+        )}
+      </div>
 
       {/* Action Buttons */}
       <div className="form-actions" style={{ marginTop: '40px', textAlign: 'center' }}>
@@ -4,36 +4,33 @@
  */
 
 import React, { useState, useEffect } from 'react';
-
-interface UserSettings {
-  contact_name: string;
-  contact_mobile: string;
-  contact_email: string;
-  company_name: string;
-  link_expiry_days: number;
-  email_template?: string;
-  sms_template?: string;
-}
+import { useCurrentUser } from './AuthContext';
+import { useApi, UserSettings } from './api';
+import { ReminderScheduleEditor } from './ReminderScheduleEditor';
+import { downloadBlob } from './csv';
+import { DEFAULT_LINK_EXPIRY_DAYS, DEFAULT_REMINDER_SCHEDULE, validateReminderSchedule } from './reminders';
+import { API_URL } from './config';
 
 interface SettingsProps {
-  userId: string;
   apiUrl?: string;
   onBack?: () => void;
 }
 
 export const Settings: React.FC<SettingsProps> = ({
-  userId,
-  apiUrl = 'http://localhost:5001/api',
+  apiUrl = API_URL,
   onBack,
 }) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
   const [settings, setSettings] = useState<UserSettings>({
     contact_name: '',
     contact_mobile: '',
     contact_email: '',
     company_name: '',
-    link_expiry_days: 5,
+    link_expiry_days: DEFAULT_LINK_EXPIRY_DAYS,
     email_template: '',
     sms_template: '',
+    reminder_schedule: DEFAULT_REMINDER_SCHEDULE,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -50,15 +47,13 @@ export const Settings: React.FC<SettingsProps> = ({
     setError('');
 
     try {
-      const response = await fetch(`${apiUrl}/users/${userId}/settings`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch settings');
-      }
+      const data = await api.settings.get(userId);
 
       if (data.settings) {
-        setSettings(data.settings);
+        setSettings({
+          ...data.settings,
+          reminder_schedule: data.settings.reminder_schedule || DEFAULT_REMINDER_SCHEDULE,
+        });
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
@@ -74,19 +69,7 @@ export const Settings: React.FC<SettingsProps> = ({
     setSuccessMessage('');
 
     try {
-      const response = await fetch(`${apiUrl}/users/${userId}/settings`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(settings),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to save settings');
-      }
+      await api.settings.save(userId, settings);
 
       setSuccessMessage('✅ Settings saved successfully!');
       setTimeout(() => setSuccessMessage(''), 3000);
@@ -104,28 +87,8 @@ export const Settings: React.FC<SettingsProps> = ({
     setDownloadingReport(true);
 
     try {
-      const response = await fetch(`${apiUrl}/referees/export`);
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to download referee report';
-        try {
-          const data = await response.json();
-          errorMessage = data.error || errorMessage;
-        } catch (parseError) {
-          console.warn('Unable to parse referee export error', parseError);
-        }
-        throw new Error(errorMessage);
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'referees.csv';
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(url);
+      const blob = await api.referees.exportCsv();
+      downloadBlob(blob, 'referees.csv');
 
       setSuccessMessage('📥 Referee report download started.');
       setTimeout(() => setSuccessMessage(''), 3000);
@@ -137,6 +100,11 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const linkExpiryDays = settings.link_expiry_days || DEFAULT_LINK_EXPIRY_DAYS;
+  const reminderSchedule = settings.reminder_schedule || DEFAULT_REMINDER_SCHEDULE;
+  const reminderError = validateReminderSchedule(reminderSchedule, linkExpiryDays);
+  const canSave = !!(settings.contact_name && settings.contact_mobile && settings.contact_email && settings.company_name && !reminderError);
+
   if (loading) {
     return (
       <div style={{ padding: '40px', textAlign: 'center' }}>
@@ -402,8 +370,13 @@ Best regards`}
           🔔 Reminders
         </h2>
         <p style={{ margin: '0 0 20px 0', color: '#6b7280', fontSize: '14px' }}>
-          Following the first email, the referee will then receive a follow up email the next morning, then the text message reminders on the following 2 days before their link expires.
+          Default reminder schedule for your organisation. Individual requests can override it when sending invitations, and reminders can be paused per referee from the request list.
         </p>
+        <ReminderScheduleEditor
+          schedule={reminderSchedule}
+          linkExpiryDays={linkExpiryDays}
+          onChange={(schedule) => setSettings({ ...settings, reminder_schedule: schedule })}
+        />
       </div>
 
       {/* Action Buttons */}
@@ -431,14 +404,14 @@ Best regards`}
         </button>
         <button
           onClick={handleSave}
-          disabled={saving || !settings.contact_name || !settings.contact_mobile || !settings.contact_email || !settings.company_name}
+          disabled={saving || !canSave}
           style={{
             padding: '12px 24px',
-            backgroundColor: (settings.contact_name && settings.contact_mobile && settings.contact_email && settings.company_name && !saving) ? '#2563eb' : '#9ca3af',
+            backgroundColor: (canSave && !saving) ? '#2563eb' : '#9ca3af',
             color: 'white',
             border: 'none',
             borderRadius: '6px',
-            cursor: (settings.contact_name && settings.contact_mobile && settings.contact_email && settings.company_name && !saving) ? 'pointer' : 'not-allowed',
+            cursor: (canSave && !saving) ? 'pointer' : 'not-allowed',
             fontSize: '16px',
             fontWeight: '600',
             flex: 1,
@@ -0,0 +1,211 @@
+/**
+ * StructuredAnswerInput Component
+ * Picker for the non-text question types (rating, yes/no, choices, date
+ * range, rating matrix, number), used wherever an answer is entered or edited
+ *
+ * Works on the encoded string form from questionTypes so callers can keep
+ * treating every answer as text.
+ */
+
+import React from 'react';
+import {
+  AnswerQuestion,
+  DEFAULT_SCALE_MAX,
+  encodeDateRange,
+  encodeMatrix,
+  encodeMultiChoice,
+  parseDateRange,
+  parseMatrix,
+  parseMultiChoice,
+} from './questionTypes';
+
+interface StructuredAnswerInputProps {
+  question: AnswerQuestion;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  /** Keeps radio groups separate when several questions are on screen */
+  name: string;
+}
+
+const range = (max: number) => Array.from({ length: max }, (_, i) => i + 1);
+
+export const StructuredAnswerInput: React.FC<StructuredAnswerInputProps> = ({
+  question,
+  value,
+  onChange,
+  disabled = false,
+  name,
+}) => {
+  const scaleMax = question.scale_max || DEFAULT_SCALE_MAX;
+
+  const renderButtons = (choices: string[]) => (
+    <div className="answer-buttons" role="radiogroup">
+      {choices.map(choice => (
+        <button
+          key={choice}
+          type="button"
+          role="radio"
+          aria-checked={value === choice}
+          className={`answer-button ${value === choice ? 'selected' : ''}`}
+          onClick={() => onChange(value === choice ? '' : choice)}
+          disabled={disabled}
+        >
+          {choice}
+        </button>
+      ))}
+    </div>
+  );
+
+  switch (question.type) {
+    case 'scale':
+      return (
+        <div className="structured-answer">
+          {renderButtons(range(scaleMax).map(String))}
+          <span className="help-text">1 = poor, {scaleMax} = excellent</span>
+        </div>
+      );
+
+    case 'yes_no':
+      return <div className="structured-answer">{renderButtons(['Yes', 'No'])}</div>;
+
+    case 'single_choice':
+      return (
+        <div className="structured-answer answer-options">
+          {(question.options || []).map(option => (
+            <label key={option} className="answer-option">
+              <input
+                type="radio"
+                name={name}
+                checked={value === option}
+                onChange={() => onChange(option)}
+                disabled={disabled}
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'multi_choice': {
+      const selected = parseMultiChoice(value);
+      const toggle = (option: string) => {
+        const next = selected.includes(option)
+          ? selected.filter(item => item !== option)
+          : (question.options || []).filter(item => item === option || selected.includes(item));
+        onChange(encodeMultiChoice(next));
+      };
+      return (
+        <div className="structured-answer answer-options">
+          {(question.options || []).map(option => (
+            <label key={option} className="answer-option">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() => toggle(option)}
+                disabled={disabled}
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+          <span className="help-text">Select all that apply</span>
+        </div>
+      );
+    }
+
+    case 'date_range': {
+      const dates = parseDateRange(value);
+      const stillThere = dates.to === null;
+      return (
+        <div className="structured-answer answer-date-range">
+          <label>
+            <span>From</span>
+            <input
+              type="month"
+              value={dates.from}
+              onChange={(e) => onChange(encodeDateRange({ ...dates, from: e.target.value }))}
+              disabled={disabled}
+            />
+          </label>
+          <label>
+            <span>To</span>
+            <input
+              type="month"
+              value={dates.to || ''}
+              min={dates.from || undefined}
+              onChange={(e) => onChange(encodeDateRange({ ...dates, to: e.target.value }))}
+              disabled={disabled || stillThere}
+            />
+          </label>
+          <label className="answer-option">
+            <input
+              type="checkbox"
+              checked={stillThere}
+              onChange={(e) => onChange(encodeDateRange({ ...dates, to: e.target.checked ? null : '' }))}
+              disabled={disabled}
+            />
+            <span>Still works there</span>
+          </label>
+        </div>
+      );
+    }
+
+    case 'matrix': {
+      const ratings = parseMatrix(value);
+      const rate = (row: string, rating: number) => onChange(encodeMatrix({ ...ratings, [row]: rating }));
+      return (
+        <div className="structured-answer">
+          <table className="answer-matrix">
+            <thead>
+              <tr>
+                <th />
+                {range(scaleMax).map(rating => <th key={rating}>{rating}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {(question.rows || []).map(row => (
+                <tr key={row}>
+                  <th scope="row">{row}</th>
+                  {range(scaleMax).map(rating => (
+                    <td key={rating}>
+                      <input
+                        type="radio"
+                        name={`${name}_${row}`}
+                        aria-label={`${row}: ${rating}`}
+                        checked={ratings[row] === rating}
+                        onChange={() => rate(row, rating)}
+                        disabled={disabled}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <span className="help-text">1 = poor, {scaleMax} = excellent</span>
+        </div>
+      );
+    }
+
+    case 'numeric':
+      return (
+        <div className="structured-answer answer-numeric">
+          <input
+            type="number"
+            inputMode="decimal"
+            value={value}
+            min={question.min}
+            max={question.max}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+          />
+          {question.unit && <span className="answer-unit">{question.unit}</span>}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default StructuredAnswerInput;
@@ -1,12 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { QuestionLibrary, QuestionTemplate } from './QuestionLibrary';
-
-interface Question {
+import { useApi, ConditionOperator, QuestionCondition, QuestionConfig, QuestionRule, QuestionType, TemplatePayload } from './api';
+import {
+  OPERATOR_LABELS,
+  RELATIONSHIP_SOURCE,
+  describeRule,
+  operatorNeedsValue,
+  operatorsFor,
+  possibleValues,
+  removeConditionsOn,
+  ruleProblems,
+} from './branching';
+import { RELATIONSHIP_TYPES } from './nominations';
+import { TemplatePreview } from './TemplatePreview';
+import { ChangeNoteInput, TemplateVersionNotice } from './TemplateVersionNotice';
+import {
+  MAX_SCALE_MAX,
+  MIN_SCALE_MAX,
+  QUESTION_TYPES,
+  cleanConfig,
+  configError,
+  configForType,
+  generateQuestionId,
+  isQuestionType,
+  pickConfig,
+} from './questionTypes';
+
+interface Question extends QuestionConfig {
   id: string;
   text: string;
   required: boolean;
-  type: 'text' | 'textarea' | 'scale';
+  type: QuestionType;
   category?: string; // Track the category/source of the question
+  rule?: QuestionRule;
 }
 
 interface TemplateBuilderProps {
@@ -27,6 +53,11 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [showQuestionLibrary, setShowQuestionLibrary] = useState(false);
   const [insertAtIndex, setInsertAtIndex] = useState<number | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  // Editing a template that requests already use saves a new version instead of changing theirs
+  const [inUse, setInUse] = useState<{ usageCount: number; version: number } | null>(null);
+  const [changeNote, setChangeNote] = useState('');
+  const api = useApi(apiUrl);
 
   useEffect(() => {
     if (templateId) {
@@ -42,24 +73,24 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
 
     try {
       setLoading(true);
-      const response = await fetch(`${apiUrl}/templates/${templateId}?user_id=${userId}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch template');
-      }
-
-      const data = await response.json();
+      const data = await api.templates.get(templateId, userId);
       const template = data.template;
 
       setTemplateName(template.name);
       setTemplateDescription(template.description || '');
-      setQuestions(template.schema_json.fields.map((f: any) => ({
-        id: f.id,
-        text: f.text,
-        required: f.required,
-        type: f.type || 'text',
-        category: f.category || 'Custom'
-      })));
+      setInUse(template.usage_count > 0 ? { usageCount: template.usage_count, version: template.version || 1 } : null);
+      setQuestions(template.schema_json.fields.map((f) => {
+        const type = isQuestionType(f.type) ? f.type : 'text';
+        return {
+          id: f.id,
+          text: f.text,
+          required: f.required,
+          type,
+          category: f.category || 'Custom',
+          rule: f.rule,
+          ...pickConfig(type, f)
+        };
+      }));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load template');
     } finally {
@@ -67,10 +98,6 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
     }
   };
 
-  const generateQuestionId = () => {
-    return `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  };
-
   const addQuestion = (atIndex?: number) => {
     const newQuestion: Question = {
       id: generateQuestionId(),
@@ -95,7 +122,8 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
       text: questionTemplate.text,
       required: questionTemplate.required,
       type: questionTemplate.type,
-      category: questionTemplate.category // Preserve the category from library
+      category: questionTemplate.category, // Preserve the category from library
+      ...pickConfig(questionTemplate.type, questionTemplate)
     };
     
     if (insertAtIndex !== null) {
@@ -125,12 +153,68 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
     setQuestions(updated);
   };
 
+  const changeQuestionType = (index: number, type: QuestionType) => {
+    const { id, text, required, category, rule } = questions[index];
+    const updated = [...questions];
+    updated[index] = { id, text, required, category, rule, type, ...configForType(type, questions[index]) };
+    setQuestions(updated);
+  };
+
+  const updateListItem = (index: number, field: 'options' | 'rows', itemIndex: number, value: string) => {
+    const items = [...(questions[index][field] || [])];
+    items[itemIndex] = value;
+    updateQuestion(index, field, items);
+  };
+
+  const addListItem = (index: number, field: 'options' | 'rows') => {
+    updateQuestion(index, field, [...(questions[index][field] || []), '']);
+  };
+
+  const removeListItem = (index: number, field: 'options' | 'rows', itemIndex: number) => {
+    updateQuestion(index, field, (questions[index][field] || []).filter((_, i) => i !== itemIndex));
+  };
+
   const deleteQuestion = (index: number) => {
     if (questions.length === 1) {
       setError('Template must have at least one question');
       return;
     }
-    setQuestions(questions.filter((_, i) => i !== index));
+    // Rules that depended on this question lose those conditions rather than pointing at nothing
+    setQuestions(removeConditionsOn(questions.filter((_, i) => i !== index), questions[index].id));
+  };
+
+  const newCondition = (source: Question | null): QuestionCondition => ({
+    source: source ? source.id : RELATIONSHIP_SOURCE,
+    operator: operatorsFor(source)[0],
+    value: source ? possibleValues(source)?.[0] ?? '' : RELATIONSHIP_TYPES[0],
+  });
+
+  const addRule = (index: number) => {
+    updateQuestion(index, 'rule', {
+      action: 'show',
+      match: 'all',
+      conditions: [newCondition(index > 0 ? questions[index - 1] : null)],
+    });
+  };
+
+  const updateRule = (index: number, changes: Partial<QuestionRule>) => {
+    updateQuestion(index, 'rule', { ...questions[index].rule!, ...changes });
+  };
+
+  const updateCondition = (index: number, conditionIndex: number, condition: QuestionCondition) => {
+    const conditions = [...questions[index].rule!.conditions];
+    conditions[conditionIndex] = condition;
+    updateRule(index, { conditions });
+  };
+
+  const changeConditionSource = (index: number, conditionIndex: number, sourceId: string) => {
+    const source = sourceId === RELATIONSHIP_SOURCE ? null : questions.find(q => q.id === sourceId) || null;
+    updateCondition(index, conditionIndex, newCondition(source));
+  };
+
+  const removeCondition = (index: number, conditionIndex: number) => {
+    const conditions = questions[index].rule!.conditions.filter((_, i) => i !== conditionIndex);
+    updateQuestion(index, 'rule', conditions.length > 0 ? { ...questions[index].rule!, conditions } : undefined);
   };
 
   const moveQuestion = (fromIndex: number, toIndex: number) => {
@@ -186,6 +270,29 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
       return false;
     }
 
+    const misconfigured = questions.findIndex(q => q.text.trim() && configError(q.type, q));
+    if (misconfigured !== -1) {
+      const question = questions[misconfigured];
+      setError(`Question ${misconfigured + 1}: ${configError(question.type, question)}`);
+      return false;
+    }
+
+    const problems = ruleProblems(questions);
+    const withRuleProblem = questions.findIndex(q => problems[q.id]);
+    if (withRuleProblem !== -1) {
+      setError(`Question ${withRuleProblem + 1}: ${problems[questions[withRuleProblem].id][0]}`);
+      return false;
+    }
+
+    // Blank questions are dropped on save, so rules can't depend on them
+    const dependsOnBlank = questions.findIndex(q =>
+      q.text.trim() && q.rule?.conditions.some(c => questions.some(other => other.id === c.source && !other.text.trim()))
+    );
+    if (dependsOnBlank !== -1) {
+      setError(`Question ${dependsOnBlank + 1}: A rule depends on a question with no text`);
+      return false;
+    }
+
     // Check for duplicate question IDs
     const ids = questions.map(q => q.id);
     const uniqueIds = new Set(ids);
@@ -219,42 +326,26 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
           text: q.text,
           required: q.required,
           type: q.type,
-          category: q.category || 'Custom'
+          category: q.category || 'Custom',
+          ...cleanConfig(q.type, q),
+          ...(q.rule && q.rule.conditions.length > 0 ? { rule: q.rule } : {})
         }))
       };
 
-      const payload = {
+      const payload: TemplatePayload = {
         user_id: userId,
         name: templateName,
         description: templateDescription,
         type: 'chat',
         category: 'custom',
-        schema_json
+        schema_json,
+        change_note: changeNote.trim() || undefined
       };
 
-      let response;
-      if (templateId) {
-        // Update existing template
-        response = await fetch(`${apiUrl}/templates/${templateId}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload)
-        });
-      } else {
-        // Create new template
-        response = await fetch(`${apiUrl}/templates`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload)
-        });
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to save template');
-      }
+      const data = templateId
+        ? await api.templates.update(templateId, payload) // Update existing template
+        : await api.templates.create(payload); // Create new template
 
-      const data = await response.json();
       onSave(data.template.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save template');
@@ -263,6 +354,261 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
     }
   };
 
+  const renderListEditor = (question: Question, index: number, field: 'options' | 'rows', itemLabel: string) => (
+    <div className="config-list">
+      {(question[field] || []).map((item, itemIndex) => (
+        <div key={itemIndex} className="config-list-item">
+          <input
+            type="text"
+            value={item}
+            onChange={(e) => updateListItem(index, field, itemIndex, e.target.value)}
+            placeholder={`${itemLabel} ${itemIndex + 1}`}
+            maxLength={100}
+          />
+          <button
+            type="button"
+            onClick={() => removeListItem(index, field, itemIndex)}
+            className="btn-remove"
+            aria-label={`Remove ${itemLabel.toLowerCase()}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button type="button" onClick={() => addListItem(index, field)} className="btn-link">
+        + Add {itemLabel.toLowerCase()}
+      </button>
+    </div>
+  );
+
+  const renderScaleSelect = (question: Question, index: number) => (
+    <label className="inline-label">
+      Scale: 1 to{' '}
+      <select
+        value={question.scale_max}
+        onChange={(e) => updateQuestion(index, 'scale_max', Number(e.target.value))}
+        className="type-select"
+      >
+        {Array.from({ length: MAX_SCALE_MAX - MIN_SCALE_MAX + 1 }, (_, i) => MIN_SCALE_MAX + i).map(max => (
+          <option key={max} value={max}>{max}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const parseBound = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  /** Per-type answer settings under the type picker */
+  const renderConfig = (question: Question, index: number) => {
+    let settings: React.ReactNode = null;
+
+    switch (question.type) {
+      case 'scale':
+        settings = renderScaleSelect(question, index);
+        break;
+      case 'single_choice':
+      case 'multi_choice':
+        settings = (
+          <>
+            <label className="inline-label">Options</label>
+            {renderListEditor(question, index, 'options', 'Option')}
+          </>
+        );
+        break;
+      case 'matrix':
+        settings = (
+          <>
+            <label className="inline-label">Competencies to rate</label>
+            {renderListEditor(question, index, 'rows', 'Competency')}
+            {renderScaleSelect(question, index)}
+          </>
+        );
+        break;
+      case 'numeric':
+        settings = (
+          <div className="config-numeric">
+            <label className="inline-label">
+              Min
+              <input
+                type="number"
+                value={question.min ?? ''}
+                onChange={(e) => updateQuestion(index, 'min', parseBound(e.target.value))}
+              />
+            </label>
+            <label className="inline-label">
+              Max
+              <input
+                type="number"
+                value={question.max ?? ''}
+                onChange={(e) => updateQuestion(index, 'max', parseBound(e.target.value))}
+              />
+            </label>
+            <label className="inline-label">
+              Unit
+              <input
+                type="text"
+                value={question.unit || ''}
+                onChange={(e) => updateQuestion(index, 'unit', e.target.value)}
+                placeholder="e.g. NZD, people"
+                maxLength={20}
+              />
+            </label>
+          </div>
+        );
+        break;
+      case 'date_range':
+        settings = (
+          <span className="help-text">Referees pick a start and end month, or tick that the candidate still works there.</span>
+        );
+        break;
+      default:
+        return null;
+    }
+
+    const problem = configError(question.type, question);
+    return (
+      <div className="question-config">
+        {settings}
+        {problem && <span className="question-config-error">{problem}</span>}
+      </div>
+    );
+  };
+
+  const ruleIssues = ruleProblems(questions);
+
+  const renderConditionValue = (index: number, condition: QuestionCondition, conditionIndex: number) => {
+    if (!operatorNeedsValue(condition.operator)) return null;
+    const setValue = (value: string) => updateCondition(index, conditionIndex, { ...condition, value });
+
+    if (condition.source === RELATIONSHIP_SOURCE) {
+      return (
+        <input
+          type="text"
+          list="builder-relationships"
+          value={condition.value || ''}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="e.g. Colleague"
+        />
+      );
+    }
+
+    const source = questions.find(q => q.id === condition.source);
+    const values = source ? possibleValues(source) : null;
+    if (values) {
+      return (
+        <select value={condition.value || ''} onChange={(e) => setValue(e.target.value)}>
+          {!values.includes(condition.value || '') && <option value={condition.value || ''}>{condition.value || 'Choose...'}</option>}
+          {values.map(value => <option key={value} value={value}>{value}</option>)}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={source?.type === 'numeric' || source?.type === 'scale' ? 'number' : 'text'}
+        value={condition.value || ''}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Value"
+      />
+    );
+  };
+
+  /** Visual show/skip rule editor under each question */
+  const renderRule = (question: Question, index: number) => {
+    const rule = question.rule;
+    if (!rule) {
+      return (
+        <div className="question-rule-add">
+          <button type="button" onClick={() => addRule(index)} className="btn-link">
+            + Add show/skip rule
+          </button>
+        </div>
+      );
+    }
+
+    const earlier = questions.slice(0, index);
+    const problems = ruleIssues[question.id] || [];
+
+    return (
+      <div className={`question-rule ${problems.length > 0 ? 'has-problems' : ''}`}>
+        <div className="question-rule-header">
+          <select
+            value={rule.action}
+            onChange={(e) => updateRule(index, { action: e.target.value as QuestionRule['action'] })}
+          >
+            <option value="show">Only ask this question if</option>
+            <option value="skip">Skip this question if</option>
+          </select>
+          <select
+            value={rule.match}
+            onChange={(e) => updateRule(index, { match: e.target.value as QuestionRule['match'] })}
+          >
+            <option value="all">all of these are true</option>
+            <option value="any">any of these are true</option>
+          </select>
+          <button type="button" onClick={() => updateQuestion(index, 'rule', undefined)} className="btn-link btn-link-danger">
+            Remove rule
+          </button>
+        </div>
+
+        {rule.conditions.map((condition, conditionIndex) => {
+          const source = condition.source === RELATIONSHIP_SOURCE
+            ? null
+            : questions.find(q => q.id === condition.source) || null;
+          const listed = condition.source === RELATIONSHIP_SOURCE || earlier.some(q => q.id === condition.source);
+          return (
+            <div key={conditionIndex} className="question-rule-condition">
+              <select
+                value={condition.source}
+                onChange={(e) => changeConditionSource(index, conditionIndex, e.target.value)}
+              >
+                <option value={RELATIONSHIP_SOURCE}>Referee's relationship</option>
+                {earlier.map((q, i) => (
+                  <option key={q.id} value={q.id}>Q{i + 1}: {q.text.trim().slice(0, 50) || 'Untitled'}</option>
+                ))}
+                {!listed && (
+                  <option value={condition.source}>
+                    {source ? `Q${questions.indexOf(source) + 1} (asked later)` : 'Deleted question'}
+                  </option>
+                )}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, conditionIndex, { ...condition, operator: e.target.value as ConditionOperator })}
+              >
+                {operatorsFor(source).map(operator => (
+                  <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                ))}
+              </select>
+              {renderConditionValue(index, condition, conditionIndex)}
+              <button
+                type="button"
+                onClick={() => removeCondition(index, conditionIndex)}
+                className="btn-remove"
+                aria-label="Remove condition"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={() => updateRule(index, { conditions: [...rule.conditions, newCondition(index > 0 ? questions[index - 1] : null)] })}
+          className="btn-link"
+        >
+          + Add condition
+        </button>
+
+        {rule.conditions.length > 0 && <span className="help-text">{describeRule(rule, questions)}</span>}
+        {problems.map(problem => (
+          <span key={problem} className="question-config-error">{problem}</span>
+        ))}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="template-builder loading">
@@ -281,6 +627,8 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
         <p>Build your own custom reference check template with the questions you need</p>
       </div>
 
+      {inUse && <TemplateVersionNotice usageCount={inUse.usageCount} version={inUse.version} />}
+
       {error && (
         <div className="error-banner">
           <span>❌ {error}</span>
@@ -318,11 +666,22 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
             />
             <span className="help-text">{templateDescription.length}/300 characters</span>
           </div>
+
+          {inUse && <ChangeNoteInput value={changeNote} onChange={setChangeNote} />}
         </section>
 
         {/* Questions Section */}
         <section className="builder-section">
-          <h3>Questions ({questions.length}/20)</h3>
+          <div className="questions-section-header">
+            <h3>Questions ({questions.length}/20)</h3>
+            <button type="button" onClick={() => setShowPreview(true)} className="btn-secondary">
+              👁 Preview Flow
+            </button>
+          </div>
+
+          <datalist id="builder-relationships">
+            {RELATIONSHIP_TYPES.map(type => <option key={type} value={type} />)}
+          </datalist>
 
           <div className="questions-list">
             {questions.map((question, index) => (
@@ -390,12 +749,12 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
                     <label className="inline-label">Answer Type</label>
                     <select
                       value={question.type}
-                      onChange={(e) => updateQuestion(index, 'type', e.target.value)}
+                      onChange={(e) => changeQuestionType(index, e.target.value as QuestionType)}
                       className="type-select"
                     >
-                      <option value="text">Short Text</option>
-                      <option value="textarea">Long Text (Paragraph)</option>
-                      <option value="scale">Rating Scale (1-5)</option>
+                      {QUESTION_TYPES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
                     </select>
 
                     <label className="checkbox-label">
@@ -407,6 +766,9 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
                       <span>Required Question</span>
                     </label>
                   </div>
+
+                  {renderConfig(question, index)}
+                  {renderRule(question, index)}
                 </div>
               </div>
             ))}
@@ -450,6 +812,11 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
             <li className={questions.every(q => q.text.trim()) ? 'valid' : 'invalid'}>
               {questions.every(q => q.text.trim()) ? '✓' : '○'} All questions have text
             </li>
+            {questions.some(q => q.rule) && (
+              <li className={Object.keys(ruleIssues).length === 0 ? 'valid' : 'invalid'}>
+                {Object.keys(ruleIssues).length === 0 ? '✓' : '○'} Show/skip rules are valid
+              </li>
+            )}
           </ul>
         </section>
       </div>
@@ -460,10 +827,17 @@ export function TemplateBuilder({ apiUrl, userId, templateId, onSave, onCancel }
           Cancel
         </button>
         <button onClick={handleSave} className="btn-primary" disabled={saving}>
-          {saving ? 'Saving...' : templateId ? 'Update Template' : 'Create Template'}
+          {saving ? 'Saving...' : inUse ? `Save as Version ${inUse.version + 1}` : templateId ? 'Update Template' : 'Create Template'}
         </button>
       </div>
 
+      {showPreview && (
+        <TemplatePreview
+          questions={questions.filter(q => q.text.trim())}
+          onClose={() => setShowPreview(false)}
+        />
+      )}
+
       {/* Question Library Modal */}
       {showQuestionLibrary && (
         <QuestionLibrary
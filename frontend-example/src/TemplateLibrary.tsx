@@ -1,44 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ConfirmDialog } from './ConfirmDialog';
-
-interface Question {
-  id: string;
-  text: string;
-  required: boolean;
-  type?: string;
-}
-
-interface TemplateSchema {
-  title: string;
-  description: string;
-  type: string;
-  fields: Question[];
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  is_global: boolean;
-  organization_id: string | null;
-  category: string;
-  schema_json: TemplateSchema;
-  usage_count: number;
-  created_at: string;
-}
+import { useToast } from './FeedbackContext';
+import { useCurrentUser } from './AuthContext';
+import { useApi, QuestionType, Template, TemplateFilter } from './api';
+import { describeRule } from './branching';
+import { downloadBlob } from './csv';
+import { QUESTION_TYPES, configForType, questionTypeBadge } from './questionTypes';
+import { RefereeSandbox } from './RefereeSandbox';
+import { PortableTemplate, parseTemplateFile, templateFileName, toTemplateFile } from './templateFile';
+import { TemplateVersionHistory } from './TemplateVersionHistory';
+import { ChangeNoteInput, TemplateVersionNotice } from './TemplateVersionNotice';
 
 interface TemplateLibraryProps {
   apiUrl: string;
-  userId: string;
   onSelectTemplate: (templateId: string, templateName: string) => void;
   onCreateNew: () => void;
+  onEditTemplate?: (templateId: string) => void; // Open a template in the builder; saving an in-use one creates a new version
 }
 
-export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew }: TemplateLibraryProps) {
+export function TemplateLibrary({ apiUrl, onSelectTemplate, onCreateNew, onEditTemplate }: TemplateLibraryProps) {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const toast = useToast();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
-  const [filter, setFilter] = useState<'all' | 'global' | 'organization'>('all');
+  const [filter, setFilter] = useState<TemplateFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const [showPreview, setShowPreview] = useState(false);
@@ -48,6 +35,15 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
   const [isEditing, setIsEditing] = useState(false);
   const [editedTemplate, setEditedTemplate] = useState<Template | null>(null);
   const [saving, setSaving] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
+  const [historyTemplate, setHistoryTemplate] = useState<Template | null>(null);
+  const [sandboxTemplate, setSandboxTemplate] = useState<Template | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const [importConflict, setImportConflict] = useState<{ template: PortableTemplate; existing: Template } | null>(null);
+  const [importName, setImportName] = useState('');
+  const [importNameError, setImportNameError] = useState('');
 
   useEffect(() => {
     fetchTemplates();
@@ -58,22 +54,11 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
       setLoading(true);
       setError('');
       
-      const params = new URLSearchParams({
+      const data = await api.templates.list({
         user_id: userId,
-        type: filter
+        type: filter,
+        search: searchTerm || undefined,
       });
-
-      if (searchTerm) {
-        params.append('search', searchTerm);
-      }
-
-      const response = await fetch(`${apiUrl}/templates?${params}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch templates');
-      }
-
-      const data = await response.json();
       setTemplates(data.templates || []);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
@@ -90,7 +75,8 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
   const handlePreview = (template: Template) => {
     setSelectedTemplate(template);
     setEditedTemplate(JSON.parse(JSON.stringify(template))); // Deep copy
-    setIsEditing(template.usage_count === 0 && !template.is_global);
+    setIsEditing(!template.is_global);
+    setChangeNote('');
     setShowPreview(true);
   };
 
@@ -99,14 +85,7 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
 
     try {
       setDeleting(true);
-      const response = await fetch(`${apiUrl}/templates/${deleteConfirm.templateId}?user_id=${userId}`, {
-        method: 'DELETE'
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete template');
-      }
+      await api.templates.remove(deleteConfirm.templateId, userId);
 
       // Refresh templates
       await fetchTemplates();
@@ -159,27 +138,19 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
       setSaving(true);
       setError('');
 
-      const response = await fetch(`${apiUrl}/templates/${editedTemplate.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          name: editedTemplate.name,
-          description: editedTemplate.description,
-          category: editedTemplate.category,
-          schema_json: editedTemplate.schema_json
-        })
+      const result = await api.templates.update(editedTemplate.id, {
+        user_id: userId,
+        name: editedTemplate.name,
+        description: editedTemplate.description,
+        category: editedTemplate.category,
+        schema_json: editedTemplate.schema_json,
+        change_note: changeNote.trim() || undefined
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to save template');
-      }
-
       // Show success message
-      alert('✅ Template updated successfully!');
+      toast.success(result.template.version && editedTemplate.usage_count > 0
+        ? `Saved as version ${result.template.version}. Requests already sent keep their version.`
+        : 'Template updated successfully!');
 
       // Refresh templates and close modal
       await fetchTemplates();
@@ -187,7 +158,7 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to save template';
       setError(errorMessage);
-      alert(`❌ Error: ${errorMessage}`);
+      toast.error(errorMessage, { title: 'Template not saved' });
     } finally {
       setSaving(false);
     }
@@ -198,24 +169,11 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
 
     try {
       setError('');
-      const response = await fetch(`${apiUrl}/templates/${template.id}/clone`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          new_name: `${template.name} (Copy)`
-        })
+      const result = await api.templates.clone(template.id, {
+        user_id: userId,
+        new_name: `${template.name} (Copy)`
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to duplicate template');
-      }
-
-      const result = await response.json();
-
       // Show success message
       alert(`✅ Template duplicated successfully!\n\nNew template: "${result.template.name}"`);
 
@@ -228,6 +186,104 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
     }
   };
 
+  const handleExport = (template: Template) => {
+    setOpenMenuId(null);
+    downloadBlob(new Blob([toTemplateFile(template)], { type: 'application/json' }), templateFileName(template));
+  };
+
+  const createImported = async (template: PortableTemplate, name: string) => {
+    const result = await api.templates.create({
+      user_id: userId,
+      name,
+      description: template.description,
+      type: 'chat',
+      category: template.category,
+      schema_json: { ...template.schema_json, title: name },
+    });
+    toast.success(`New template: "${result.template.name}"`, { title: 'Template imported' });
+  };
+
+  // Search matches partial names, so look for an exact match among the results
+  const findTemplateNamed = async (name: string) => {
+    const { templates: matches } = await api.templates.list({ user_id: userId, type: 'all', search: name });
+    return (matches || []).find(t => t.name.trim().toLowerCase() === name.trim().toLowerCase());
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Let the same file be picked again after fixing it
+    if (!file) return;
+
+    const parsed = parseTemplateFile(await file.text());
+    if (!parsed.ok) {
+      setImportErrors({ fileName: file.name, errors: parsed.errors });
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setError('');
+
+      const existing = await findTemplateNamed(parsed.template.name);
+      if (existing) {
+        setImportName(`${parsed.template.name} (Imported)`);
+        setImportNameError('');
+        setImportConflict({ template: parsed.template, existing });
+        return;
+      }
+
+      await createImported(parsed.template, parsed.template.name);
+      await fetchTemplates();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import template';
+      setError(errorMessage);
+      toast.error(errorMessage, { title: 'Import failed' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleResolveConflict = async (mode: 'replace' | 'keep_both') => {
+    if (!importConflict) return;
+    const { template, existing } = importConflict;
+
+    try {
+      setImporting(true);
+      setError('');
+
+      if (mode === 'replace') {
+        const result = await api.templates.update(existing.id, {
+          user_id: userId,
+          name: existing.name,
+          description: template.description,
+          category: template.category,
+          schema_json: { ...template.schema_json, title: existing.name },
+          change_note: 'Replaced from an imported file',
+        });
+        toast.success(result.template.version && existing.usage_count > 0
+          ? `"${existing.name}" replaced, saved as version ${result.template.version}. Requests already sent keep their version.`
+          : `"${existing.name}" replaced with the imported template.`);
+      } else {
+        // The suggested name can be taken too, so check the chosen one before creating
+        const taken = await findTemplateNamed(importName);
+        if (taken) {
+          setImportNameError(`There's already a template called "${taken.name}". Please choose another name.`);
+          return;
+        }
+        await createImported(template, importName.trim());
+      }
+
+      setImportConflict(null);
+      await fetchTemplates();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import template';
+      setError(errorMessage);
+      toast.error(errorMessage, { title: 'Import failed' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const getCategoryBadgeClass = (category: string) => {
     const categoryMap: Record<string, string> = {
       general: 'badge-general',
@@ -311,6 +367,21 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
           </button>
         </div>
 
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="btn-import-template"
+          disabled={importing}
+        >
+          {importing ? 'Importing...' : '⬆ Import Template'}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImportFile}
+          style={{ display: 'none' }}
+        />
+
         {onCreateNew && (
           <button onClick={onCreateNew} className="btn-create-template">
             + Create Custom Template
@@ -349,7 +420,10 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
               <tr key={template.id} className="template-list-row">
                 <td>
                   <div className="template-name-cell-stacked">
-                    <strong>{template.name}</strong>
+                    <strong>
+                      {template.name}
+                      {template.version && <span className="template-version-tag">v{template.version}</span>}
+                    </strong>
                     {template.is_global && (
                       <span className="badge badge-global" style={{ fontSize: '10px', marginTop: '4px' }}>
                         Global
@@ -374,10 +448,7 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                   <strong>{template.schema_json.fields.length}</strong>
                 </td>
                 <td style={{ textAlign: 'center' }}>
-                  <strong>
-                    {template.usage_count}
-                    {template.usage_count >= 1 && ' 🔒'}
-                  </strong>
+                  <strong>{template.usage_count}</strong>
                 </td>
                 <td style={{ textAlign: 'center' }}>
                   <div style={{ position: 'relative', display: 'inline-block' }}>
@@ -414,8 +485,43 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                           }}
                           style={{ color: '#8b5cf6' }}
                         >
-                          {template.usage_count === 0 ? '✏️ Preview/Edit' : '👁️ Preview'}
+                          {template.is_global ? '👁️ Preview' : '✏️ Preview/Edit'}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setOpenMenuId(null);
+                            setSandboxTemplate(template);
+                          }}
+                          style={{ color: '#8b5cf6' }}
+                        >
+                          🧪 Preview as Referee
+                        </button>
+                        <button
+                          onClick={() => {
+                            setOpenMenuId(null);
+                            setHistoryTemplate(template);
+                          }}
+                          style={{ color: '#8b5cf6' }}
+                        >
+                          🕘 Version History
+                        </button>
+                        <button
+                          onClick={() => handleExport(template)}
+                          style={{ color: '#2563eb' }}
+                        >
+                          ⬇ Export JSON
                         </button>
+                        {onEditTemplate && !template.is_global && (
+                          <button
+                            onClick={() => {
+                              setOpenMenuId(null);
+                              onEditTemplate(template.id);
+                            }}
+                            style={{ color: '#8b5cf6' }}
+                          >
+                            🛠️ Open in Builder
+                          </button>
+                        )}
                         {!template.is_global && (
                           <button
                             onClick={() => {
@@ -450,6 +556,10 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
               {isEditing ? (
                 <>
                   {/* Edit Mode */}
+                  {selectedTemplate.usage_count > 0 && (
+                    <TemplateVersionNotice usageCount={selectedTemplate.usage_count} version={selectedTemplate.version || 1} />
+                  )}
+
                   <div style={{ marginBottom: '20px' }}>
                     <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>Template Name *</label>
                     <input
@@ -487,6 +597,8 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                     </select>
                   </div>
 
+                  {selectedTemplate.usage_count > 0 && <ChangeNoteInput value={changeNote} onChange={setChangeNote} />}
+
                   <div className="preview-questions">
                     <h3>Questions ({editedTemplate.schema_json.fields.length})</h3>
 
@@ -527,7 +639,9 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                                 value={field.type || 'text'}
                                 onChange={(e) => {
                                   const newFields = [...editedTemplate.schema_json.fields];
-                                  newFields[index] = { ...field, type: e.target.value };
+                                  const type = e.target.value as QuestionType;
+                                  const { id, text, required, category, rule } = field;
+                                  newFields[index] = { id, text, required, category, rule, type, ...configForType(type, field) };
                                   setEditedTemplate({
                                     ...editedTemplate,
                                     schema_json: { ...editedTemplate.schema_json, fields: newFields }
@@ -535,9 +649,9 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                                 }}
                                 style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ccc' }}
                               >
-                                <option value="text">Short Answer</option>
-                                <option value="textarea">Long Answer</option>
-                                <option value="scale">Rating Scale</option>
+                                {QUESTION_TYPES.map(option => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
                               </select>
                             </div>
                           </div>
@@ -556,9 +670,10 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                     {selectedTemplate.is_global && (
                       <span className="badge badge-global">Global Template</span>
                     )}
-                    {selectedTemplate.usage_count >= 1 && (
-                      <span className="badge badge-locked" style={{ background: '#dc2626', color: 'white' }}>
-                        🔒 Locked ({selectedTemplate.usage_count} completed)
+                    {selectedTemplate.version && (
+                      <span className="badge badge-type">
+                        Version {selectedTemplate.version}
+                        {selectedTemplate.usage_count > 0 && ` · used by ${selectedTemplate.usage_count}`}
                       </span>
                     )}
                   </div>
@@ -578,10 +693,14 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                               <span className="badge badge-required">Required</span>
                             )}
                             <span className="badge badge-type">
-                              {field.type === 'textarea' ? 'Long Answer' :
-                               field.type === 'scale' ? 'Rating Scale' : 'Short Answer'}
+                              {questionTypeBadge(field)}
                             </span>
                           </div>
+                          {field.rule && field.rule.conditions.length > 0 && (
+                            <p className="question-rule-summary">
+                              {describeRule(field.rule, selectedTemplate.schema_json.fields)}
+                            </p>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -603,17 +722,130 @@ export function TemplateLibrary({ apiUrl, userId, onSelectTemplate, onCreateNew
                   {saving ? 'Saving...' : 'Save Changes'}
                 </button>
               ) : (
-                <button
-                  onClick={() => {
-                    handleClosePreview();
-                    handleSelectTemplate(selectedTemplate);
+                <>
+                  <button
+                    onClick={() => {
+                      handleClosePreview();
+                      setSandboxTemplate(selectedTemplate);
+                    }}
+                    className="btn-secondary"
+                  >
+                    🧪 Preview as Referee
+                  </button>
+                  <button
+                    onClick={() => {
+                      handleClosePreview();
+                      handleSelectTemplate(selectedTemplate);
+                    }}
+                    className="btn-primary"
+                  >
+                    Use This Template
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {historyTemplate && (
+        <TemplateVersionHistory
+          apiUrl={apiUrl}
+          template={historyTemplate}
+          onClose={() => setHistoryTemplate(null)}
+          onRestored={() => {
+            setHistoryTemplate(null);
+            fetchTemplates();
+          }}
+        />
+      )}
+
+      {sandboxTemplate && (
+        <RefereeSandbox
+          apiUrl={apiUrl}
+          template={sandboxTemplate}
+          onClose={() => setSandboxTemplate(null)}
+        />
+      )}
+
+      {/* Import Errors */}
+      {importErrors && (
+        <div className="modal-overlay" onClick={() => setImportErrors(null)}>
+          <div className="modal-content template-import-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Couldn't Import Template</h2>
+              <button onClick={() => setImportErrors(null)} className="btn-close">×</button>
+            </div>
+            <div className="modal-body">
+              <p><strong>{importErrors.fileName}</strong> has {importErrors.errors.length === 1 ? 'a problem' : 'some problems'}:</p>
+              <ul className="import-errors">
+                {importErrors.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+            <div className="modal-footer">
+              <button onClick={() => setImportErrors(null)} className="btn-primary">OK</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Import Name Conflict */}
+      {importConflict && (
+        <div className="modal-overlay" onClick={() => !importing && setImportConflict(null)}>
+          <div className="modal-content template-import-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Template Already Exists</h2>
+              <button onClick={() => setImportConflict(null)} className="btn-close" disabled={importing}>×</button>
+            </div>
+            <div className="modal-body">
+              <p>
+                There's already a template called <strong>"{importConflict.existing.name}"</strong>
+                {importConflict.existing.is_global ? ' in the pre-built library' : ''}.
+              </p>
+              <div className="import-choice">
+                <h4>Keep both</h4>
+                <p className="help-text">Import as a new template with a different name.</p>
+                <input
+                  type="text"
+                  value={importName}
+                  onChange={(e) => {
+                    setImportName(e.target.value);
+                    setImportNameError('');
                   }}
+                  maxLength={100}
+                  className={importNameError ? 'error' : ''}
+                />
+                {importNameError && <span className="error-message">{importNameError}</span>}
+                <button
+                  onClick={() => handleResolveConflict('keep_both')}
                   className="btn-primary"
+                  disabled={importing || !importName.trim()}
                 >
-                  Use This Template
+                  Import as New Template
                 </button>
+              </div>
+              {!importConflict.existing.is_global && (
+                <div className="import-choice">
+                  <h4>Replace existing</h4>
+                  <p className="help-text">
+                    Overwrite "{importConflict.existing.name}" with the imported questions.
+                    {importConflict.existing.usage_count > 0 && ' It is in use, so this is saved as a new version and requests already sent keep theirs.'}
+                  </p>
+                  <button
+                    onClick={() => handleResolveConflict('replace')}
+                    className="btn-danger"
+                    disabled={importing}
+                  >
+                    Replace Template
+                  </button>
+                </div>
               )}
             </div>
+            <div className="modal-footer">
+              <button onClick={() => setImportConflict(null)} className="btn-secondary" disabled={importing}>
+                Cancel Import
+              </button>
+            </div>
           </div>
         </div>
       )}
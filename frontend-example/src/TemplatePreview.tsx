@@ -0,0 +1,96 @@
+/**
+ * TemplatePreview Component
+ * Try a template's branching rules before saving: answer as a referee would
+ * and see which questions are asked and which are skipped
+ */
+
+import React, { useState } from 'react';
+import { BranchingQuestion, describeRule, visibleQuestions } from './branching';
+import { RELATIONSHIP_TYPES } from './nominations';
+import { isStructuredType } from './questionTypes';
+import { StructuredAnswerInput } from './StructuredAnswerInput';
+
+interface TemplatePreviewProps {
+  questions: BranchingQuestion[];
+  onClose: () => void;
+}
+
+export const TemplatePreview: React.FC<TemplatePreviewProps> = ({ questions, onClose }) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [relationship, setRelationship] = useState(RELATIONSHIP_TYPES[0]);
+
+  const visibleIds = new Set(visibleQuestions(questions, answers, { relationship }).map(question => question.id));
+  const askedCount = visibleIds.size;
+
+  const setAnswer = (id: string, value: string) => setAnswers(prev => ({ ...prev, [id]: value }));
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content template-preview" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Preview Question Flow</h2>
+          <button onClick={onClose} className="btn-close">✕</button>
+        </div>
+
+        <div className="preview-controls">
+          <label htmlFor="preview_relationship">Referee's relationship</label>
+          <input
+            id="preview_relationship"
+            list="preview-relationships"
+            value={relationship}
+            onChange={(e) => setRelationship(e.target.value)}
+          />
+          <datalist id="preview-relationships">
+            {RELATIONSHIP_TYPES.map(type => <option key={type} value={type} />)}
+          </datalist>
+          <button type="button" onClick={() => setAnswers({})} className="btn-link">
+            Clear answers
+          </button>
+          <span className="help-text">
+            {askedCount} of {questions.length} question{questions.length === 1 ? '' : 's'} asked
+          </span>
+        </div>
+
+        <ol className="preview-flow">
+          {questions.map((question, index) => {
+            const asked = visibleIds.has(question.id);
+            return (
+              <li key={question.id} className={`preview-flow-item ${asked ? '' : 'skipped'}`}>
+                <div className="preview-flow-question">
+                  <strong>Q{index + 1}.</strong> {question.text.trim() || <em>Untitled question</em>}
+                  {!asked && <span className="preview-flow-skipped">Skipped</span>}
+                </div>
+                {question.rule && question.rule.conditions.length > 0 && (
+                  <div className="preview-flow-rule">{describeRule(question.rule, questions)}</div>
+                )}
+                {asked && (
+                  isStructuredType(question.type) ? (
+                    <StructuredAnswerInput
+                      question={question}
+                      value={answers[question.id] || ''}
+                      onChange={(value) => setAnswer(question.id, value)}
+                      name={`preview_${question.id}`}
+                    />
+                  ) : (
+                    <textarea
+                      value={answers[question.id] || ''}
+                      onChange={(e) => setAnswer(question.id, e.target.value)}
+                      rows={2}
+                      placeholder="Type an answer to test the rules..."
+                    />
+                  )
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="modal-actions">
+          <button onClick={onClose} className="btn-secondary">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePreview;
@@ -0,0 +1,232 @@
+/**
+ * TemplateVersionHistory Component
+ * Lists a template's saved versions with a question-level diff between
+ * them, and restores an older version as the new current one
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useApi, Template, TemplateVersion } from './api';
+import { useCurrentUser } from './AuthContext';
+import { useConfirm, useToast } from './FeedbackContext';
+import { FieldChangeKind, diffTemplateVersions } from './templateDiff';
+
+interface TemplateVersionHistoryProps {
+  apiUrl: string;
+  template: Template;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+type CompareWith = 'previous' | 'current';
+
+const CHANGE_LABELS: Record<FieldChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  moved: 'Moved',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-NZ', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'Pacific/Auckland',
+  });
+
+export const TemplateVersionHistory: React.FC<TemplateVersionHistoryProps> = ({
+  apiUrl,
+  template,
+  onClose,
+  onRestored,
+}) => {
+  const { id: userId } = useCurrentUser();
+  const api = useApi(apiUrl);
+  const confirm = useConfirm();
+  const toast = useToast();
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareWith>('previous');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api.templates.versions(template.id, userId)
+      .then(data => {
+        if (cancelled) return;
+        const sorted = [...(data.versions || [])].sort((a, b) => b.version - a.version);
+        setVersions(sorted);
+        setSelected(sorted[0]?.version ?? null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [template.id, userId, api]);
+
+  const current = versions[0];
+  const version = versions.find(v => v.version === selected) || null;
+  const previous = version ? versions.find(v => v.version < version.version) : undefined;
+  const isCurrent = !!version && version.version === current?.version;
+  const base = compareWith === 'current' && !isCurrent ? current : previous;
+  // Diff always reads old → new
+  const diff = version && base
+    ? base.version < version.version
+      ? diffTemplateVersions(base, version)
+      : diffTemplateVersions(version, base)
+    : null;
+
+  const handleRestore = async () => {
+    if (!version || !current) return;
+    const confirmed = await confirm({
+      title: `Restore version ${version.version}?`,
+      message: `Its questions will be saved as version ${current.version + 1} and used for new requests.\nRequests already sent keep the version they were created with.`,
+      confirmText: 'Restore',
+    });
+    if (!confirmed) return;
+
+    try {
+      setRestoring(true);
+      await api.templates.restoreVersion(template.id, version.version, { user_id: userId });
+      toast.success(`Version ${version.version} restored as version ${current.version + 1}`);
+      onRestored();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      toast.error(errorMessage, { title: 'Restore failed' });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderDiff = () => {
+    if (!version) return null;
+    if (!diff) {
+      return (
+        <p className="help-text">
+          First version, with {version.schema_json.fields.length} question{version.schema_json.fields.length === 1 ? '' : 's'}.
+        </p>
+      );
+    }
+
+    const [older, newer] = base!.version < version.version ? [base!, version] : [version, base!];
+    if (diff.details.length === 0 && diff.fields.length === 0) {
+      return <p className="help-text">No differences between version {older.version} and version {newer.version}.</p>;
+    }
+
+    return (
+      <>
+        <p className="help-text">
+          Changes from version {older.version} to version {newer.version}
+          {diff.unchangedCount > 0 && ` (${diff.unchangedCount} question${diff.unchangedCount === 1 ? '' : 's'} unchanged)`}
+        </p>
+        {diff.details.length > 0 && (
+          <ul className="version-diff-details">
+            {diff.details.map(detail => <li key={detail}>{detail}</li>)}
+          </ul>
+        )}
+        <ul className="version-diff">
+          {diff.fields.map(change => (
+            <li key={`${change.kind}_${change.field.id}`} className={`version-diff-item diff-${change.kind}`}>
+              <div className="version-diff-question">
+                <span className="version-diff-kind">{CHANGE_LABELS[change.kind]}</span>
+                <strong>Q{change.position + 1}.</strong> {change.field.text}
+              </div>
+              {change.details.length > 0 && (
+                <ul>
+                  {change.details.map(detail => <li key={detail}>{detail}</li>)}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </>
+    );
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content template-history-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Version History: {template.name}</h2>
+          <button onClick={onClose} className="btn-close">×</button>
+        </div>
+
+        <div className="modal-body">
+          {loading ? (
+            <p>Loading versions...</p>
+          ) : error ? (
+            <div className="alert alert-error">{error}</div>
+          ) : versions.length === 0 ? (
+            <p className="help-text">This template hasn't been changed since it was created.</p>
+          ) : (
+            <div className="template-history">
+              <ol className="version-list">
+                {versions.map(v => (
+                  <li key={v.version}>
+                    <button
+                      type="button"
+                      onClick={() => setSelected(v.version)}
+                      className={`version-list-item ${v.version === selected ? 'selected' : ''}`}
+                    >
+                      <span className="version-list-title">
+                        Version {v.version}
+                        {v.version === current.version && <span className="badge badge-current">Current</span>}
+                      </span>
+                      <span className="version-list-meta">
+                        {formatDate(v.created_at)}{v.created_by_name ? ` · ${v.created_by_name}` : ''}
+                      </span>
+                      {v.change_note && <span className="version-list-note">{v.change_note}</span>}
+                      <span className="version-list-meta">
+                        {v.usage_count > 0 ? `${v.usage_count} request${v.usage_count === 1 ? '' : 's'} pinned` : 'Not used by any requests'}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              <div className="version-detail">
+                {version && (
+                  <>
+                    <div className="version-detail-header">
+                      <h3>Version {version.version}</h3>
+                      {!isCurrent && (
+                        <select value={compareWith} onChange={(e) => setCompareWith(e.target.value as CompareWith)}>
+                          <option value="previous">Compare with previous version</option>
+                          <option value="current">Compare with current version</option>
+                        </select>
+                      )}
+                    </div>
+                    {renderDiff()}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="btn-secondary">Close</button>
+          {version && !isCurrent && !template.is_global && (
+            <button onClick={handleRestore} className="btn-primary" disabled={restoring}>
+              {restoring ? 'Restoring...' : `Restore Version ${version.version}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVersionHistory;
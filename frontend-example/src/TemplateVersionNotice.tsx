@@ -0,0 +1,43 @@
+/**
+ * TemplateVersionNotice Component
+ * Tells the editor of an in-use template that saving creates a new version,
+ * and collects the optional note shown in the version history
+ */
+
+import React from 'react';
+
+export const MAX_CHANGE_NOTE_LENGTH = 200;
+
+interface TemplateVersionNoticeProps {
+  usageCount: number;
+  version: number;
+}
+
+export const TemplateVersionNotice: React.FC<TemplateVersionNoticeProps> = ({ usageCount, version }) => (
+  <div className="template-version-notice">
+    Used by {usageCount} request{usageCount === 1 ? '' : 's'}. Saving creates
+    version {version + 1}; those requests stay on version {version}.
+  </div>
+);
+
+interface ChangeNoteInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const ChangeNoteInput: React.FC<ChangeNoteInputProps> = ({ value, onChange }) => (
+  <div className="form-group">
+    <label htmlFor="template_change_note">What changed? (optional)</label>
+    <input
+      type="text"
+      id="template_change_note"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="e.g. Reworded the leadership questions"
+      maxLength={MAX_CHANGE_NOTE_LENGTH}
+    />
+    <span className="help-text">Shown in the template's version history</span>
+  </div>
+);
+
+export default TemplateVersionNotice;
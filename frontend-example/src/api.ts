@@ -0,0 +1,1244 @@
+/**
+ * API Client
+ * Typed endpoint functions shared by every component
+ *
+ * All requests go through apiRequest(), which handles the base URL, query
+ * strings, JSON bodies, bearer tokens (via authFetch), timeouts, retries,
+ * cache busting and turning `{ error }` payloads into ApiError instances.
+ * Components create a client with useApi(apiUrl) and call e.g.
+ * `api.requests.get(id)` instead of building URLs by hand.
+ */
+
+import { createContext, useContext, useMemo } from 'react';
+import { authFetch } from './AuthContext';
+
+// ==================== //
+// Shared types
+// ==================== //
+
+export interface ReferenceRequest {
+  id: string;
+  user_id?: string;
+  template_id?: string;
+  template_version?: number | null;
+  candidate_first_name: string;
+  candidate_last_name: string;
+  candidate_email: string;
+  candidate_phone_number: string | null;
+  position_applied_for: string;
+  notes?: string | null;
+  status: string;
+  created_at: string;
+  authorization_status?: string;
+  authorization_method?: string;
+  authorization_completed_at?: string;
+  authorization_sent_at?: string;
+  authorization_signature?: string;
+  /** Per-request reminder cadence; null or missing uses the org default from settings */
+  reminder_schedule?: ReminderSchedule | null;
+  /** How referees are invited once the candidate authorizes */
+  invitation_channel?: ContactChannel;
+  /** Whether the candidate nominates referees after signing; null or missing means they don't */
+  referee_nomination?: RefereeNominationSettings | null;
+  /** Set when the request has been archived (soft-deleted) */
+  archived_at?: string | null;
+  /** When an archived request will be permanently deleted */
+  purge_after?: string | null;
+}
+
+/** Channel choice for invitations and reminders */
+export type ContactChannel = 'email' | 'sms' | 'both';
+
+export type DeliveryChannel = 'email' | 'sms';
+
+export interface ChannelDelivery {
+  status: 'queued' | 'sent' | 'delivered' | 'failed' | 'bounced';
+  updated_at?: string | null;
+  error?: string | null;
+}
+
+/** Automatic reminder cadence for referees who have not yet responded */
+export interface ReminderSchedule {
+  enabled: boolean;
+  /** Days after the first invitation, e.g. [2, 4] */
+  days_after_invite: number[];
+  /** Send a final reminder this many days before the link expires; null for none */
+  final_days_before_expiry: number | null;
+}
+
+export interface Referee {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone?: string | null;
+  phone_number?: string | null;
+  relationship: string;
+  company?: string | null;
+  status: string;
+  has_completed: boolean;
+  submitted_at: string | null;
+  last_contacted_at: string | null;
+  initial_sent_at: string | null;
+  consent_signature?: string | null;
+  consent_signed_at?: string | null;
+  consent_agreed?: boolean;
+  reminders_paused?: boolean;
+  /** When the next scheduled reminder goes out; null when none is due */
+  next_reminder_at?: string | null;
+  /** Latest delivery outcome per channel */
+  delivery?: Partial<Record<DeliveryChannel, ChannelDelivery>>;
+  /** Added by the candidate; status stays 'nominated' until a recruiter approves */
+  nominated_by_candidate?: boolean;
+}
+
+export interface OrganizationMember {
+  id: string;
+  email: string;
+  full_name: string;
+  role?: string;
+}
+
+export interface RequestSummary {
+  total_referees: number;
+  completed: number;
+  pending: number;
+}
+
+export interface RequestDetail {
+  request: ReferenceRequest;
+  referees: Referee[];
+  summary: RequestSummary;
+}
+
+export interface RequestWithReferees extends ReferenceRequest {
+  referees: Referee[];
+  summary: RequestSummary;
+}
+
+export type RequestSortColumn = 'start_date' | 'candidate' | 'position' | 'created' | 'last_contact';
+
+export interface RequestListQuery {
+  user_id: string;
+  status?: string;
+  /** Matches candidate and referee names */
+  search?: string;
+  sort?: RequestSortColumn;
+  direction?: 'asc' | 'desc';
+  page?: number;
+  page_size?: number;
+  /** Hide draft_candidate requests that were never sent for authorization */
+  exclude_unsent_drafts?: boolean;
+  /** List archived requests instead of active ones */
+  archived?: boolean;
+  /** 'not_sent' | 'pending' | 'authorized' (online or verbal) */
+  authorization_status?: string;
+  /** Requests with at least one referee in this status, e.g. 'bounced' */
+  referee_status?: string;
+  /** Inclusive YYYY-MM-DD bounds on created_at */
+  created_from?: string;
+  created_to?: string;
+  /** Inclusive YYYY-MM-DD bounds on the start date (authorization sent) */
+  start_from?: string;
+  start_to?: string;
+  /** Partial match on position_applied_for */
+  position?: string;
+  owner_id?: string;
+  /** Requests with a referee whose scheduled reminder is past due */
+  overdue?: boolean;
+}
+
+/** A named request list view; query is the list's URL query string */
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  created_at?: string;
+}
+
+export interface Pagination {
+  page: number;
+  page_size: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface PaginatedRequests {
+  requests: RequestWithReferees[];
+  pagination: Pagination;
+}
+
+export type RequestEventType =
+  | 'referee.started'
+  | 'referee.consent_signed'
+  | 'referee.completed'
+  | 'referee.declined'
+  | 'referee.bounced'
+  | 'candidate.authorized'
+  | 'candidate.nominated_referees';
+
+/** Lifecycle change pushed by /events/stream or returned by /events polling */
+export interface RequestEvent {
+  id: string;
+  type: RequestEventType;
+  request_id: string;
+  referee_id?: string | null;
+  occurred_at: string;
+  data?: {
+    authorization_method?: string;
+    [key: string]: unknown;
+  };
+}
+
+export type NotificationType =
+  | 'candidate.authorized'
+  | 'referee.consent_signed'
+  | 'referee.declined'
+  | 'referee.completed'
+  | 'referee.bounced'
+  | 'candidate.nominated_referees';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  request_id: string;
+  referee_id?: string | null;
+  candidate_name: string;
+  referee_name?: string | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+export interface NewReferenceRequest {
+  user_id: string;
+  template_id: string;
+  /** Version the recruiter picked; defaults to the template's current version */
+  template_version?: number;
+  candidate_first_name: string;
+  candidate_last_name: string;
+  candidate_email: string;
+  candidate_phone_number: string;
+  position_applied_for: string;
+  notes: string;
+}
+
+export interface NewReferee {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone_number: string;
+  relationship: string;
+  company: string;
+}
+
+/** An active request whose candidate matches a lookup by email or phone */
+export interface CandidateMatch {
+  request_id: string;
+  candidate_first_name: string;
+  candidate_last_name: string;
+  candidate_email: string;
+  candidate_phone_number: string | null;
+  position_applied_for: string;
+  created_at: string;
+}
+
+export interface RefereeUpdate {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string | null;
+  relationship: string;
+  company: string | null;
+}
+
+export interface CandidateUpdate {
+  candidate_first_name: string;
+  candidate_last_name: string;
+  candidate_email: string;
+  candidate_phone_number: string | null;
+  position_applied_for: string;
+}
+
+export interface SendSummary {
+  sent?: number;
+  failed?: number;
+  total?: number;
+  sms_sent?: number;
+  sms_failed?: number;
+}
+
+export interface InvitationOptions {
+  invitation_channel?: ContactChannel;
+  /** SMS body with {referee_first_name} / {reference_link} placeholders */
+  sms_message?: string;
+  referee_nomination?: RefereeNominationSettings | null;
+}
+
+/** Per-request rules for referees the candidate nominates after signing */
+export interface RefereeNominationSettings {
+  enabled: boolean;
+  min_referees: number;
+  /** Each type must be covered by at least one nominated referee, e.g. 'Direct Manager' */
+  required_relationships: string[];
+}
+
+export type ContactAttemptKind = 'authorization' | 'invitation' | 'reminder';
+
+/** One outbound message to the candidate (referee_id null) or a referee */
+export interface ContactAttempt {
+  id: string;
+  kind: ContactAttemptKind;
+  channel: string;
+  referee_id?: string | null;
+  sent_at: string;
+  /** Delivery outcome when known, e.g. 'sent', 'delivered', 'bounced', 'failed' */
+  status?: string | null;
+  sent_by?: string | null;
+}
+
+export interface RequestNote {
+  id: string;
+  body: string;
+  created_at: string;
+  author_name?: string | null;
+}
+
+export interface RequestTimeline {
+  contact_attempts: ContactAttempt[];
+  notes: RequestNote[];
+}
+
+export interface UserSettings {
+  contact_name: string;
+  contact_mobile: string;
+  contact_email: string;
+  company_name: string;
+  link_expiry_days: number;
+  email_template?: string;
+  sms_template?: string;
+  /** Org default reminder cadence used by requests without their own */
+  reminder_schedule?: ReminderSchedule | null;
+}
+
+export type QuestionType =
+  | 'text'
+  | 'textarea'
+  | 'scale'
+  | 'yes_no'
+  | 'single_choice'
+  | 'multi_choice'
+  | 'date_range'
+  | 'matrix'
+  | 'numeric';
+
+/** Answer settings for the structured question types; each type uses only its own */
+export interface QuestionConfig {
+  /** single_choice, multi_choice */
+  options?: string[];
+  /** matrix: the competencies rated on a shared scale */
+  rows?: string[];
+  /** scale, matrix: ratings run 1..scale_max (default 5) */
+  scale_max?: number;
+  /** numeric */
+  min?: number;
+  max?: number;
+  unit?: string;
+}
+
+export type ConditionOperator =
+  | 'is'
+  | 'is_not'
+  | 'includes'
+  | 'excludes'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'answered'
+  | 'not_answered';
+
+export interface QuestionCondition {
+  /** Id of an earlier question, or '@relationship' for the referee's relationship to the candidate */
+  source: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+/** Show/skip rule on a template question; questions without one are always asked */
+export interface QuestionRule {
+  action: 'show' | 'skip';
+  match: 'all' | 'any';
+  conditions: QuestionCondition[];
+}
+
+export interface TemplateField extends QuestionConfig {
+  id: string;
+  text: string;
+  required: boolean;
+  type?: QuestionType;
+  category?: string;
+  rule?: QuestionRule;
+}
+
+export interface TemplateSchema {
+  title: string;
+  description: string;
+  type: string;
+  fields: TemplateField[];
+}
+
+export interface Template {
+  id: string;
+  name: string;
+  description: string;
+  is_global: boolean;
+  organization_id: string | null;
+  category: string;
+  schema_json: TemplateSchema;
+  usage_count: number;
+  created_at: string;
+  /** Current version; saving changes to a template creates the next one */
+  version?: number;
+}
+
+/** A saved snapshot of a template; requests stay pinned to the version they were created with */
+export interface TemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  name: string;
+  description: string;
+  category: string;
+  schema_json: TemplateSchema;
+  change_note: string | null;
+  created_at: string;
+  created_by_name?: string | null;
+  /** Requests pinned to this version */
+  usage_count: number;
+}
+
+export interface TemplatePayload {
+  user_id: string;
+  name: string;
+  description: string;
+  type?: string;
+  category: string;
+  schema_json: TemplateSchema;
+  /** Shown in the version history */
+  change_note?: string;
+}
+
+export type TemplateFilter = 'all' | 'global' | 'organization';
+
+/** Answer given to a follow-up question the chat asked after the original one */
+export interface FollowUpAnswer {
+  original_answer: string;
+  follow_up_answer: string;
+}
+
+export type SubmittedAnswer = string | FollowUpAnswer;
+
+export interface ReferenceReportData {
+  candidate: {
+    first_name: string;
+    last_name: string;
+    email: string;
+    phone_number: string | null;
+    position_applied_for: string;
+  };
+  referee: {
+    first_name: string;
+    last_name: string;
+    email: string;
+    phone_number: string | null;
+    relationship: string;
+    company: string | null;
+  };
+  submission: {
+    id: string;
+    submitted_at: string;
+    answers: Record<string, SubmittedAnswer>;
+    version?: number;
+    is_original?: boolean;
+    edited_at?: string | null;
+    edited_by?: string | null;
+    edit_notes?: string | null;
+  };
+  template: {
+    name: string;
+    questions: TemplateField[];
+    /** The version this request is pinned to, which may be older than the template's current one */
+    version?: number;
+  };
+}
+
+/** Data for the professional reference report page */
+export interface ProfessionalReportData {
+  candidate: {
+    name: string;
+    organization?: string;
+    role?: string;
+    email: string;
+    phone?: string;
+    employmentStart: string;
+    employmentEnd: string;
+  };
+  referee: {
+    name: string;
+    organization?: string;
+    role?: string;
+    email: string;
+    phone?: string;
+    submissionDate: string;
+    relationship: string;
+  };
+  responses: Array<QuestionConfig & {
+    question: string;
+    answer: string;
+    type?: string; // Question type, for formatting structured answers
+    rating?: number; // 1-7 scale
+    wordCount?: number;
+  }>;
+  metadata?: {
+    turnaroundTimeHours?: number;
+    totalWordCount?: number;
+    sentimentScore?: number; // 0-100
+  };
+}
+
+export interface ResponseVersion {
+  id: string;
+  version: number;
+  is_original: boolean;
+  answers_json: Record<string, string>;
+  edited_at: string | null;
+  edited_by: string | null;
+  edit_notes: string | null;
+  submitted_at: string;
+  users?: {
+    full_name: string;
+    email: string;
+  };
+}
+
+export type ConversationStatus =
+  | 'in_progress'
+  | 'needs_clarification'
+  | 'in_review'
+  | 'ready_for_review'
+  | 'completed';
+
+export interface ConversationQuestion extends QuestionConfig {
+  index: number;
+  /** The template field id */
+  key: string;
+  text: string;
+  type: string;
+  required: boolean;
+  rule?: QuestionRule;
+}
+
+export interface ConversationProgress {
+  answered: number;
+  total: number;
+  percent: number;
+}
+
+export interface ConversationInit {
+  session_id: string;
+  status: ConversationStatus;
+  progress: ConversationProgress;
+  question?: ConversationQuestion | null;
+  /** Answers given so far, keyed by question key, for evaluating branching rules after a reload */
+  answers?: Record<string, string>;
+  context?: {
+    candidate_name?: string;
+    position?: string;
+    relationship?: string;
+  };
+}
+
+export interface ConversationAnswerResult {
+  status: ConversationStatus;
+  progress: ConversationProgress;
+  message?: string;
+  same_question?: ConversationQuestion;
+  next_question?: ConversationQuestion | null;
+}
+
+export interface ConversationTurn {
+  type: string;
+  content: string;
+  created_at: string;
+}
+
+export interface ReviewItem {
+  answer_id: string;
+  question_index: number;
+  question_key: string;
+  question_text: string;
+  answer_type: string;
+  answer_config?: QuestionConfig;
+  raw_answer: string;
+  polished_answer: string;
+  word_count: number;
+  answered_at: string;
+  conversation_turns?: ConversationTurn[];
+}
+
+export interface ConversationReview {
+  review_items: ReviewItem[];
+  status: string;
+  total_questions: number;
+}
+
+export interface PublicConversationQuestion {
+  id: string;
+  text: string;
+}
+
+export interface PublicConversationInit {
+  context?: {
+    candidate_first_name?: string;
+    candidate_last_name?: string;
+  };
+  progress?: {
+    answered?: number;
+    total?: number;
+  };
+  message_queue?: PublicConversationQuestion[];
+}
+
+export interface CandidateAuthorizationDetails {
+  ok: boolean;
+  candidate_name: string;
+  position: string;
+  /** Set when the candidate has already signed and is returning to nominate referees */
+  authorized?: boolean;
+  referee_nomination?: RefereeNominationSettings | null;
+  /** Referees the candidate has already nominated on this request */
+  nominated_count?: number;
+}
+
+export interface RefereeAuthorizationDetails {
+  referee_name: string;
+  candidate_name: string;
+  position: string;
+  recruiting_company: string;
+  contact_email: string;
+}
+
+// ==================== //
+// Request core
+// ==================== //
+
+/**
+ * Normalised API failure. `status` is 0 for network errors and timeouts;
+ * `data` holds the parsed error payload (e.g. `hint`, `traceback`) when present.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+export const isNetworkError = (err: unknown): boolean =>
+  err instanceof ApiError && err.status === 0;
+
+const payloadText = (data: unknown, key: string): string | undefined => {
+  const value = typeof data === 'object' && data !== null ? (data as Record<string, unknown>)[key] : undefined;
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+/** A text field from the error payload, e.g. `errorDetail(err, 'hint')` */
+export const errorDetail = (err: ApiError, key: string): string | undefined => payloadText(err.data, key);
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  /** Send the session bearer token (admin endpoints). Public pages pass false. */
+  auth?: boolean;
+  /** Total attempts; GET requests default to 3, everything else to 1 */
+  attempts?: number;
+  /** Base delay between attempts, multiplied by the attempt number */
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  /** Append a `_t` timestamp and bypass the HTTP cache */
+  cacheBust?: boolean;
+  /** Fallback error message when the server does not provide one */
+  errorMessage?: string;
+  responseType?: 'json' | 'blob';
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const buildUrl = (apiUrl: string, path: string, query?: Record<string, QueryValue>, cacheBust?: boolean) => {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.append(key, String(value));
+    }
+  });
+  if (cacheBust) {
+    params.append('_t', String(Date.now()));
+  }
+  const queryString = params.toString();
+  return `${apiUrl}${path}${queryString ? `?${queryString}` : ''}`;
+};
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: text };
+  }
+};
+
+export async function apiRequest<T>(apiUrl: string, path: string, options: RequestOptions = {}): Promise<T> {
+  const {
+    method = 'GET',
+    query,
+    body,
+    auth = true,
+    attempts = method === 'GET' ? 3 : 1,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    cacheBust = false,
+    errorMessage = 'Request failed',
+    responseType = 'json',
+  } = options;
+
+  let lastError: ApiError = new ApiError(errorMessage, 0);
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      await sleep(retryDelayMs * attempt);
+    }
+
+    const url = buildUrl(apiUrl, path, query, cacheBust);
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (cacheBust) {
+      headers['Cache-Control'] = 'no-cache';
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const init: RequestInit = {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+      cache: cacheBust ? 'no-store' : undefined,
+    };
+
+    let response: Response;
+    try {
+      response = await (auth ? authFetch(url, init) : fetch(url, init));
+    } catch (err) {
+      const timedOut = err instanceof DOMException && err.name === 'AbortError';
+      lastError = new ApiError(
+        timedOut
+          ? 'The server took too long to respond. Please try again.'
+          : 'Network error. Please check your connection and try again.',
+        0
+      );
+      continue;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.ok) {
+      if (responseType === 'blob') {
+        return (await response.blob()) as T;
+      }
+      return (await parseBody(response)) as T;
+    }
+
+    const data = await parseBody(response);
+    lastError = new ApiError(
+      payloadText(data, 'error') || payloadText(data, 'message') || errorMessage,
+      response.status,
+      data
+    );
+
+    // Only server errors are worth retrying
+    if (response.status < 500) {
+      break;
+    }
+  }
+
+  throw lastError;
+}
+
+// ==================== //
+// Endpoints
+// ==================== //
+
+export const createApiClient = (apiUrl: string) => {
+  const request = <T>(path: string, options?: RequestOptions) => apiRequest<T>(apiUrl, path, options);
+
+  return {
+    requests: {
+      list: (params: { user_id: string; status?: string }) =>
+        request<{ requests: ReferenceRequest[] }>('/requests', {
+          query: params,
+          cacheBust: true,
+          errorMessage: 'Failed to fetch requests',
+        }),
+      // One call for a page of requests with referees and summaries embedded
+      listWithReferees: (params: RequestListQuery) =>
+        request<PaginatedRequests>('/requests/with-referees', {
+          query: { ...params },
+          cacheBust: true,
+          errorMessage: 'Failed to fetch requests',
+        }),
+      get: (requestId: string) =>
+        request<RequestDetail>(`/requests/${requestId}`, {
+          cacheBust: true,
+          errorMessage: 'Failed to fetch request',
+        }),
+      create: (data: NewReferenceRequest) =>
+        request<{ request: ReferenceRequest }>('/requests', {
+          method: 'POST',
+          body: data,
+          errorMessage: 'Failed to create request',
+        }),
+      // Archived requests are not matched
+      findCandidates: (query: { emails?: string[]; phones?: string[] }) =>
+        request<{ matches: CandidateMatch[] }>('/requests/candidate-matches', {
+          method: 'POST',
+          body: query,
+          errorMessage: 'Failed to check for existing candidates',
+        }),
+      update: (requestId: string, data: CandidateUpdate) =>
+        request<{ request?: ReferenceRequest }>(`/requests/${requestId}`, {
+          method: 'PATCH',
+          body: data,
+          errorMessage: 'Failed to update candidate',
+        }),
+      // Permanent; only admins may purge, and the request must be archived first
+      purge: (requestId: string) =>
+        request<void>(`/requests/${requestId}`, {
+          method: 'DELETE',
+          errorMessage: 'Failed to permanently delete request',
+        }),
+      send: (requestId: string, options: InvitationOptions = {}) =>
+        request<{ summary?: SendSummary }>(`/requests/${requestId}/send`, {
+          method: 'POST',
+          body: options,
+          errorMessage: 'Failed to send invitations',
+        }),
+      // Invitation options are stored and used when the candidate authorizes; `summary` reports
+      // any referee invitations sent straight away (e.g. the candidate had already authorized)
+      sendAuthorization: (requestId: string, options: InvitationOptions = {}) =>
+        request<{ ok?: boolean; summary?: SendSummary }>(`/requests/${requestId}/send-authorization`, {
+          method: 'POST',
+          body: options,
+          errorMessage: 'Failed to send authorization',
+        }),
+      markVerbalAuthorization: (requestId: string) =>
+        request<{ ok?: boolean }>(`/requests/${requestId}/verbal-authorization`, {
+          method: 'POST',
+          body: {},
+          errorMessage: 'Failed to mark as verbally authorized',
+        }),
+      archive: (requestId: string) =>
+        request<{ request?: ReferenceRequest }>(`/requests/${requestId}/archive`, {
+          method: 'POST',
+          body: {},
+          errorMessage: 'Failed to archive request',
+        }),
+      restore: (requestId: string) =>
+        request<{ request?: ReferenceRequest }>(`/requests/${requestId}/restore`, {
+          method: 'POST',
+          body: {},
+          errorMessage: 'Failed to restore request',
+        }),
+      reassign: (requestId: string, ownerId: string) =>
+        request<{ request?: ReferenceRequest }>(`/requests/${requestId}/owner`, {
+          method: 'PATCH',
+          body: { user_id: ownerId },
+          errorMessage: 'Failed to reassign request',
+        }),
+      // Pass null to fall back to the org default schedule
+      setReminderSchedule: (requestId: string, schedule: ReminderSchedule | null) =>
+        request<{ request?: ReferenceRequest }>(`/requests/${requestId}/reminder-schedule`, {
+          method: 'PUT',
+          body: { reminder_schedule: schedule },
+          errorMessage: 'Failed to save reminder schedule',
+        }),
+      // Contact log (authorization emails, invitations, reminders) and recruiter notes
+      timeline: (requestId: string) =>
+        request<RequestTimeline>(`/requests/${requestId}/timeline`, {
+          cacheBust: true,
+          errorMessage: 'Failed to fetch candidate timeline',
+        }),
+      addNote: (requestId: string, body: string) =>
+        request<{ note: RequestNote }>(`/requests/${requestId}/notes`, {
+          method: 'POST',
+          body: { body },
+          errorMessage: 'Failed to save note',
+        }),
+    },
+
+    referees: {
+      add: (requestId: string, referees: NewReferee[], sendImmediately = false) =>
+        request<{ contacts?: Referee[] }>(
+          sendImmediately ? `/requests/${requestId}/referees/send` : `/requests/${requestId}/referees`,
+          {
+            method: 'POST',
+            body: { referees },
+            errorMessage: 'Failed to add referees',
+          }
+        ),
+      get: (refereeId: string) =>
+        request<{ referee: Referee }>(`/referees/${refereeId}`, {
+          errorMessage: 'Failed to fetch referee',
+        }),
+      update: (refereeId: string, data: RefereeUpdate) =>
+        request<{ referee?: Referee }>(`/referees/${refereeId}`, {
+          method: 'PATCH',
+          body: data,
+          errorMessage: 'Failed to update referee',
+        }),
+      remind: (requestId: string, refereeId: string, channel: ContactChannel = 'email') =>
+        request<{ ok?: boolean }>(`/requests/${requestId}/referees/${refereeId}/remind`, {
+          method: 'POST',
+          body: { channel },
+          errorMessage: 'Failed to send reminder',
+        }),
+      // Approving a candidate-nominated referee sends their invitation
+      approveNomination: (requestId: string, refereeId: string) =>
+        request<{ referee?: Referee }>(`/requests/${requestId}/referees/${refereeId}/approve`, {
+          method: 'POST',
+          errorMessage: 'Failed to approve referee',
+        }),
+      rejectNomination: (requestId: string, refereeId: string) =>
+        request<{ ok?: boolean }>(`/requests/${requestId}/referees/${refereeId}/reject`, {
+          method: 'POST',
+          errorMessage: 'Failed to reject referee',
+        }),
+      // Sends a fresh invitation to the referee's current email, e.g. after fixing a bounce
+      resendInvitation: (requestId: string, refereeId: string) =>
+        request<{ referee?: Referee }>(`/requests/${requestId}/referees/${refereeId}/resend`, {
+          method: 'POST',
+          errorMessage: 'Failed to resend invitation',
+        }),
+      setRemindersPaused: (requestId: string, refereeId: string, paused: boolean) =>
+        request<{ referee?: Referee }>(`/requests/${requestId}/referees/${refereeId}/reminders`, {
+          method: 'PATCH',
+          body: { paused },
+          errorMessage: paused ? 'Failed to pause reminders' : 'Failed to resume reminders',
+        }),
+      phoneToken: (requestId: string, refereeId: string) =>
+        request<{ token: string }>(`/requests/${requestId}/referees/${refereeId}/phone-token`, {
+          method: 'POST',
+          body: {},
+          errorMessage: 'Failed to get reference token',
+        }),
+      exportCsv: () =>
+        request<Blob>('/referees/export', {
+          responseType: 'blob',
+          errorMessage: 'Failed to download referee report',
+        }),
+    },
+
+    templates: {
+      list: (params: { user_id: string; type: TemplateFilter; search?: string }) =>
+        request<{ templates: Template[] }>('/templates', {
+          query: params,
+          errorMessage: 'Failed to fetch templates',
+        }),
+      get: (templateId: string, userId: string) =>
+        request<{ template: Template }>(`/templates/${templateId}`, {
+          query: { user_id: userId },
+          errorMessage: 'Failed to fetch template',
+        }),
+      create: (data: TemplatePayload) =>
+        request<{ template: Template }>('/templates', {
+          method: 'POST',
+          body: data,
+          errorMessage: 'Failed to save template',
+        }),
+      update: (templateId: string, data: TemplatePayload) =>
+        request<{ template: Template }>(`/templates/${templateId}`, {
+          method: 'PUT',
+          body: data,
+          errorMessage: 'Failed to save template',
+        }),
+      remove: (templateId: string, userId: string) =>
+        request<void>(`/templates/${templateId}`, {
+          method: 'DELETE',
+          query: { user_id: userId },
+          errorMessage: 'Failed to delete template',
+        }),
+      clone: (templateId: string, data: { user_id: string; new_name: string }) =>
+        request<{ template: Template }>(`/templates/${templateId}/clone`, {
+          method: 'POST',
+          body: data,
+          errorMessage: 'Failed to duplicate template',
+        }),
+      versions: (templateId: string, userId: string) =>
+        request<{ versions: TemplateVersion[] }>(`/templates/${templateId}/versions`, {
+          query: { user_id: userId },
+          errorMessage: 'Failed to fetch version history',
+        }),
+      // Saves the old version's content as a new current version; history is never rewritten
+      restoreVersion: (templateId: string, version: number, data: { user_id: string }) =>
+        request<{ template: Template }>(`/templates/${templateId}/versions/${version}/restore`, {
+          method: 'POST',
+          body: data,
+          errorMessage: 'Failed to restore version',
+        }),
+    },
+
+    reports: {
+      reference: (requestId: string, refereeId: string) =>
+        request<{ data: ReferenceReportData }>(`/requests/${requestId}/referees/${refereeId}/report`, {
+          errorMessage: 'Failed to fetch reference data',
+        }),
+      professional: (requestId: string, refereeId: string) =>
+        request<ProfessionalReportData>(`/reports/${requestId}/referee/${refereeId}`, {
+          errorMessage: 'Failed to load report',
+        }),
+      versions: (responseId: string) =>
+        request<{ versions: ResponseVersion[] }>(`/responses/${responseId}/versions`, {
+          errorMessage: 'Failed to fetch versions',
+        }),
+      saveVersion: (
+        responseId: string,
+        data: { user_id: string; answers_json: Record<string, string>; edit_notes: string }
+      ) =>
+        request<{ version: ResponseVersion }>(`/responses/${responseId}/versions`, {
+          method: 'POST',
+          body: data,
+          errorMessage: 'Failed to save edited version',
+        }),
+    },
+
+    events: {
+      // Without `since` the server returns no events, only the current cursor
+      list: (params: { user_id: string; since?: string | null }) =>
+        request<{ events: RequestEvent[]; cursor: string | null }>('/events', {
+          query: params,
+          cacheBust: true,
+          attempts: 1,
+          errorMessage: 'Failed to fetch updates',
+        }),
+      // EventSource can't send headers, so the stream takes a short-lived single-use ticket instead of the session token
+      streamTicket: (userId: string) =>
+        request<{ ticket: string; expires_at?: string }>('/events/stream-ticket', {
+          method: 'POST',
+          body: { user_id: userId },
+          attempts: 1,
+          errorMessage: 'Failed to open live updates',
+        }),
+      streamUrl: (ticket: string) => `${apiUrl}/events/stream?${new URLSearchParams({ ticket })}`,
+    },
+
+    notifications: {
+      list: (params: { user_id: string; limit?: number }) =>
+        request<{ notifications: AppNotification[]; unread_count: number }>('/notifications', {
+          query: params,
+          cacheBust: true,
+          errorMessage: 'Failed to fetch notifications',
+        }),
+      markRead: (notificationId: string) =>
+        request<{ notification?: AppNotification }>(`/notifications/${notificationId}/read`, {
+          method: 'POST',
+          body: {},
+          errorMessage: 'Failed to update notification',
+        }),
+      markAllRead: (userId: string) =>
+        request<{ updated?: number }>('/notifications/read-all', {
+          method: 'POST',
+          body: { user_id: userId },
+          errorMessage: 'Failed to update notifications',
+        }),
+    },
+
+    organizations: {
+      members: (organizationId: string) =>
+        request<{ users: OrganizationMember[] }>(`/organizations/${organizationId}/users`, {
+          errorMessage: 'Failed to fetch team members',
+        }),
+    },
+
+    settings: {
+      get: (userId: string) =>
+        request<{ settings?: UserSettings }>(`/users/${userId}/settings`, {
+          errorMessage: 'Failed to fetch settings',
+        }),
+      save: (userId: string, settings: UserSettings) =>
+        request<{ settings?: UserSettings }>(`/users/${userId}/settings`, {
+          method: 'PUT',
+          body: settings,
+          errorMessage: 'Failed to save settings',
+        }),
+    },
+
+    savedViews: {
+      list: (userId: string) =>
+        request<{ views: SavedView[] }>(`/users/${userId}/saved-views`, {
+          errorMessage: 'Failed to fetch saved views',
+        }),
+      create: (userId: string, view: { name: string; query: string }) =>
+        request<{ view: SavedView }>(`/users/${userId}/saved-views`, {
+          method: 'POST',
+          body: view,
+          errorMessage: 'Failed to save view',
+        }),
+      remove: (userId: string, viewId: string) =>
+        request<void>(`/users/${userId}/saved-views/${viewId}`, {
+          method: 'DELETE',
+          errorMessage: 'Failed to delete view',
+        }),
+    },
+
+    // Referee-facing conversation; reachable without a session (also used for phone references)
+    conversation: {
+      init: (token: string) =>
+        request<ConversationInit>('/conversation/init', {
+          query: { token },
+          auth: false,
+          attempts: 1,
+          errorMessage: 'Failed to initialize session',
+        }),
+      answer: (data: { session_id: string; question_index: number; answer: string; skip_proofreading?: boolean }) =>
+        request<ConversationAnswerResult>('/conversation/answer', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to save answer',
+        }),
+      // Passes over a question whose branching rule hides it, without recording an answer
+      skip: (data: { session_id: string; question_index: number }) =>
+        request<ConversationAnswerResult>('/conversation/skip', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to skip question',
+        }),
+      review: (sessionId: string) =>
+        request<ConversationReview>(`/conversation/review/${sessionId}`, {
+          auth: false,
+          errorMessage: 'Failed to fetch review data',
+        }),
+      revise: (data: { answer_id: string; new_answer: string; revision_reason: string }) =>
+        request<{ ok?: boolean }>('/conversation/revise', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to save revision',
+        }),
+      complete: (sessionId: string) =>
+        request<{ ok?: boolean }>(`/conversation/complete/${sessionId}`, {
+          method: 'POST',
+          auth: false,
+          errorMessage: 'Failed to complete session',
+        }),
+    },
+
+    publicConversation: {
+      // Cold starts can take 10+ seconds, so allow a longer timeout and retry once the server is warm
+      init: (token: string) =>
+        request<PublicConversationInit>('/public/conversation/init', {
+          query: { token },
+          auth: false,
+          timeoutMs: 15000,
+          retryDelayMs: 2000,
+          errorMessage: 'Failed to initialize conversation',
+        }),
+      saveDraft: (data: { token: string; turn: { question_id: string; answer: string; timestamp: string } }) =>
+        request<{ next_question?: PublicConversationQuestion | null }>('/public/conversation/draft', {
+          method: 'PATCH',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to save response',
+        }),
+      submit: (token: string) =>
+        request<{ ok?: boolean }>('/public/conversation/submit', {
+          method: 'POST',
+          body: { token },
+          auth: false,
+          errorMessage: 'Failed to submit reference',
+        }),
+    },
+
+    publicAuthorization: {
+      getCandidate: (token: string) =>
+        request<CandidateAuthorizationDetails>('/public/authorization', {
+          query: { token },
+          auth: false,
+          errorMessage: 'Invalid or expired authorization link',
+        }),
+      submitCandidate: (data: { token: string; signature: string; agreed: boolean; user_agent: string }) =>
+        request<{ ok?: boolean }>('/public/authorization/submit', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to submit authorization',
+        }),
+      nominateReferees: (data: { token: string; referees: NewReferee[] }) =>
+        request<{ ok?: boolean }>('/public/authorization/referees', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to submit referees',
+        }),
+      getReferee: (token: string) =>
+        request<{ ok: boolean; data: RefereeAuthorizationDetails }>('/public/referee-authorization', {
+          query: { token },
+          auth: false,
+          errorMessage: 'Failed to load authorization form',
+        }),
+      submitReferee: (data: { token: string; signature: string; agreed: boolean; user_agent: string; signed_at: string }) =>
+        request<{ ok?: boolean }>('/public/referee-authorization/submit', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to submit authorization',
+        }),
+      declineReferee: (data: { token: string; user_agent: string; declined_at: string }) =>
+        request<{ ok?: boolean }>('/public/referee-authorization/decline', {
+          method: 'POST',
+          body: data,
+          auth: false,
+          errorMessage: 'Failed to record decline',
+        }),
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/**
+ * Replaces the client useApi returns for everything below it; the template
+ * sandbox uses this to run the referee flow without touching the server
+ */
+export const ApiClientContext = createContext<ApiClient | null>(null);
+
+/**
+ * Memoised client for a component's apiUrl prop
+ */
+export const useApi = (apiUrl: string): ApiClient => {
+  const override = useContext(ApiClientContext);
+  const client = useMemo(() => createApiClient(apiUrl), [apiUrl]);
+  return override || client;
+};
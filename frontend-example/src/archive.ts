@@ -0,0 +1,38 @@
+/**
+ * Archived Requests
+ * Retention and permission helpers for archived (soft-deleted) requests
+ *
+ * Archiving hides a request but keeps it recoverable. The server purges it
+ * once the retention period has passed; admins can purge sooner.
+ */
+
+import { AuthUser } from './AuthContext';
+import { ReferenceRequest } from './api';
+
+/** Used when the server doesn't send purge_after with an archived request */
+export const ARCHIVE_RETENTION_DAYS = 30;
+
+const PURGE_ROLES = ['admin', 'owner'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isArchived = (request: ReferenceRequest) => !!request.archived_at;
+
+export const canPurgeRequests = (user: AuthUser | null) => !!user?.role && PURGE_ROLES.includes(user.role);
+
+export const getPurgeDate = (request: ReferenceRequest): Date | null => {
+  if (request.purge_after) return new Date(request.purge_after);
+  if (!request.archived_at) return null;
+  return new Date(new Date(request.archived_at).getTime() + ARCHIVE_RETENTION_DAYS * DAY_MS);
+};
+
+/** Countdown shown on archived rows, e.g. "Permanently deleted in 12 days" */
+export const formatPurgeCountdown = (request: ReferenceRequest, now: Date = new Date()): string => {
+  const purgeDate = getPurgeDate(request);
+  if (!purgeDate) return '';
+
+  const days = Math.ceil((purgeDate.getTime() - now.getTime()) / DAY_MS);
+  if (days <= 0) return 'Due for permanent deletion';
+  if (days === 1) return 'Permanently deleted tomorrow';
+  return `Permanently deleted in ${days} days`;
+};
@@ -0,0 +1,346 @@
+/**
+ * Branching Rules
+ * Show/skip rules that make template questions depend on earlier answers or
+ * on the referee's relationship to the candidate
+ *
+ * Rules only look back: a condition refers to a question earlier in the
+ * template. A question hidden by its rule counts as unanswered, so rules that
+ * depend on it see an empty answer.
+ */
+
+import { ConditionOperator, QuestionCondition, QuestionRule } from './api';
+import { AnswerQuestion, DEFAULT_SCALE_MAX, parseMultiChoice, parseNumber } from './questionTypes';
+
+/** Condition source for the referee's relationship to the candidate */
+export const RELATIONSHIP_SOURCE = '@relationship';
+
+export interface BranchingContext {
+  relationship?: string;
+}
+
+/** What the rules need from a question; template fields and builder questions both fit */
+export type BranchingQuestion = AnswerQuestion & {
+  id: string;
+  text: string;
+  rule?: QuestionRule;
+};
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  is: 'is',
+  is_not: 'is not',
+  includes: 'includes',
+  excludes: 'does not include',
+  contains: 'contains',
+  greater_than: 'is more than',
+  less_than: 'is less than',
+  answered: 'is answered',
+  not_answered: 'is not answered',
+};
+
+export const operatorNeedsValue = (operator: ConditionOperator) =>
+  operator !== 'answered' && operator !== 'not_answered';
+
+const NUMERIC_OPERATORS: ConditionOperator[] = ['greater_than', 'less_than'];
+
+/** Operators that make sense for a source question's answer type; null means the referee's relationship */
+export const operatorsFor = (source: AnswerQuestion | null): ConditionOperator[] => {
+  if (!source) return ['is', 'is_not'];
+  switch (source.type) {
+    case 'yes_no':
+    case 'single_choice':
+      return ['is', 'is_not', 'answered', 'not_answered'];
+    case 'multi_choice':
+      return ['includes', 'excludes', 'answered', 'not_answered'];
+    case 'scale':
+    case 'numeric':
+      return ['is', 'greater_than', 'less_than', 'answered', 'not_answered'];
+    case 'date_range':
+    case 'matrix':
+      return ['answered', 'not_answered'];
+    default:
+      return ['contains', 'answered', 'not_answered'];
+  }
+};
+
+/** The answers a source question can give, when it has a fixed set */
+export const possibleValues = (source: AnswerQuestion | null): string[] | null => {
+  switch (source?.type) {
+    case 'yes_no':
+      return ['Yes', 'No'];
+    case 'single_choice':
+    case 'multi_choice':
+      return source.options || [];
+    case 'scale':
+      return Array.from({ length: source.scale_max || DEFAULT_SCALE_MAX }, (_, i) => String(i + 1));
+    default:
+      return null;
+  }
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const conditionHolds = (condition: QuestionCondition, answer: string): boolean => {
+  const value = condition.value || '';
+  const answered = answer.trim() !== '';
+
+  switch (condition.operator) {
+    case 'answered':
+      return answered;
+    case 'not_answered':
+      return !answered;
+    case 'is': {
+      const actual = parseNumber(answer);
+      const expected = parseNumber(value);
+      if (actual !== null && expected !== null) return actual === expected;
+      return answered && sameText(answer, value);
+    }
+    case 'is_not':
+      return !answered || !sameText(answer, value);
+    case 'includes':
+      return parseMultiChoice(answer).some(item => sameText(item, value));
+    case 'excludes':
+      return !parseMultiChoice(answer).some(item => sameText(item, value));
+    case 'contains':
+      return answered && answer.toLowerCase().includes(value.trim().toLowerCase());
+    case 'greater_than':
+    case 'less_than': {
+      const actual = parseNumber(answer);
+      const expected = parseNumber(value);
+      if (actual === null || expected === null) return false;
+      return condition.operator === 'greater_than' ? actual > expected : actual < expected;
+    }
+    default:
+      return false;
+  }
+};
+
+const sourceAnswer = (condition: QuestionCondition, answers: Record<string, string>, context: BranchingContext) =>
+  condition.source === RELATIONSHIP_SOURCE ? context.relationship || '' : answers[condition.source] || '';
+
+/** Whether a question is asked, given the answers to the questions before it */
+export const isShown = (
+  question: { rule?: QuestionRule },
+  answers: Record<string, string>,
+  context: BranchingContext
+): boolean => {
+  const rule = question.rule;
+  if (!rule || rule.conditions.length === 0) return true;
+  const results = rule.conditions.map(condition => conditionHolds(condition, sourceAnswer(condition, answers, context)));
+  const met = rule.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+  return rule.action === 'show' ? met : !met;
+};
+
+/**
+ * Questions that are asked given these answers, in template order. Answers
+ * left on hidden questions (e.g. from before an edit) are ignored, so a
+ * chain of rules settles the same way it would in the conversation.
+ */
+export const visibleQuestions = <T extends BranchingQuestion>(
+  questions: T[],
+  answers: Record<string, string>,
+  context: BranchingContext
+): T[] => {
+  const effective: Record<string, string> = {};
+  return questions.filter(question => {
+    const shown = isShown(question, effective, context);
+    if (shown && answers[question.id] !== undefined) effective[question.id] = answers[question.id];
+    return shown;
+  });
+};
+
+/** Drops conditions that point at a deleted question, and rules left with none */
+export const removeConditionsOn = <T extends BranchingQuestion>(questions: T[], deletedId: string): T[] =>
+  questions.map(question => {
+    if (!question.rule?.conditions.some(condition => condition.source === deletedId)) return question;
+    const conditions = question.rule.conditions.filter(condition => condition.source !== deletedId);
+    return { ...question, rule: conditions.length > 0 ? { ...question.rule, conditions } : undefined };
+  });
+
+// ---------------------------------------------------------------------------
+// Descriptions
+// ---------------------------------------------------------------------------
+
+const truncate = (text: string, length = 40) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const sourceLabel = (source: string, questions: BranchingQuestion[]): string => {
+  if (source === RELATIONSHIP_SOURCE) return "the referee's relationship";
+  const index = questions.findIndex(question => question.id === source);
+  if (index === -1) return 'a deleted question';
+  return `Q${index + 1} ("${truncate(questions[index].text.trim() || 'Untitled')}")`;
+};
+
+export const describeCondition = (condition: QuestionCondition, questions: BranchingQuestion[]): string => {
+  const value = operatorNeedsValue(condition.operator) ? ` "${condition.value || ''}"` : '';
+  return `${sourceLabel(condition.source, questions)} ${OPERATOR_LABELS[condition.operator]}${value}`;
+};
+
+/** e.g. 'Only asked if Q3 ("Would you rehire them?") is "No"' */
+export const describeRule = (rule: QuestionRule, questions: BranchingQuestion[]): string => {
+  const joiner = rule.match === 'all' ? ' and ' : ' or ';
+  const conditions = rule.conditions.map(condition => describeCondition(condition, questions)).join(joiner);
+  return `${rule.action === 'show' ? 'Only asked if' : 'Skipped if'} ${conditions}`;
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Question ids forming a dependency loop, first id repeated at the end, or null */
+const findCycle = (questions: BranchingQuestion[]): string[] | null => {
+  const ids = new Set(questions.map(question => question.id));
+  const dependsOn = new Map(questions.map(question => [
+    question.id,
+    (question.rule?.conditions || []).map(condition => condition.source).filter(source => ids.has(source)),
+  ]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const next of dependsOn.get(id) || []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const question of questions) {
+    const cycle = visit(question.id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+type Outcome = 'always' | 'never' | 'maybe';
+
+const combine = (outcomes: Outcome[], match: QuestionRule['match']): Outcome => {
+  if (match === 'all') {
+    if (outcomes.includes('never')) return 'never';
+    return outcomes.every(outcome => outcome === 'always') ? 'always' : 'maybe';
+  }
+  if (outcomes.includes('always')) return 'always';
+  return outcomes.every(outcome => outcome === 'never') ? 'never' : 'maybe';
+};
+
+/** Whether a condition can ever hold, judged from the source question's settings alone */
+const conditionOutcome = (
+  condition: QuestionCondition,
+  source: BranchingQuestion | undefined,
+  sourceNeverShown: boolean
+): Outcome => {
+  if (!source) return 'maybe';
+  // A question that's never asked always has an empty answer
+  if (sourceNeverShown) return conditionHolds(condition, '') ? 'always' : 'never';
+
+  const value = condition.value || '';
+  const allowed = possibleValues(source);
+  if (allowed && (condition.operator === 'is' || condition.operator === 'includes')) {
+    return allowed.some(option => sameText(option, value)) ? 'maybe' : 'never';
+  }
+  if (allowed && (condition.operator === 'is_not' || condition.operator === 'excludes')) {
+    return allowed.some(option => sameText(option, value)) ? 'maybe' : 'always';
+  }
+
+  const threshold = parseNumber(value);
+  if (threshold !== null && NUMERIC_OPERATORS.includes(condition.operator)) {
+    const highest = source.type === 'scale' ? source.scale_max || DEFAULT_SCALE_MAX : source.max;
+    const lowest = source.type === 'scale' ? 1 : source.min;
+    if (condition.operator === 'greater_than' && highest !== undefined && threshold >= highest) return 'never';
+    if (condition.operator === 'less_than' && lowest !== undefined && threshold <= lowest) return 'never';
+  }
+  return 'maybe';
+};
+
+/** Two "is" conditions on the same source with different values can't both hold */
+const hasContradiction = (rule: QuestionRule) =>
+  rule.match === 'all' &&
+  rule.conditions.some((a, i) =>
+    rule.conditions.some((b, j) =>
+      j > i &&
+      a.source === b.source &&
+      ((a.operator === 'is' && b.operator === 'is' && !conditionHolds(a, b.value || '')) ||
+        (a.operator === 'is' && b.operator === 'is_not' && sameText(a.value || '', b.value || '')) ||
+        (a.operator === 'is_not' && b.operator === 'is' && sameText(a.value || '', b.value || '')) ||
+        (a.operator === 'answered' && b.operator === 'not_answered') ||
+        (a.operator === 'not_answered' && b.operator === 'answered'))
+    )
+  );
+
+/**
+ * Problems with each question's rule, keyed by question id: conditions on
+ * missing or later questions, operators that don't fit the answer type,
+ * loops, and questions the rules make impossible to reach.
+ */
+export const ruleProblems = (questions: BranchingQuestion[]): Record<string, string[]> => {
+  const problems: Record<string, string[]> = {};
+  const add = (id: string, message: string) => {
+    problems[id] = [...(problems[id] || []), message];
+  };
+  const position = new Map(questions.map((question, index) => [question.id, index]));
+  const label = (id: string) => `Q${(position.get(id) ?? 0) + 1}`;
+
+  questions.forEach((question, index) => {
+    const rule = question.rule;
+    if (!rule) return;
+    if (rule.conditions.length === 0) {
+      add(question.id, 'Add at least one condition, or remove the rule');
+      return;
+    }
+
+    rule.conditions.forEach(condition => {
+      const isRelationship = condition.source === RELATIONSHIP_SOURCE;
+      const sourceIndex = position.get(condition.source);
+      if (!isRelationship && sourceIndex === undefined) {
+        add(question.id, 'A condition refers to a question that no longer exists');
+        return;
+      }
+      if (sourceIndex === index) {
+        add(question.id, "A condition refers to this question's own answer");
+        return;
+      }
+      if (sourceIndex !== undefined && sourceIndex > index) {
+        add(question.id, `A condition refers to ${label(condition.source)}, which is asked later. Move it above this question.`);
+      }
+
+      const source = isRelationship ? null : questions[sourceIndex!];
+      const sourceName = isRelationship ? "the referee's relationship" : label(condition.source);
+      if (!operatorsFor(source).includes(condition.operator)) {
+        add(question.id, `"${OPERATOR_LABELS[condition.operator]}" doesn't apply to ${sourceName}`);
+      } else if (operatorNeedsValue(condition.operator) && !condition.value?.trim()) {
+        add(question.id, `Choose a value to compare ${sourceName} against`);
+      } else if (NUMERIC_OPERATORS.includes(condition.operator) && parseNumber(condition.value || '') === null) {
+        add(question.id, `Compare ${sourceName} against a number`);
+      }
+    });
+  });
+
+  const cycle = findCycle(questions);
+  if (cycle) {
+    const loop = cycle.map(label).join(' → ');
+    new Set(cycle).forEach(id => add(id, `Rules form a loop: ${loop}`));
+  }
+
+  // Walk in order so questions hidden by an unreachable question are caught too
+  const neverShown = new Set<string>();
+  questions.forEach((question, index) => {
+    const rule = question.rule;
+    if (!rule || rule.conditions.length === 0) return;
+    const outcomes = rule.conditions.map(condition => {
+      const sourceIndex = position.get(condition.source);
+      if (sourceIndex === undefined || sourceIndex >= index) return 'maybe';
+      return conditionOutcome(condition, questions[sourceIndex], neverShown.has(condition.source));
+    });
+    const met = hasContradiction(rule) ? 'never' : combine(outcomes, rule.match);
+    if ((rule.action === 'show' && met === 'never') || (rule.action === 'skip' && met === 'always')) {
+      neverShown.add(question.id);
+      add(question.id, 'This question can never be asked with the current rules');
+    }
+  });
+
+  return problems;
+};
@@ -0,0 +1,170 @@
+/**
+ * Candidate Import
+ * Column mapping and row validation for importing candidates from CSV
+ *
+ * Each CSV row is one candidate with up to MAX_IMPORT_REFEREES optional
+ * referees in extra columns. Rows are checked with the same validators as
+ * CreateReferenceRequest and AddReferees.
+ */
+
+import { CandidateMatch, NewReferee, NewReferenceRequest } from './api';
+import { validateCandidate, validateReferee } from './validation';
+import { toE164 } from './phone';
+
+export const MAX_IMPORT_REFEREES = 3;
+export const MAX_IMPORT_ROWS = 500;
+
+type CandidateKey = keyof Omit<NewReferenceRequest, 'user_id' | 'template_id'>;
+type RefereeKey = keyof NewReferee;
+
+export interface ImportField {
+  /** e.g. 'candidate_email' or 'referee2_email' */
+  key: string;
+  label: string;
+  /** 0 for candidate fields, otherwise the referee number */
+  referee: number;
+  required?: boolean;
+}
+
+const CANDIDATE_FIELDS: { key: CandidateKey; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'candidate_first_name', label: 'First Name', required: true, aliases: ['firstname', 'first', 'givenname', 'candidatefirstname'] },
+  { key: 'candidate_last_name', label: 'Last Name', required: true, aliases: ['lastname', 'last', 'surname', 'familyname', 'candidatelastname'] },
+  { key: 'candidate_email', label: 'Email', aliases: ['email', 'emailaddress', 'candidateemail'] },
+  { key: 'candidate_phone_number', label: 'Phone', aliases: ['phone', 'mobile', 'phonenumber', 'candidatephone', 'candidatephonenumber'] },
+  { key: 'position_applied_for', label: 'Position', required: true, aliases: ['position', 'role', 'jobtitle', 'positionappliedfor'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments'] },
+];
+
+const REFEREE_FIELDS: { key: RefereeKey; label: string; aliases: string[] }[] = [
+  { key: 'first_name', label: 'First Name', aliases: ['firstname', 'first', 'givenname'] },
+  { key: 'last_name', label: 'Last Name', aliases: ['lastname', 'last', 'surname'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'emailaddress'] },
+  { key: 'phone_number', label: 'Phone', aliases: ['phone', 'mobile', 'phonenumber'] },
+  { key: 'relationship', label: 'Relationship', aliases: ['relationship', 'relation'] },
+  { key: 'company', label: 'Company', aliases: ['company', 'organisation', 'organization', 'employer'] },
+];
+
+const refereeFieldKey = (referee: number, key: RefereeKey) => `referee${referee}_${key}`;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  ...CANDIDATE_FIELDS.map(field => ({ key: field.key, label: field.label, referee: 0, required: field.required })),
+  ...Array.from({ length: MAX_IMPORT_REFEREES }, (_, i) => i + 1).flatMap(referee =>
+    REFEREE_FIELDS.map(field => ({ key: refereeFieldKey(referee, field.key), label: field.label, referee }))
+  ),
+];
+
+/** Import field key -> CSV column index, or null when not imported */
+export type ColumnMapping = Record<string, number | null>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Match headers such as "Email", "Referee 2 Email" or "ref1_first_name" to fields */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = Object.fromEntries(IMPORT_FIELDS.map(field => [field.key, null]));
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    const refereeMatch = normalized.match(/^ref(?:eree)?(\d*)(.+)$/);
+
+    let key: string | undefined;
+    if (refereeMatch) {
+      const referee = Number(refereeMatch[1] || 1);
+      const field = REFEREE_FIELDS.find(f => f.aliases.includes(refereeMatch[2]));
+      if (field && referee >= 1 && referee <= MAX_IMPORT_REFEREES) key = refereeFieldKey(referee, field.key);
+    } else {
+      key = CANDIDATE_FIELDS.find(f => f.aliases.includes(normalized))?.key;
+    }
+
+    // First matching column wins
+    if (key && mapping[key] === null) mapping[key] = index;
+  });
+
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): ImportField[] =>
+  IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === null);
+
+export interface ImportRow {
+  /** Row number counting the header as row 1; blank lines are not counted */
+  line: number;
+  candidate: Omit<NewReferenceRequest, 'user_id' | 'template_id'>;
+  referees: NewReferee[];
+  errors: string[];
+  warnings: string[];
+  /** Existing active request for the same candidate email */
+  existingMatch?: CandidateMatch;
+}
+
+/** Spreadsheets hold national numbers like 021 123 4567; store E.164 when it parses, else leave for validation to flag */
+const normalizePhoneCell = (value: string) => (value ? toE164(value) ?? value : '');
+
+export const buildImportRows = (dataRows: string[][], mapping: ColumnMapping): ImportRow[] => {
+  const firstLineByEmail = new Map<string, number>();
+
+  return dataRows.map((cells, index) => {
+    const line = index + 2;
+    const read = (key: string) => {
+      const column = mapping[key];
+      return column === null || column === undefined ? '' : (cells[column] || '').trim();
+    };
+
+    const candidate = {
+      candidate_first_name: read('candidate_first_name'),
+      candidate_last_name: read('candidate_last_name'),
+      candidate_email: read('candidate_email'),
+      candidate_phone_number: normalizePhoneCell(read('candidate_phone_number')),
+      position_applied_for: read('position_applied_for'),
+      notes: read('notes'),
+    };
+
+    const errors = Object.values(validateCandidate(candidate));
+
+    const referees: NewReferee[] = [];
+    for (let referee = 1; referee <= MAX_IMPORT_REFEREES; referee++) {
+      const readReferee = (key: RefereeKey) => read(refereeFieldKey(referee, key));
+      const values: NewReferee = {
+        first_name: readReferee('first_name'),
+        last_name: readReferee('last_name'),
+        email: readReferee('email'),
+        phone_number: normalizePhoneCell(readReferee('phone_number')),
+        relationship: readReferee('relationship'),
+        company: readReferee('company'),
+      };
+      // Referee columns are optional; a partly filled referee must still be complete
+      if (!Object.values(values).some(Boolean)) continue;
+      Object.values(validateReferee(values)).forEach(message => errors.push(`Referee ${referee}: ${message}`));
+      referees.push(values);
+    }
+
+    const email = candidate.candidate_email.toLowerCase();
+    if (email) {
+      const firstLine = firstLineByEmail.get(email);
+      if (firstLine !== undefined) {
+        errors.push(`Same candidate email as row ${firstLine}`);
+      } else {
+        firstLineByEmail.set(email, line);
+      }
+    }
+
+    return { line, candidate, referees, errors, warnings: [] };
+  });
+};
+
+/** Flag rows whose candidate email already has an active request */
+export const applyExistingMatches = (rows: ImportRow[], matches: CandidateMatch[]): ImportRow[] => {
+  const byEmail = new Map(matches.map(match => [match.candidate_email.toLowerCase(), match]));
+
+  return rows.map(row => {
+    const match = byEmail.get(row.candidate.candidate_email.toLowerCase());
+    if (!row.candidate.candidate_email || !match) return row;
+    return {
+      ...row,
+      existingMatch: match,
+      warnings: [
+        ...row.warnings,
+        `Already has an active request (${match.candidate_first_name} ${match.candidate_last_name}, ${match.position_applied_for})`,
+      ],
+    };
+  });
+};
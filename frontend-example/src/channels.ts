@@ -0,0 +1,37 @@
+/**
+ * Contact Channels
+ * Email / SMS helpers shared by invitations, reminders and the request list
+ */
+
+import { ContactChannel, DeliveryChannel, Referee } from './api';
+import { formatPhone, toE164 } from './phone';
+
+export const CHANNEL_LABELS: Record<ContactChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  both: 'Email + SMS',
+};
+
+export const DELIVERY_CHANNEL_ICONS: Record<DeliveryChannel, string> = {
+  email: '✉️',
+  sms: '💬',
+};
+
+/** Referees added through different forms store the number under either field */
+export const getRefereePhone = (referee: Referee): string | null =>
+  referee.phone || referee.phone_number || null;
+
+/** Only numbers we can normalise to E.164; older free-text numbers need fixing first */
+export const canSendSms = (referee: Referee) => !!toE164(getRefereePhone(referee) || '');
+
+/** Human description of where a message will go, e.g. "by SMS to +64 21 123 4567" */
+export const describeChannelTarget = (referee: Referee, channel: ContactChannel): string => {
+  const phone = formatPhone(getRefereePhone(referee));
+  if (channel === 'sms') return `by SMS to ${phone}`;
+  if (channel === 'both') return `by email to ${referee.email} and SMS to ${phone}`;
+  return `by email to ${referee.email}`;
+};
+
+/** SMS segments are 160 characters (153 each once a message is split) */
+export const countSmsSegments = (message: string) =>
+  message.length <= 160 ? 1 : Math.ceil(message.length / 153);
@@ -0,0 +1,74 @@
+/**
+ * Runtime Configuration
+ * Resolves the API base URL from Vite env variables
+ *
+ * Resolution order:
+ * 1. Per-tenant API base from VITE_TENANT_API_URLS (JSON map of tenant → URL)
+ * 2. VITE_API_URL, for pointing any build at a specific backend (e.g. a local mock)
+ * 3. The default for the deployment environment (VITE_DEPLOY_ENV, or the Vite mode)
+ */
+
+export type DeployEnv = 'development' | 'preview' | 'staging' | 'production';
+
+const PRODUCTION_API_URL = 'https://api-ref.getbrindleai.com/api';
+const DEVELOPMENT_API_URL = 'http://localhost:5001/api';
+
+const env = import.meta.env;
+
+const resolveDeployEnv = (): DeployEnv => {
+  const value = env.VITE_DEPLOY_ENV;
+  if (value === 'development' || value === 'preview' || value === 'staging' || value === 'production') {
+    return value;
+  }
+  return env.PROD ? 'production' : 'development';
+};
+
+/**
+ * Tenant for the current build or host. VITE_TENANT wins; otherwise the first
+ * label of a multi-label hostname is used (acme.refcheck.example.com → acme).
+ */
+const resolveTenant = (): string | null => {
+  if (env.VITE_TENANT) return env.VITE_TENANT;
+  if (typeof window === 'undefined') return null;
+  const labels = window.location.hostname.split('.');
+  return labels.length > 2 ? labels[0] : null;
+};
+
+const readTenantApiUrls = (): Record<string, string> => {
+  if (!env.VITE_TENANT_API_URLS) return {};
+  try {
+    return JSON.parse(env.VITE_TENANT_API_URLS);
+  } catch (err) {
+    console.warn('VITE_TENANT_API_URLS is not valid JSON', err);
+    return {};
+  }
+};
+
+const defaultApiUrlFor = (deployEnv: DeployEnv): string => {
+  switch (deployEnv) {
+    case 'production':
+      return PRODUCTION_API_URL;
+    case 'staging':
+      return env.VITE_STAGING_API_URL || PRODUCTION_API_URL;
+    case 'preview':
+      return env.VITE_PREVIEW_API_URL || env.VITE_STAGING_API_URL || PRODUCTION_API_URL;
+    default:
+      return DEVELOPMENT_API_URL;
+  }
+};
+
+const stripTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const DEPLOY_ENV: DeployEnv = resolveDeployEnv();
+
+export const TENANT: string | null = resolveTenant();
+
+export const API_URL: string = stripTrailingSlash(
+  (TENANT && readTenantApiUrls()[TENANT]) || env.VITE_API_URL || defaultApiUrlFor(DEPLOY_ENV)
+);
+
+export default {
+  deployEnv: DEPLOY_ENV,
+  tenant: TENANT,
+  apiUrl: API_URL,
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportRows, guessColumnMapping } from './candidateImport';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('neutralises cells that spreadsheets would run as formulas', () => {
+    expect(toCsv([['=HYPERLINK("http://example.com")', '@SUM(A1)', '-2+3']])).toBe(
+      `"'=HYPERLINK(""http://example.com"")",'@SUM(A1),'-2+3`
+    );
+  });
+
+  it('leaves phone numbers and plain numbers unchanged', () => {
+    expect(toCsv([['+6421234567', '-12.5', 42]])).toBe('+6421234567,-12.5,42');
+  });
+
+  it('exports phone numbers that import back as valid', () => {
+    const csv = toCsv([
+      ['First Name', 'Last Name', 'Position', 'Phone', 'Referee 1 First Name', 'Referee 1 Last Name', 'Referee 1 Email', 'Referee 1 Phone', 'Referee 1 Relationship'],
+      ['Aroha', 'Ngata', 'Engineer', '+6421234567', 'Sam', 'Tane', 'sam@example.com', '+6493001234', 'Direct Manager'],
+    ]);
+
+    const [headers, ...dataRows] = parseCsv(csv);
+    const [row] = buildImportRows(dataRows, guessColumnMapping(headers));
+
+    expect(row.errors).toEqual([]);
+    expect(row.candidate.candidate_phone_number).toBe('+6421234567');
+    expect(row.referees[0].phone_number).toBe('+6493001234');
+  });
+});
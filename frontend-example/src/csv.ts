@@ -0,0 +1,87 @@
+/**
+ * CSV Helpers
+ * Build, download and parse CSV files in the browser
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas, e.g. a referee named =HYPERLINK(...)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Plain numbers, including E.164 phones like +6421234567, can't run as formulas and must import back unchanged
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+const escapeCell = (value: CsvCell): string => {
+  if (value === null || value === undefined) return '';
+  // Numbers are written as-is so negatives stay numeric; other text gets a leading ' to keep it text
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value)
+    ? `'${value}`
+    : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/** Save a Blob through a temporary link, as the referee report download does */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (rows: CsvCell[][], fileName: string) => {
+  // Leading BOM so Excel detects UTF-8 (macrons in names)
+  downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+};
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted fields with embedded
+ * commas, quotes and newlines, CRLF or LF line endings and a leading BOM.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,99 @@
+/**
+ * Duplicate Detection
+ * Warnings for candidates and referees that look like records we already have
+ *
+ * These are warnings, not validation errors: the user can still go ahead
+ * once they have checked.
+ */
+
+import { CandidateMatch, NewReferee, Referee, ReferenceRequest } from './api';
+import { getEmailDomain, isFreeWebmail } from './emailDomains';
+import { toE164 } from './phone';
+
+export interface DuplicateWarning {
+  message: string;
+  /** Existing request the user may want to open instead */
+  requestId?: string;
+}
+
+interface CandidateContact {
+  candidate_email: string;
+  candidate_phone_number?: string | null;
+}
+
+const normalizeEmail = (email?: string | null) => (email || '').trim().toLowerCase();
+
+/** E.164 where possible, so "021 555 0100" and "+64 21 555 0100" compare equal; digits only otherwise */
+export const normalizePhone = (phone?: string | null) => toE164(phone || '') || (phone || '').replace(/\D/g, '');
+
+/** Too short to be a real number; avoids matching half-typed input */
+const MIN_PHONE_DIGITS = 7;
+
+export const isCompletePhone = (phone?: string | null) => normalizePhone(phone).length >= MIN_PHONE_DIGITS;
+
+export const candidateMatchWarnings = (candidate: CandidateContact, matches: CandidateMatch[]): DuplicateWarning[] => {
+  const email = normalizeEmail(candidate.candidate_email);
+  const phone = normalizePhone(candidate.candidate_phone_number);
+
+  return matches.map(match => {
+    const name = `${match.candidate_first_name} ${match.candidate_last_name}`;
+    const on = email && normalizeEmail(match.candidate_email) === email
+      ? 'email'
+      : phone && normalizePhone(match.candidate_phone_number) === phone
+        ? 'phone number'
+        : 'details';
+    const created = new Date(match.created_at).toLocaleDateString('en-NZ', { timeZone: 'Pacific/Auckland' });
+    return {
+      message: `Same ${on} as ${name}, who already has an active request for ${match.position_applied_for} (created ${created})`,
+      requestId: match.request_id,
+    };
+  });
+};
+
+/**
+ * Check one referee on the form against the candidate, the other referees
+ * being added, and referees already on the request
+ */
+export const refereeWarnings = (
+  referees: NewReferee[],
+  index: number,
+  request: (CandidateContact & Pick<ReferenceRequest, 'id'>) | null,
+  existingReferees: Referee[]
+): DuplicateWarning[] => {
+  const referee = referees[index];
+  const email = normalizeEmail(referee.email);
+  const phone = normalizePhone(referee.phone_number);
+  const warnings: DuplicateWarning[] = [];
+
+  if (request) {
+    const candidateEmail = normalizeEmail(request.candidate_email);
+    const candidateDomain = getEmailDomain(candidateEmail);
+
+    if (email && email === candidateEmail) {
+      warnings.push({ message: "This is the candidate's own email address" });
+    } else if (email && candidateDomain && getEmailDomain(email) === candidateDomain && !isFreeWebmail(candidateDomain)) {
+      warnings.push({ message: `Same email domain as the candidate (@${candidateDomain}), check this isn't a relative or the candidate` });
+    }
+
+    if (phone && phone === normalizePhone(request.candidate_phone_number)) {
+      warnings.push({ message: "This is the candidate's own phone number" });
+    }
+  }
+
+  if (email) {
+    const earlier = referees.findIndex((other, i) => i < index && normalizeEmail(other.email) === email);
+    if (earlier !== -1) {
+      warnings.push({ message: `Same email as Referee ${earlier + 1}` });
+    }
+
+    const existing = existingReferees.find(other => normalizeEmail(other.email) === email);
+    if (existing) {
+      warnings.push({
+        message: `${existing.first_name} ${existing.last_name} is already a referee on this request`,
+        requestId: request?.id,
+      });
+    }
+  }
+
+  return warnings;
+};
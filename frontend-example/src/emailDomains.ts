@@ -0,0 +1,112 @@
+/**
+ * Email Domains
+ * Helpers for reasoning about the domain part of an email address
+ *
+ * Used for pre-send deliverability checks: disposable domains are rejected,
+ * near-misses of common providers get a "did you mean" suggestion, and free
+ * webmail is flagged for work references. Lists are deliberately short and
+ * cover the providers we actually see; the server still reports bounces.
+ */
+
+/** Consumer mailbox providers; a shared domain here says nothing about the people */
+export const FREE_WEBMAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'hotmail.co.nz',
+  'hotmail.co.uk',
+  'live.com',
+  'msn.com',
+  'yahoo.com',
+  'yahoo.co.nz',
+  'yahoo.co.uk',
+  'ymail.com',
+  'icloud.com',
+  'me.com',
+  'mac.com',
+  'aol.com',
+  'protonmail.com',
+  'proton.me',
+  'gmx.com',
+  'zoho.com',
+  'mail.com',
+  'xtra.co.nz',
+];
+
+/** Lower-cased domain of an email address, or '' when there isn't one */
+export const getEmailDomain = (email: string): string => {
+  const at = email.lastIndexOf('@');
+  return at === -1 ? '' : email.slice(at + 1).trim().toLowerCase();
+};
+
+export const isFreeWebmail = (domain: string): boolean => FREE_WEBMAIL_DOMAINS.includes(domain.toLowerCase());
+
+/** Throwaway inbox providers; invitations sent here are rarely answered */
+export const DISPOSABLE_EMAIL_DOMAINS = [
+  'mailinator.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'sharklasers.com',
+  '10minutemail.com',
+  'tempmail.com',
+  'temp-mail.org',
+  'throwawaymail.com',
+  'yopmail.com',
+  'trashmail.com',
+  'getnada.com',
+  'dispostable.com',
+  'maildrop.cc',
+  'fakeinbox.com',
+  'mintemail.com',
+  'mohmal.com',
+];
+
+export const isDisposableDomain = (domain: string): boolean => DISPOSABLE_EMAIL_DOMAINS.includes(domain.toLowerCase());
+
+/** Edit distance counting a swap of adjacent letters (gmial -> gmail) as one edit */
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+/** Short domains like mac.com or live.com are one typo away from real domains, so only suggest for longer ones */
+const maxTypoDistance = (domain: string) => (domain.length < 9 ? 0 : domain.length < 10 ? 1 : 2);
+
+/**
+ * The address with a corrected domain when it looks like a typo of a common
+ * provider, e.g. jane@gmial.com -> jane@gmail.com; null otherwise
+ */
+export const suggestEmailCorrection = (email: string): string | null => {
+  const domain = getEmailDomain(email);
+  if (!domain || isFreeWebmail(domain) || isDisposableDomain(domain)) return null;
+
+  let best: { domain: string; distance: number } | null = null;
+  for (const candidate of FREE_WEBMAIL_DOMAINS) {
+    const distance = editDistance(domain, candidate);
+    if (distance > 0 && distance <= maxTypoDistance(candidate) && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance };
+    }
+  }
+
+  return best ? `${email.trim().slice(0, email.trim().lastIndexOf('@'))}@${best.domain}` : null;
+};
+
+const PROFESSIONAL_RELATIONSHIP_PATTERN = /manager|supervisor|colleague|co-?worker|lead|director|boss|report|employer|client|mentor|head of/i;
+
+/** Relationships where we'd expect the referee to have a work address */
+export const isProfessionalRelationship = (relationship: string): boolean =>
+  PROFESSIONAL_RELATIONSHIP_PATTERN.test(relationship);
@@ -0,0 +1,165 @@
+/**
+ * Live Updates
+ * Connection to request lifecycle events for the dashboard
+ *
+ * Connects to the server-sent events stream and falls back to polling
+ * /events when EventSource is unavailable or the stream keeps failing
+ * (e.g. behind a proxy that buffers responses). Components don't use this
+ * directly: LiveUpdatesProvider holds the one connection per tab and
+ * components subscribe through useRequestEvents().
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { createApiClient, RequestEvent } from './api';
+
+export type LiveConnectionState = 'connecting' | 'live' | 'polling' | 'offline';
+
+const POLL_INTERVAL_MS = 15000;
+const RECONNECT_DELAY_MS = 3000;
+/** Fall back to polling after this many stream failures within the window, even if it reconnects in between */
+const MAX_STREAM_FAILURES = 3;
+const STREAM_FAILURE_WINDOW_MS = 60000;
+/** Event ids kept for de-duplication; only the stream/poller overlap needs them, so old ones can go */
+const MAX_SEEN_EVENTS = 500;
+
+/**
+ * Calls onEvent for every lifecycle event of the user's requests.
+ * Returns the current connection state for display.
+ */
+export const useRequestEventStream = (
+  apiUrl: string,
+  userId: string,
+  onEvent: (event: RequestEvent) => void
+): LiveConnectionState => {
+  const { token } = useAuth();
+  const [connection, setConnection] = useState<LiveConnectionState>('connecting');
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    const api = createApiClient(apiUrl);
+    const seen = new Set<string>();
+    let cursor: string | null = null;
+    let stream: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let failures: number[] = [];
+    let stopped = false;
+
+    const dispatch = (event: RequestEvent) => {
+      // The stream and the poller can overlap briefly; deliver each event once
+      if (seen.has(event.id)) return;
+      seen.add(event.id);
+      if (seen.size > MAX_SEEN_EVENTS) seen.delete(seen.values().next().value as string);
+      cursor = event.id;
+      handlerRef.current(event);
+    };
+
+    // Start from "now": without a cursor the poller could replay old events into highlights and the bell
+    const seedCursor = async () => {
+      const data = await api.events.list({ user_id: userId });
+      if (cursor === null) cursor = data.cursor;
+    };
+
+    const fetchSinceCursor = async () => {
+      const data = await api.events.list({ user_id: userId, since: cursor });
+      if (stopped) return;
+      (data.events || []).forEach(dispatch);
+      cursor = data.cursor ?? cursor;
+    };
+
+    const poll = async () => {
+      try {
+        if (cursor === null) {
+          await seedCursor();
+        } else {
+          await fetchSinceCursor();
+        }
+        if (!stopped) setConnection('polling');
+      } catch (err) {
+        if (stopped) return;
+        console.warn('Live updates: polling failed', err);
+        setConnection('offline');
+      }
+    };
+
+    // A new stream only sends events from now on; fetch whatever happened while it was down
+    const catchUp = async () => {
+      if (cursor === null) return;
+      try {
+        await fetchSinceCursor();
+      } catch (err) {
+        if (!stopped) console.warn('Live updates: could not catch up after reconnecting', err);
+      }
+    };
+
+    const startPolling = () => {
+      if (pollTimer || stopped) return;
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const streamFailed = () => {
+      const now = Date.now();
+      failures = [...failures.filter(at => now - at < STREAM_FAILURE_WINDOW_MS), now];
+      if (failures.length >= MAX_STREAM_FAILURES) {
+        startPolling();
+      } else {
+        setConnection('connecting');
+        reconnectTimer = setTimeout(openStream, RECONNECT_DELAY_MS);
+      }
+    };
+
+    // Tickets are single-use, so reconnect by hand with a fresh one rather than letting EventSource retry the old URL
+    const openStream = async () => {
+      reconnectTimer = null;
+      try {
+        const { ticket } = await api.events.streamTicket(userId);
+        if (stopped) return;
+        stream = new EventSource(api.events.streamUrl(ticket));
+      } catch (err) {
+        if (stopped) return;
+        console.warn('Live updates: could not open stream', err);
+        streamFailed();
+        return;
+      }
+
+      stream.onopen = () => {
+        setConnection('live');
+        catchUp();
+      };
+
+      stream.onmessage = (message) => {
+        try {
+          dispatch(JSON.parse(message.data));
+        } catch (err) {
+          console.warn('Live updates: ignoring malformed event', err);
+        }
+      };
+
+      stream.onerror = () => {
+        stream?.close();
+        stream = null;
+        streamFailed();
+      };
+    };
+
+    seedCursor().catch(err => console.warn('Live updates: could not fetch cursor', err));
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      openStream();
+    }
+
+    return () => {
+      stopped = true;
+      stream?.close();
+      if (pollTimer) clearInterval(pollTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [apiUrl, userId, token]);
+
+  return connection;
+};
@@ -0,0 +1,63 @@
+/**
+ * Referee Nominations
+ * Rules for referees the candidate nominates after signing their authorization
+ *
+ * Nominated referees are created with status 'nominated' and aren't invited
+ * until a recruiter approves them from the request list.
+ */
+
+import { NewReferee, Referee, RefereeNominationSettings } from './api';
+
+export const NOMINATED_STATUS = 'nominated';
+
+export const MAX_NOMINATED_REFEREES = 5;
+
+/** Offered as suggestions to candidates and as required types to recruiters */
+export const RELATIONSHIP_TYPES = [
+  'Direct Manager',
+  'Senior Colleague',
+  'Colleague',
+  'Direct Report',
+  'Client',
+  'Academic Supervisor',
+];
+
+export const DEFAULT_NOMINATION_SETTINGS: RefereeNominationSettings = {
+  enabled: false,
+  min_referees: 2,
+  required_relationships: ['Direct Manager'],
+};
+
+export const isNominationPending = (referee: Referee) => referee.status === NOMINATED_STATUS;
+
+const sameRelationship = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Required relationship types no nominated referee covers yet */
+export const missingRelationships = (settings: RefereeNominationSettings, referees: Pick<NewReferee, 'relationship'>[]): string[] =>
+  settings.required_relationships.filter(required =>
+    !referees.some(referee => sameRelationship(referee.relationship, required))
+  );
+
+/** Problems with the nomination as a whole; per-referee fields are checked by validateReferee */
+export const validateNominations = (settings: RefereeNominationSettings, referees: NewReferee[]): string[] => {
+  const problems: string[] = [];
+
+  if (referees.length < settings.min_referees) {
+    problems.push(`Please nominate at least ${settings.min_referees} referee${settings.min_referees === 1 ? '' : 's'}`);
+  }
+
+  const missing = missingRelationships(settings, referees);
+  if (missing.length > 0) {
+    problems.push(`Please include a referee for each of: ${missing.join(', ')}`);
+  }
+
+  return problems;
+};
+
+/** Recruiter-facing summary, e.g. "at least 2 referees, including a Direct Manager" */
+export const describeNominationSettings = (settings: RefereeNominationSettings): string => {
+  const count = `at least ${settings.min_referees} referee${settings.min_referees === 1 ? '' : 's'}`;
+  return settings.required_relationships.length > 0
+    ? `${count}, including: ${settings.required_relationships.join(', ')}`
+    : count;
+};
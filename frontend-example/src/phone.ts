@@ -0,0 +1,153 @@
+/**
+ * Phone Numbers
+ * Parsing to E.164 and display formatting for candidate and referee phones
+ *
+ * Numbers are stored as E.164 (+64211234567) so SMS delivery doesn't depend
+ * on how someone typed them. The country table only covers where our
+ * candidates and referees usually are; other numbers can still be entered
+ * in international form with a leading +. Older records may hold free text,
+ * which is shown as-is when it can't be parsed.
+ */
+
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 */
+  code: string;
+  name: string;
+  dialCode: string;
+  /** Leading digit dropped from national numbers, e.g. the 0 in 021 */
+  trunkPrefix?: string;
+  /** Allowed length of the national number once the trunk prefix is removed */
+  minLength: number;
+  maxLength: number;
+  /** Digit grouping for display; the first entry whose prefix matches wins */
+  groupings: { prefix?: string; groups: number[] }[];
+  /** For dial codes shared between countries (+1): national prefixes that belong to this one */
+  areaCodes?: string[];
+}
+
+const CANADA_AREA_CODES = ['204', '226', '236', '249', '250', '263', '289', '306', '343', '354', '365', '367', '368', '382', '387', '403', '416', '418', '428', '431', '437', '438', '450', '460', '468', '474', '506', '514', '519', '548', '579', '581', '584', '587', '604', '613', '639', '647', '672', '683', '705', '709', '742', '753', '778', '780', '782', '807', '819', '825', '867', '873', '879', '902', '905', '942'];
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'NZ', name: 'New Zealand', dialCode: '64', trunkPrefix: '0', minLength: 8, maxLength: 10, groupings: [{ prefix: '2', groups: [2, 3, 4] }, { groups: [1, 3, 4] }] },
+  { code: 'AU', name: 'Australia', dialCode: '61', trunkPrefix: '0', minLength: 9, maxLength: 9, groupings: [{ prefix: '4', groups: [3, 3, 3] }, { groups: [1, 4, 4] }] },
+  { code: 'US', name: 'United States', dialCode: '1', trunkPrefix: '1', minLength: 10, maxLength: 10, groupings: [{ groups: [3, 3, 4] }] },
+  { code: 'CA', name: 'Canada', dialCode: '1', trunkPrefix: '1', minLength: 10, maxLength: 10, groupings: [{ groups: [3, 3, 4] }], areaCodes: CANADA_AREA_CODES },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', trunkPrefix: '0', minLength: 9, maxLength: 10, groupings: [{ prefix: '7', groups: [4, 6] }, { groups: [2, 4, 4] }] },
+  { code: 'IE', name: 'Ireland', dialCode: '353', trunkPrefix: '0', minLength: 7, maxLength: 9, groupings: [{ prefix: '8', groups: [2, 3, 4] }, { groups: [1, 3, 4] }] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', trunkPrefix: '0', minLength: 9, maxLength: 9, groupings: [{ groups: [2, 3, 4] }] },
+  { code: 'IN', name: 'India', dialCode: '91', trunkPrefix: '0', minLength: 10, maxLength: 10, groupings: [{ groups: [5, 5] }] },
+  { code: 'PH', name: 'Philippines', dialCode: '63', trunkPrefix: '0', minLength: 10, maxLength: 10, groupings: [{ groups: [3, 3, 4] }] },
+  { code: 'CN', name: 'China', dialCode: '86', trunkPrefix: '0', minLength: 10, maxLength: 11, groupings: [{ groups: [3, 4, 4] }] },
+  { code: 'SG', name: 'Singapore', dialCode: '65', minLength: 8, maxLength: 8, groupings: [{ groups: [4, 4] }] },
+  { code: 'FJ', name: 'Fiji', dialCode: '679', minLength: 7, maxLength: 7, groupings: [{ groups: [3, 4] }] },
+  { code: 'WS', name: 'Samoa', dialCode: '685', minLength: 5, maxLength: 7, groupings: [{ groups: [7] }] },
+  { code: 'TO', name: 'Tonga', dialCode: '676', minLength: 5, maxLength: 7, groupings: [{ groups: [7] }] },
+];
+
+export const DEFAULT_PHONE_COUNTRY = 'NZ';
+
+export const getPhoneCountry = (code: string): PhoneCountry =>
+  PHONE_COUNTRIES.find(country => country.code === code) || PHONE_COUNTRIES[0];
+
+/** Regional indicator emoji for a country code, e.g. NZ -> 🇳🇿 */
+export const countryFlag = (code: string) =>
+  String.fromCodePoint(...code.split('').map(char => 0x1f1a5 + char.charCodeAt(0)));
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+/** Longest dial codes first so +353 isn't read as +35... */
+const BY_DIAL_CODE_LENGTH = [...PHONE_COUNTRIES].sort((a, b) => b.dialCode.length - a.dialCode.length);
+
+/** Country for digits after the +; a shared dial code goes to the country owning the area code, else the one without a list (US for +1) */
+const findCountryByDialCode = (digits: string): PhoneCountry | undefined => {
+  const first = BY_DIAL_CODE_LENGTH.find(country => digits.startsWith(country.dialCode));
+  if (!first) return undefined;
+  const candidates = PHONE_COUNTRIES.filter(country => country.dialCode === first.dialCode);
+  const national = digits.slice(first.dialCode.length);
+  return candidates.find(country => country.areaCodes?.some(code => national.startsWith(code)))
+    || candidates.find(country => !country.areaCodes)
+    || first;
+};
+
+const stripTrunk = (national: string, country: PhoneCountry) =>
+  country.trunkPrefix && national.startsWith(country.trunkPrefix) && national.length > country.minLength
+    ? national.slice(country.trunkPrefix.length)
+    : national;
+
+const isValidNational = (national: string, country: PhoneCountry) =>
+  national.length >= country.minLength && national.length <= country.maxLength;
+
+/**
+ * E.164 form of a typed number, or null when it isn't a valid number.
+ * National numbers ("021 123 4567") are read as `countryCode`; numbers
+ * starting with + or 00 are read as international.
+ */
+export const toE164 = (input: string, countryCode: string = DEFAULT_PHONE_COUNTRY): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed || /[^\d\s()+.\-]/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, '');
+  const international = trimmed.startsWith('+') || trimmed.startsWith('00');
+
+  if (international) {
+    const full = trimmed.startsWith('00') ? digits.slice(2) : digits;
+    const country = findCountryByDialCode(full);
+    if (!country) {
+      // Not a country we know the rules for; accept any plausible E.164 number
+      return E164_PATTERN.test(`+${full}`) ? `+${full}` : null;
+    }
+    // People often keep the trunk 0 after the country code: +64 021 ...
+    const national = stripTrunk(full.slice(country.dialCode.length), country);
+    return isValidNational(national, country) ? `+${country.dialCode}${national}` : null;
+  }
+
+  const country = getPhoneCountry(countryCode);
+  const national = stripTrunk(digits, country);
+  return isValidNational(national, country) ? `+${country.dialCode}${national}` : null;
+};
+
+export const isValidPhone = (input: string, countryCode?: string) => toE164(input, countryCode) !== null;
+
+/**
+ * Value to save: E.164 when it parses, otherwise unchanged. PhoneInput sends
+ * numbers it couldn't parse with the chosen dial code, so only legacy
+ * national numbers ("021 123 4567") are read as NZ here.
+ */
+export const normalizePhone = (value: string): string => toE164(value) ?? value;
+
+const formatNational = (national: string, country: PhoneCountry): string => {
+  const { groups } = country.groupings.find(g => !g.prefix || national.startsWith(g.prefix)) || { groups: [] };
+  const parts: string[] = [];
+  let rest = national;
+  groups.forEach((size, index) => {
+    if (!rest) return;
+    const take = index === groups.length - 1 ? rest.length : size;
+    parts.push(rest.slice(0, take));
+    rest = rest.slice(take);
+  });
+  if (rest) parts.push(rest);
+  return parts.join(' ');
+};
+
+/** Country and national digits for a stored number, used to pre-fill the phone input */
+export const splitPhone = (value: string): { country: string; national: string } => {
+  const e164 = toE164(value);
+  const country = e164 && value.trim().match(/^(\+|00)/) ? findCountryByDialCode(e164.slice(1)) : undefined;
+  if (!e164 || !country) {
+    return { country: DEFAULT_PHONE_COUNTRY, national: value };
+  }
+  return { country: country.code, national: formatNational(e164.slice(1 + country.dialCode.length), country) };
+};
+
+/**
+ * Display form, e.g. +64 21 123 4567. Legacy national numbers are read as
+ * NZ; anything unparseable is returned unchanged.
+ */
+export const formatPhone = (value?: string | null): string => {
+  if (!value) return '';
+  const e164 = toE164(value);
+  if (!e164) return value;
+  const country = findCountryByDialCode(e164.slice(1));
+  if (!country) return e164;
+  return `+${country.dialCode} ${formatNational(e164.slice(1 + country.dialCode.length), country)}`;
+};
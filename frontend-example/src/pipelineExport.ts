@@ -0,0 +1,106 @@
+/**
+ * Pipeline Export
+ * Column definitions for exporting the request list to CSV or Excel
+ *
+ * One row per referee (candidates without referees get a single row), so
+ * candidate columns repeat. Dates use NZ time to match the rest of the UI.
+ */
+
+import { Referee, RequestWithReferees } from './api';
+import { CsvCell } from './csv';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface PipelineRow {
+  request: RequestWithReferees;
+  referee: Referee | null;
+}
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  group: 'Candidate' | 'Authorization' | 'Referee';
+  value: (row: PipelineRow) => CsvCell;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatExportDate = (value?: string | null): string => {
+  if (!value) return '';
+  return new Date(value).toLocaleString('en-NZ', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Pacific/Auckland',
+  });
+};
+
+/** Days between two timestamps to one decimal place, blank if either is missing */
+const turnaroundDays = (from?: string | null, to?: string | null): number | null => {
+  if (!from || !to) return null;
+  return Math.round(((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS) * 10) / 10;
+};
+
+const isRefereeComplete = (referee: Referee) => referee.has_completed || referee.status === 'completed';
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'candidate', label: 'Candidate', group: 'Candidate', value: ({ request }) => `${request.candidate_first_name} ${request.candidate_last_name}` },
+  { id: 'candidate_email', label: 'Candidate Email', group: 'Candidate', value: ({ request }) => request.candidate_email },
+  { id: 'candidate_phone', label: 'Candidate Phone', group: 'Candidate', value: ({ request }) => request.candidate_phone_number },
+  { id: 'position', label: 'Position', group: 'Candidate', value: ({ request }) => request.position_applied_for },
+  { id: 'request_status', label: 'Request Status', group: 'Candidate', value: ({ request }) => request.archived_at ? 'archived' : request.status },
+  { id: 'created_at', label: 'Created', group: 'Candidate', value: ({ request }) => formatExportDate(request.created_at) },
+  { id: 'referees_completed', label: 'Referees Completed', group: 'Candidate', value: ({ request }) => `${request.summary.completed}/${request.summary.total_referees}` },
+
+  { id: 'authorization_status', label: 'Authorization Status', group: 'Authorization', value: ({ request }) => request.authorization_status || 'not sent' },
+  { id: 'authorization_method', label: 'Authorization Method', group: 'Authorization', value: ({ request }) => request.authorization_method },
+  { id: 'authorization_sent_at', label: 'Authorization Sent', group: 'Authorization', value: ({ request }) => formatExportDate(request.authorization_sent_at) },
+  { id: 'authorization_completed_at', label: 'Authorized', group: 'Authorization', value: ({ request }) => formatExportDate(request.authorization_completed_at) },
+  {
+    id: 'authorization_turnaround',
+    label: 'Authorization Turnaround (days)',
+    group: 'Authorization',
+    value: ({ request }) => turnaroundDays(request.authorization_sent_at, request.authorization_completed_at),
+  },
+
+  { id: 'referee', label: 'Referee', group: 'Referee', value: ({ referee }) => referee && `${referee.first_name} ${referee.last_name}` },
+  { id: 'referee_email', label: 'Referee Email', group: 'Referee', value: ({ referee }) => referee?.email },
+  { id: 'referee_phone', label: 'Referee Phone', group: 'Referee', value: ({ referee }) => referee && (referee.phone || referee.phone_number) },
+  { id: 'relationship', label: 'Relationship', group: 'Referee', value: ({ referee }) => referee?.relationship },
+  { id: 'referee_status', label: 'Referee Status', group: 'Referee', value: ({ referee }) => referee && (isRefereeComplete(referee) ? 'completed' : referee.status) },
+  { id: 'invited_at', label: 'Invited', group: 'Referee', value: ({ referee }) => formatExportDate(referee?.initial_sent_at) },
+  { id: 'last_contacted_at', label: 'Last Contacted', group: 'Referee', value: ({ referee }) => formatExportDate(referee?.last_contacted_at) },
+  { id: 'submitted_at', label: 'Submitted', group: 'Referee', value: ({ referee }) => formatExportDate(referee?.submitted_at) },
+  {
+    id: 'referee_turnaround',
+    label: 'Reference Turnaround (days)',
+    group: 'Referee',
+    value: ({ referee }) => turnaroundDays(referee?.initial_sent_at, referee?.submitted_at),
+  },
+  {
+    id: 'report_link',
+    label: 'Report Link',
+    group: 'Referee',
+    value: ({ request, referee }) =>
+      referee && isRefereeComplete(referee) ? `${window.location.origin}/report/${request.id}/referee/${referee.id}` : '',
+  },
+];
+
+export const DEFAULT_EXPORT_COLUMN_IDS = EXPORT_COLUMNS.map(column => column.id);
+
+/** Header row plus one row per referee, in the order the requests are given */
+export const buildExportTable = (requests: RequestWithReferees[], columnIds: string[]): CsvCell[][] => {
+  const columns = EXPORT_COLUMNS.filter(column => columnIds.includes(column.id));
+  const rows = requests.flatMap<PipelineRow>(request =>
+    request.referees.length > 0
+      ? request.referees.map(referee => ({ request, referee }))
+      : [{ request, referee: null }]
+  );
+
+  return [
+    columns.map(column => column.label),
+    ...rows.map(row => columns.map(column => column.value(row))),
+  ];
+};
@@ -0,0 +1,327 @@
+/**
+ * Question Types
+ * Answer types a template question can use, their builder settings, and how
+ * structured answers are stored and displayed
+ *
+ * Answers are always saved as strings so the answer, revision and version
+ * endpoints don't need to change. Yes/no, single choice, scale and numeric
+ * answers are plain text ("Yes", "Team Lead", "4", "85000"); multiple choice,
+ * date range and matrix answers are JSON that carries its own labels, so old
+ * responses still read correctly after a template's options are edited.
+ */
+
+import { QuestionConfig, QuestionType } from './api';
+
+export interface QuestionTypeOption {
+  value: QuestionType;
+  label: string;
+  /** Short label for badges in the libraries */
+  badge: string;
+}
+
+export const QUESTION_TYPES: QuestionTypeOption[] = [
+  { value: 'text', label: 'Short Text', badge: 'Short Text' },
+  { value: 'textarea', label: 'Long Text (Paragraph)', badge: 'Long Text' },
+  { value: 'scale', label: 'Rating Scale', badge: 'Rating' },
+  { value: 'yes_no', label: 'Yes / No', badge: 'Yes / No' },
+  { value: 'single_choice', label: 'Single Choice', badge: 'Single Choice' },
+  { value: 'multi_choice', label: 'Multiple Choice', badge: 'Multiple Choice' },
+  { value: 'date_range', label: 'Date Range (e.g. employment dates)', badge: 'Date Range' },
+  { value: 'matrix', label: 'Rating Matrix (several competencies)', badge: 'Rating Matrix' },
+  { value: 'numeric', label: 'Number (e.g. salary, team size)', badge: 'Number' },
+];
+
+export const DEFAULT_SCALE_MAX = 5;
+export const MIN_SCALE_MAX = 3;
+export const MAX_SCALE_MAX = 10;
+
+/** Shape shared by template fields, conversation questions and report questions */
+export type AnswerQuestion = QuestionConfig & { type?: string };
+
+/** Id for a new template question; imported templates get fresh ones too */
+export const generateQuestionId = () => {
+  return `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const isQuestionType = (type: unknown): type is QuestionType =>
+  QUESTION_TYPES.some(option => option.value === type);
+
+/** Badge text, e.g. "Rating (1-5)"; unknown types read as short text like before */
+export const questionTypeBadge = (question: AnswerQuestion): string => {
+  const option = QUESTION_TYPES.find(o => o.value === question.type) || QUESTION_TYPES[0];
+  return option.value === 'scale' || option.value === 'matrix'
+    ? `${option.badge} (1-${question.scale_max || DEFAULT_SCALE_MAX})`
+    : option.badge;
+};
+
+/** Types answered with a picker rather than free text */
+export const isStructuredType = (type?: string): boolean =>
+  !!type && isQuestionType(type) && type !== 'text' && type !== 'textarea';
+
+/** Starting settings when a question is switched to `type` */
+export const defaultConfig = (type: QuestionType): QuestionConfig => {
+  switch (type) {
+    case 'scale':
+      return { scale_max: DEFAULT_SCALE_MAX };
+    case 'single_choice':
+    case 'multi_choice':
+      return { options: ['Option 1', 'Option 2'] };
+    case 'matrix':
+      return { rows: ['Communication', 'Teamwork', 'Reliability'], scale_max: DEFAULT_SCALE_MAX };
+    case 'numeric':
+      return { min: 0 };
+    default:
+      return {};
+  }
+};
+
+/** Only the settings `type` uses, so switching types doesn't leave stale options on the field */
+export const pickConfig = (type: QuestionType, config: QuestionConfig): QuestionConfig => {
+  switch (type) {
+    case 'scale':
+      return { scale_max: config.scale_max ?? DEFAULT_SCALE_MAX };
+    case 'single_choice':
+    case 'multi_choice':
+      return { options: config.options || [] };
+    case 'matrix':
+      return { rows: config.rows || [], scale_max: config.scale_max ?? DEFAULT_SCALE_MAX };
+    case 'numeric': {
+      const picked: QuestionConfig = {};
+      if (config.min !== undefined) picked.min = config.min;
+      if (config.max !== undefined) picked.max = config.max;
+      if (config.unit) picked.unit = config.unit;
+      return picked;
+    }
+    default:
+      return {};
+  }
+};
+
+const cleanList = (items?: string[]) => (items || []).map(item => item.trim()).filter(Boolean);
+
+const hasDuplicates = (items: string[]) =>
+  new Set(items.map(item => item.toLowerCase())).size !== items.length;
+
+/** Builder-side problems with a question's settings, or null when it can be saved */
+export const configError = (type: QuestionType, config: QuestionConfig): string | null => {
+  if (type === 'single_choice' || type === 'multi_choice') {
+    const options = cleanList(config.options);
+    if (options.length < 2) return 'Add at least two options';
+    if (hasDuplicates(options)) return 'Options must be different from each other';
+  }
+  if (type === 'matrix') {
+    const rows = cleanList(config.rows);
+    if (rows.length === 0) return 'Add at least one competency to rate';
+    if (hasDuplicates(rows)) return 'Competencies must be different from each other';
+  }
+  if (type === 'scale' || type === 'matrix') {
+    const scaleMax = config.scale_max ?? DEFAULT_SCALE_MAX;
+    if (!Number.isInteger(scaleMax) || scaleMax < MIN_SCALE_MAX || scaleMax > MAX_SCALE_MAX) {
+      return `Scale must top out between ${MIN_SCALE_MAX} and ${MAX_SCALE_MAX}`;
+    }
+  }
+  if (type === 'numeric' && config.min !== undefined && config.max !== undefined && config.min > config.max) {
+    return 'Minimum must not be greater than maximum';
+  }
+  return null;
+};
+
+/**
+ * Settings for a question switched to `type`: carried over where they still
+ * make sense (options from single to multiple choice), otherwise the defaults
+ */
+export const configForType = (type: QuestionType, current: QuestionConfig): QuestionConfig => {
+  const carried = pickConfig(type, current);
+  return configError(type, carried) ? defaultConfig(type) : carried;
+};
+
+/** Settings as saved: option lists trimmed and emptied entries dropped */
+export const cleanConfig = (type: QuestionType, config: QuestionConfig): QuestionConfig => {
+  const picked = pickConfig(type, config);
+  if (picked.options) picked.options = cleanList(picked.options);
+  if (picked.rows) picked.rows = cleanList(picked.rows);
+  return picked;
+};
+
+// ---------------------------------------------------------------------------
+// Answer encoding
+// ---------------------------------------------------------------------------
+
+export interface DateRangeAnswer {
+  /** YYYY-MM */
+  from: string;
+  /** YYYY-MM, or null while the candidate still works there */
+  to: string | null;
+}
+
+export type MatrixAnswer = Record<string, number>;
+
+const parseJson = (answer: string): unknown => {
+  try {
+    return JSON.parse(answer);
+  } catch {
+    return undefined;
+  }
+};
+
+export const parseMultiChoice = (answer: string): string[] => {
+  const parsed = parseJson(answer);
+  return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+};
+
+export const parseDateRange = (answer: string): DateRangeAnswer => {
+  const parsed = parseJson(answer) as Partial<DateRangeAnswer> | undefined;
+  return {
+    from: typeof parsed?.from === 'string' ? parsed.from : '',
+    to: typeof parsed?.to === 'string' ? parsed.to : parsed?.to === null ? null : '',
+  };
+};
+
+export const parseMatrix = (answer: string): MatrixAnswer => {
+  const parsed = parseJson(answer);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  return Object.fromEntries(
+    Object.entries(parsed as Record<string, unknown>).filter(([, value]) => typeof value === 'number')
+  ) as MatrixAnswer;
+};
+
+export const encodeMultiChoice = (selected: string[]) => (selected.length > 0 ? JSON.stringify(selected) : '');
+
+export const encodeDateRange = (range: DateRangeAnswer) =>
+  range.from || range.to !== '' ? JSON.stringify(range) : '';
+
+export const encodeMatrix = (ratings: MatrixAnswer) =>
+  Object.keys(ratings).length > 0 ? JSON.stringify(ratings) : '';
+
+/** Number typed into a numeric or rating answer, allowing thousands separators and a $ */
+export const parseNumber = (answer: string): number | null => {
+  const cleaned = answer.replace(/[,\s$]/g, '');
+  if (!cleaned || !/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+/**
+ * Problem with a non-empty answer, or null when it's complete. Whether an
+ * empty answer is allowed is up to the question's `required` flag.
+ */
+export const answerError = (question: AnswerQuestion, answer: string): string | null => {
+  if (!answer.trim()) return null;
+  const scaleMax = question.scale_max || DEFAULT_SCALE_MAX;
+
+  switch (question.type) {
+    case 'scale': {
+      const rating = parseNumber(answer);
+      return rating !== null && Number.isInteger(rating) && rating >= 1 && rating <= scaleMax
+        ? null
+        : `Choose a rating from 1 to ${scaleMax}`;
+    }
+    case 'yes_no':
+      return answer === 'Yes' || answer === 'No' ? null : 'Choose yes or no';
+    case 'single_choice':
+      return (question.options || []).includes(answer) ? null : 'Choose one of the options';
+    case 'multi_choice':
+      return parseMultiChoice(answer).length > 0 ? null : 'Choose at least one option';
+    case 'date_range': {
+      const range = parseDateRange(answer);
+      if (!range.from) return 'Enter the start date';
+      if (range.to === '') return 'Enter the end date, or tick that they still work there';
+      if (range.to && range.to < range.from) return 'The end date is before the start date';
+      return null;
+    }
+    case 'matrix': {
+      const ratings = parseMatrix(answer);
+      const unrated = (question.rows || []).filter(row => ratings[row] === undefined);
+      return unrated.length > 0 ? `Rate every competency (missing: ${unrated.join(', ')})` : null;
+    }
+    case 'numeric': {
+      const value = parseNumber(answer);
+      if (value === null) return 'Enter a number';
+      if (question.min !== undefined && value < question.min) return `Enter ${question.min} or more`;
+      if (question.max !== undefined && value > question.max) return `Enter ${question.max} or less`;
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Display
+// ---------------------------------------------------------------------------
+
+const formatMonth = (value: string): string => {
+  const [year, month] = value.split('-').map(Number);
+  if (!year || !month) return value;
+  return new Date(Date.UTC(year, month - 1, 15)).toLocaleDateString('en-NZ', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Pacific/Auckland',
+  });
+};
+
+const monthsBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+};
+
+const describeDuration = (months: number): string => {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  const parts = [];
+  if (years > 0) parts.push(`${years} year${years === 1 ? '' : 's'}`);
+  if (remainder > 0 || years === 0) parts.push(`${remainder} month${remainder === 1 ? '' : 's'}`);
+  return parts.join(' ');
+};
+
+const currentMonth = () => new Date().toLocaleDateString('en-CA', { timeZone: 'Pacific/Auckland' }).slice(0, 7);
+
+/**
+ * Human-readable answer for chat bubbles and reports, e.g.
+ * "Mar 2019 – Jun 2022 (3 years 3 months)". Answers that don't parse as the
+ * question's type are shown as given.
+ */
+export const formatAnswer = (answer: unknown, question?: AnswerQuestion): string => {
+  if (answer === null || answer === undefined) return '';
+  if (typeof answer !== 'string') return JSON.stringify(answer, null, 2);
+
+  const scaleMax = question?.scale_max || DEFAULT_SCALE_MAX;
+
+  switch (question?.type) {
+    case 'scale': {
+      const rating = parseNumber(answer);
+      return rating !== null ? `${rating} / ${scaleMax}` : answer;
+    }
+    case 'multi_choice': {
+      const selected = parseMultiChoice(answer);
+      return selected.length > 0 ? selected.join(', ') : answer;
+    }
+    case 'date_range': {
+      const range = parseDateRange(answer);
+      if (!range.from) return answer;
+      const end = range.to || currentMonth();
+      const label = `${formatMonth(range.from)} – ${range.to ? formatMonth(range.to) : 'Present'}`;
+      return end >= range.from ? `${label} (${describeDuration(monthsBetween(range.from, end))})` : label;
+    }
+    case 'matrix': {
+      const ratings = parseMatrix(answer);
+      const rows = question.rows?.length ? question.rows : Object.keys(ratings);
+      const lines = rows
+        .filter(row => ratings[row] !== undefined)
+        .map(row => `${row}: ${ratings[row]} / ${scaleMax}`);
+      // Competencies removed from the template since this answer was given
+      Object.keys(ratings)
+        .filter(row => !rows.includes(row))
+        .forEach(row => lines.push(`${row}: ${ratings[row]} / ${scaleMax}`));
+      return lines.length > 0 ? lines.join('\n') : answer;
+    }
+    case 'numeric': {
+      const value = parseNumber(answer);
+      if (value === null) return answer;
+      const number = value.toLocaleString('en-NZ');
+      return question.unit ? `${number} ${question.unit}` : number;
+    }
+    default:
+      return answer;
+  }
+};
@@ -0,0 +1,84 @@
+/**
+ * Reminder Schedules
+ * Defaults, validation and wording for automatic referee reminders
+ *
+ * The server sends the reminders; these helpers keep the Settings page,
+ * SendInvitations and the request list describing schedules the same way.
+ */
+
+import { Referee, ReminderSchedule } from './api';
+
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = {
+  enabled: true,
+  days_after_invite: [2, 4],
+  final_days_before_expiry: 1,
+};
+
+export const DEFAULT_LINK_EXPIRY_DAYS = 5;
+
+const pluralDays = (days: number) => `${days} day${days === 1 ? '' : 's'}`;
+
+export const describeReminderSchedule = (schedule: ReminderSchedule, linkExpiryDays: number): string => {
+  if (!schedule.enabled) {
+    return 'No automatic reminders';
+  }
+
+  const parts = [...schedule.days_after_invite]
+    .sort((a, b) => a - b)
+    .map(day => `day ${day}`);
+  if (schedule.final_days_before_expiry !== null) {
+    parts.push(
+      `${pluralDays(schedule.final_days_before_expiry)} before the link expires (day ${linkExpiryDays - schedule.final_days_before_expiry})`
+    );
+  }
+
+  if (parts.length === 0) {
+    return 'No automatic reminders';
+  }
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+  return `Reminders on ${list}`;
+};
+
+/** Returns an error message, or null when the schedule fits inside the link lifetime */
+export const validateReminderSchedule = (schedule: ReminderSchedule, linkExpiryDays: number): string | null => {
+  if (!schedule.enabled) return null;
+
+  const days = schedule.days_after_invite;
+  if (days.some(day => !Number.isInteger(day) || day < 1)) {
+    return 'Reminder days must be whole numbers of 1 or more';
+  }
+  if (days.some(day => day >= linkExpiryDays)) {
+    return `Reminders must be sent before the link expires on day ${linkExpiryDays}`;
+  }
+  if (new Set(days).size !== days.length) {
+    return 'Each reminder day can only be used once';
+  }
+
+  const final = schedule.final_days_before_expiry;
+  if (final !== null && (!Number.isInteger(final) || final < 0 || final >= linkExpiryDays)) {
+    return `The final reminder must be between 0 and ${linkExpiryDays - 1} days before expiry`;
+  }
+  return null;
+};
+
+/** Short label for the request row, e.g. "Next reminder 14 Mar, 9:00 am" */
+export const formatNextReminder = (referee: Referee): string | null => {
+  if (referee.has_completed || referee.status === 'declined' || referee.status === 'bounced') {
+    return null;
+  }
+  if (referee.reminders_paused) {
+    return 'Reminders paused';
+  }
+  if (!referee.next_reminder_at) {
+    return null;
+  }
+
+  const when = new Date(referee.next_reminder_at).toLocaleString('en-NZ', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'Pacific/Auckland',
+  });
+  return `Next reminder ${when}`;
+};
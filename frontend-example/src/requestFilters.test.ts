@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REQUEST_FILTERS, filtersFromSearchParams, orderDateRanges } from './requestFilters';
+
+describe('orderDateRanges', () => {
+  it('swaps a "from" date that is after its "to" date', () => {
+    const filters = orderDateRanges({ ...DEFAULT_REQUEST_FILTERS, createdFrom: '2026-03-01', createdTo: '2026-01-15' });
+    expect(filters.createdFrom).toBe('2026-01-15');
+    expect(filters.createdTo).toBe('2026-03-01');
+  });
+
+  it('leaves ordered and open-ended ranges alone', () => {
+    const filters = { ...DEFAULT_REQUEST_FILTERS, createdFrom: '2026-01-15', createdTo: '2026-03-01', startFrom: '2026-05-01' };
+    expect(orderDateRanges(filters)).toEqual(filters);
+  });
+
+  it('orders ranges read from the URL', () => {
+    const filters = filtersFromSearchParams(new URLSearchParams('start_from=2026-06-30&start_to=2026-06-01'));
+    expect(filters.startFrom).toBe('2026-06-01');
+    expect(filters.startTo).toBe('2026-06-30');
+  });
+});
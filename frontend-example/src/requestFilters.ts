@@ -0,0 +1,129 @@
+/**
+ * Request List Filters
+ * Filter state for the request list and its URL query string form
+ *
+ * The query string is the single serialized form: the /requests route keeps
+ * it in the address bar and saved views store it as-is.
+ */
+
+import { RequestListQuery } from './api';
+
+export interface RequestFilters {
+  /** Request status, or 'archived' for the archive */
+  status: string;
+  search: string;
+  authorization: string;
+  refereeStatus: string;
+  createdFrom: string;
+  createdTo: string;
+  startFrom: string;
+  startTo: string;
+  position: string;
+  ownerId: string;
+  overdue: boolean;
+}
+
+export const DEFAULT_REQUEST_FILTERS: RequestFilters = {
+  status: 'all',
+  search: '',
+  authorization: '',
+  refereeStatus: '',
+  createdFrom: '',
+  createdTo: '',
+  startFrom: '',
+  startTo: '',
+  position: '',
+  ownerId: '',
+  overdue: false,
+};
+
+export const AUTHORIZATION_FILTER_OPTIONS = [
+  { value: 'not_sent', label: 'Not sent' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'authorized', label: 'Authorized' },
+];
+
+export const REFEREE_STATUS_FILTER_OPTIONS = [
+  { value: 'started', label: 'Started' },
+  { value: 'declined', label: 'Declined' },
+  { value: 'bounced', label: 'Bounced' },
+  { value: 'nominated', label: 'Nominated (awaiting approval)' },
+];
+
+// URL parameter name for each string filter
+const PARAM_NAMES: Record<Exclude<keyof RequestFilters, 'overdue'>, string> = {
+  status: 'status',
+  search: 'q',
+  authorization: 'auth',
+  refereeStatus: 'referee',
+  createdFrom: 'created_from',
+  createdTo: 'created_to',
+  startFrom: 'start_from',
+  startTo: 'start_to',
+  position: 'position',
+  ownerId: 'owner',
+};
+
+/** Swap a "from" date that is after its "to" date, which would otherwise match nothing */
+export const orderDateRanges = (filters: RequestFilters): RequestFilters => {
+  const ordered = { ...filters };
+  ([['createdFrom', 'createdTo'], ['startFrom', 'startTo']] as const).forEach(([from, to]) => {
+    // yyyy-mm-dd strings sort as dates
+    if (ordered[from] && ordered[to] && ordered[from] > ordered[to]) {
+      [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+    }
+  });
+  return ordered;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): RequestFilters => {
+  const filters: RequestFilters = { ...DEFAULT_REQUEST_FILTERS, overdue: params.get('overdue') === '1' };
+  (Object.keys(PARAM_NAMES) as (keyof typeof PARAM_NAMES)[]).forEach(key => {
+    const value = params.get(PARAM_NAMES[key]);
+    if (value) filters[key] = value;
+  });
+  // Hand-edited links and saved views may hold an inverted range
+  return orderDateRanges(filters);
+};
+
+/** Only non-default values are written, so an unfiltered list has a clean URL */
+export const filtersToSearchParams = (filters: RequestFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof typeof PARAM_NAMES)[]).forEach(key => {
+    if (filters[key] && filters[key] !== DEFAULT_REQUEST_FILTERS[key]) {
+      params.set(PARAM_NAMES[key], filters[key]);
+    }
+  });
+  if (filters.overdue) params.set('overdue', '1');
+  return params;
+};
+
+export const filtersToListQuery = (filters: RequestFilters): Partial<RequestListQuery> => ({
+  status: filters.status !== 'all' && filters.status !== 'archived' ? filters.status : undefined,
+  archived: filters.status === 'archived' || undefined,
+  search: filters.search.trim() || undefined,
+  authorization_status: filters.authorization || undefined,
+  referee_status: filters.refereeStatus || undefined,
+  created_from: filters.createdFrom || undefined,
+  created_to: filters.createdTo || undefined,
+  start_from: filters.startFrom || undefined,
+  start_to: filters.startTo || undefined,
+  position: filters.position.trim() || undefined,
+  owner_id: filters.ownerId || undefined,
+  overdue: filters.overdue || undefined,
+});
+
+/** Number of advanced filters in use; status and search have their own controls */
+export const countAdvancedFilters = (filters: RequestFilters): number =>
+  [
+    filters.authorization,
+    filters.refereeStatus,
+    filters.createdFrom || filters.createdTo,
+    filters.startFrom || filters.startTo,
+    filters.position.trim(),
+    filters.ownerId,
+    filters.overdue,
+  ].filter(Boolean).length;
+
+export const isDefaultFilters = (filters: RequestFilters) =>
+  filtersToSearchParams(filters).toString() === '';
@@ -0,0 +1,187 @@
+/**
+ * Sandbox Session
+ * In-memory stand-in for the referee endpoints, so a template can be tried
+ * out through the real authorization → chat → review screens
+ *
+ * Nothing here reaches the server: answers live in the client object and
+ * vanish with it, and the template's usage_count is never touched. The
+ * sandbox accepts answers as given; the server's clarification follow-ups
+ * aren't simulated.
+ */
+
+import {
+  ApiClient,
+  ApiError,
+  ConversationAnswerResult,
+  ConversationQuestion,
+  ConversationTurn,
+  ReviewItem,
+  Template,
+} from './api';
+import { isQuestionType, pickConfig } from './questionTypes';
+
+export const SANDBOX_TOKEN = 'sandbox';
+const SANDBOX_SESSION_ID = 'sandbox_session';
+
+export interface SandboxDetails {
+  candidateName: string;
+  position: string;
+  refereeName: string;
+  relationship: string;
+  company: string;
+}
+
+export const SAMPLE_CANDIDATE = {
+  candidateName: 'Jordan Taylor',
+  position: 'Senior Product Manager',
+};
+
+interface SandboxAnswer {
+  answer_id: string;
+  answer: string;
+  original: string;
+  answered_at: string;
+}
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * A client whose referee endpoints run against a local session built from
+ * `template`. Every other endpoint is left pointing at `base`, but none of
+ * them are called by the referee flow.
+ */
+export const createSandboxClient = (base: ApiClient, template: Template, details: SandboxDetails): ApiClient => {
+  const questions: ConversationQuestion[] = template.schema_json.fields.map((field, index) => ({
+    ...(isQuestionType(field.type) ? pickConfig(field.type, field) : {}),
+    index,
+    key: field.id,
+    text: field.text,
+    type: field.type || 'text',
+    required: field.required,
+    ...(field.rule ? { rule: field.rule } : {}),
+  }));
+  const answers = new Map<number, SandboxAnswer>();
+  const skipped = new Set<number>();
+  let completed = false;
+
+  const progress = () => {
+    const answered = answers.size + skipped.size;
+    const total = questions.length;
+    return { answered, total, percent: total ? Math.round((answered / total) * 100) : 100 };
+  };
+
+  const nextQuestion = () => questions.find(q => !answers.has(q.index) && !skipped.has(q.index)) || null;
+
+  const result = (): ConversationAnswerResult => {
+    const next = nextQuestion();
+    return { status: next ? 'in_progress' : 'ready_for_review', progress: progress(), next_question: next };
+  };
+
+  const ensureOpen = () => {
+    if (completed) throw new ApiError('This reference check has already been submitted', 409);
+  };
+
+  const questionAt = (index: number) => {
+    ensureOpen();
+    const question = questions[index];
+    if (!question) throw new ApiError('Question not found', 404);
+    return question;
+  };
+
+  const answerById = (answerId: string) => {
+    ensureOpen();
+    for (const [index, answer] of answers) {
+      if (answer.answer_id === answerId) return { index, answer };
+    }
+    throw new ApiError('Answer not found', 404);
+  };
+
+  const turns = (question: ConversationQuestion, answer: SandboxAnswer): ConversationTurn[] => [
+    { type: 'question', content: question.text, created_at: answer.answered_at },
+    { type: 'user_answer', content: answer.answer, created_at: answer.answered_at },
+  ];
+
+  return {
+    ...base,
+
+    publicAuthorization: {
+      ...base.publicAuthorization,
+      getReferee: async () => ({
+        ok: true,
+        data: {
+          referee_name: details.refereeName,
+          candidate_name: details.candidateName,
+          position: details.position,
+          recruiting_company: details.company,
+          contact_email: 'recruiter@example.com',
+        },
+      }),
+      submitReferee: async () => ({ ok: true }),
+      declineReferee: async () => ({ ok: true }),
+    },
+
+    conversation: {
+      init: async () => {
+        const next = nextQuestion();
+        return {
+          session_id: SANDBOX_SESSION_ID,
+          status: completed ? 'completed' : next ? 'in_progress' : 'ready_for_review',
+          progress: progress(),
+          question: next,
+          answers: Object.fromEntries([...answers].map(([index, answer]) => [questions[index].key, answer.answer])),
+          context: {
+            candidate_name: details.candidateName,
+            position: details.position,
+            relationship: details.relationship,
+          },
+        };
+      },
+      answer: async (data) => {
+        questionAt(data.question_index);
+        answers.set(data.question_index, {
+          answer_id: `sandbox_answer_${data.question_index}`,
+          answer: data.answer,
+          original: data.answer,
+          answered_at: new Date().toISOString(),
+        });
+        skipped.delete(data.question_index);
+        return result();
+      },
+      skip: async (data) => {
+        questionAt(data.question_index);
+        skipped.add(data.question_index);
+        return result();
+      },
+      review: async () => {
+        const items: ReviewItem[] = [...answers]
+          .sort(([a], [b]) => a - b)
+          .map(([index, answer]) => {
+            const question = questions[index];
+            return {
+              answer_id: answer.answer_id,
+              question_index: index,
+              question_key: question.key,
+              question_text: question.text,
+              answer_type: question.type,
+              answer_config: isQuestionType(question.type) ? pickConfig(question.type, question) : undefined,
+              raw_answer: answer.original,
+              polished_answer: answer.answer,
+              word_count: wordCount(answer.answer),
+              answered_at: answer.answered_at,
+              conversation_turns: turns(question, answer),
+            };
+          });
+        return { review_items: items, status: completed ? 'completed' : 'in_review', total_questions: questions.length };
+      },
+      revise: async (data) => {
+        const { index, answer } = answerById(data.answer_id);
+        answers.set(index, { ...answer, answer: data.new_answer });
+        return { ok: true };
+      },
+      complete: async () => {
+        completed = true;
+        return { ok: true };
+      },
+    },
+  };
+};
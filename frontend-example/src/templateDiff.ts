@@ -0,0 +1,137 @@
+/**
+ * Template Diff
+ * Question-level comparison between two versions of a template, for the
+ * version history in the template library
+ *
+ * Questions are matched by id, so a reworded question shows as a change
+ * rather than a removal plus an addition.
+ */
+
+import { TemplateField, TemplateVersion } from './api';
+import { describeRule } from './branching';
+import { questionTypeBadge } from './questionTypes';
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface FieldChange {
+  kind: FieldChangeKind;
+  field: TemplateField;
+  /** Position in the newer version, or in the older one for removed questions */
+  position: number;
+  /** What changed on a question present in both versions */
+  details: string[];
+}
+
+export interface TemplateDiff {
+  /** Changes to the template's name, description and category */
+  details: string[];
+  fields: FieldChange[];
+  unchangedCount: number;
+}
+
+const list = (items?: string[]) => (items && items.length > 0 ? items.join(', ') : 'none');
+
+const ruleText = (field: TemplateField, fields: TemplateField[]) =>
+  field.rule && field.rule.conditions.length > 0 ? describeRule(field.rule, fields) : 'always asked';
+
+const fieldDetails = (
+  before: TemplateField,
+  after: TemplateField,
+  beforeFields: TemplateField[],
+  afterFields: TemplateField[]
+): string[] => {
+  const details: string[] = [];
+  if (before.text.trim() !== after.text.trim()) details.push(`Wording: "${before.text.trim()}" → "${after.text.trim()}"`);
+  if (before.required !== after.required) details.push(after.required ? 'Now required' : 'No longer required');
+  if ((before.type || 'text') !== (after.type || 'text')) {
+    details.push(`Answer type: ${questionTypeBadge(before)} → ${questionTypeBadge(after)}`);
+  } else if (before.scale_max !== after.scale_max && (after.type === 'scale' || after.type === 'matrix')) {
+    details.push(`Scale: 1-${before.scale_max ?? 5} → 1-${after.scale_max ?? 5}`);
+  }
+  if (list(before.options) !== list(after.options)) details.push(`Options: ${list(before.options)} → ${list(after.options)}`);
+  if (list(before.rows) !== list(after.rows)) details.push(`Competencies: ${list(before.rows)} → ${list(after.rows)}`);
+  if (before.min !== after.min || before.max !== after.max || (before.unit || '') !== (after.unit || '')) {
+    const range = (field: TemplateField) =>
+      `${field.min ?? '–'} to ${field.max ?? '–'}${field.unit ? ` ${field.unit}` : ''}`;
+    details.push(`Number range: ${range(before)} → ${range(after)}`);
+  }
+  // Compare the rules themselves; their descriptions mention question numbers, which shift on reorder
+  if (JSON.stringify(before.rule?.conditions.length ? before.rule : null) !== JSON.stringify(after.rule?.conditions.length ? after.rule : null)) {
+    details.push(`Rule: ${ruleText(before, beforeFields)} → ${ruleText(after, afterFields)}`);
+  }
+  return details;
+};
+
+/** Ids outside the longest common subsequence of the two orders, i.e. the fewest questions that explain the reordering */
+const movedIds = (before: string[], after: string[]): Set<string> => {
+  const lengths = before.map(() => after.map(() => 0));
+  const at = (i: number, j: number) => (i < before.length && j < after.length ? lengths[i][j] : 0);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+  const kept = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return new Set(after.filter(id => !kept.has(id)));
+};
+
+/** Changes from `before` to `after` */
+export const diffTemplateVersions = (
+  before: Pick<TemplateVersion, 'name' | 'description' | 'category' | 'schema_json'>,
+  after: Pick<TemplateVersion, 'name' | 'description' | 'category' | 'schema_json'>
+): TemplateDiff => {
+  const details: string[] = [];
+  if (before.name !== after.name) details.push(`Name: "${before.name}" → "${after.name}"`);
+  if ((before.description || '') !== (after.description || '')) details.push('Description updated');
+  if (before.category !== after.category) details.push(`Category: ${before.category} → ${after.category}`);
+
+  const beforeFields = before.schema_json.fields;
+  const afterFields = after.schema_json.fields;
+  const beforeById = new Map(beforeFields.map(field => [field.id, field]));
+  const afterIds = new Set(afterFields.map(field => field.id));
+
+  // Compare order only among shared questions, so additions and removals don't read as moves
+  const sharedBefore = beforeFields.filter(field => afterIds.has(field.id)).map(field => field.id);
+  const sharedAfter = afterFields.filter(field => beforeById.has(field.id)).map(field => field.id);
+  const moves = movedIds(sharedBefore, sharedAfter);
+
+  const fields: FieldChange[] = [];
+  let unchangedCount = 0;
+
+  afterFields.forEach((field, position) => {
+    const previous = beforeById.get(field.id);
+    if (!previous) {
+      fields.push({ kind: 'added', field, position, details: [] });
+      return;
+    }
+    const changes = fieldDetails(previous, field, beforeFields, afterFields);
+    const moved = moves.has(field.id);
+    if (changes.length > 0) {
+      if (moved) changes.push(`Moved from Q${beforeFields.indexOf(previous) + 1}`);
+      fields.push({ kind: 'changed', field, position, details: changes });
+    } else if (moved) {
+      fields.push({ kind: 'moved', field, position, details: [`Moved from Q${beforeFields.indexOf(previous) + 1}`] });
+    } else {
+      unchangedCount += 1;
+    }
+  });
+
+  beforeFields.forEach((field, position) => {
+    if (!afterIds.has(field.id)) fields.push({ kind: 'removed', field, position, details: [] });
+  });
+
+  return { details, fields, unchangedCount };
+};
@@ -0,0 +1,236 @@
+/**
+ * Template Files
+ * Export a template to a portable JSON file and validate one for import
+ *
+ * Files carry a format name and version so older files keep importing as
+ * the schema grows. Question ids are regenerated on import, and branching
+ * rules are re-pointed at the new ids, so importing the same file twice (or
+ * into the tenant it came from) never collides with existing questions.
+ */
+
+import { ConditionOperator, QuestionCondition, QuestionConfig, QuestionRule, Template, TemplateField } from './api';
+import { OPERATOR_LABELS, RELATIONSHIP_SOURCE, ruleProblems } from './branching';
+import { cleanConfig, configError, generateQuestionId, isQuestionType } from './questionTypes';
+
+export const TEMPLATE_FILE_FORMAT = 'reference-check-template';
+export const TEMPLATE_FILE_VERSION = 1;
+
+/** Same limit as the template builder */
+const MAX_QUESTIONS = 20;
+
+export type PortableTemplate = Pick<Template, 'name' | 'description' | 'category' | 'schema_json'>;
+
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  format_version: number;
+  exported_at: string;
+  /** Version of the template in the library it was exported from */
+  source_version?: number;
+  template: PortableTemplate;
+}
+
+export type TemplateFileResult =
+  | { ok: true; template: PortableTemplate }
+  | { ok: false; errors: string[] };
+
+export const toTemplateFile = (template: Template): string => {
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    format_version: TEMPLATE_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    source_version: template.version,
+    template: {
+      name: template.name,
+      description: template.description || '',
+      category: template.category,
+      schema_json: template.schema_json,
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const templateFileName = (template: Pick<Template, 'name' | 'version'>) => {
+  const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+  return `${slug}${template.version ? `-v${template.version}` : ''}.template.json`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const readConfig = (raw: Record<string, unknown>, errors: string[], label: string): QuestionConfig => {
+  const config: QuestionConfig = {};
+  (['options', 'rows'] as const).forEach(key => {
+    if (raw[key] === undefined) return;
+    if (isStringList(raw[key])) config[key] = raw[key] as string[];
+    else errors.push(`${label}: "${key}" must be a list of text`);
+  });
+  (['scale_max', 'min', 'max'] as const).forEach(key => {
+    if (raw[key] === undefined) return;
+    if (typeof raw[key] === 'number' && Number.isFinite(raw[key])) config[key] = raw[key] as number;
+    else errors.push(`${label}: "${key}" must be a number`);
+  });
+  if (raw.unit !== undefined) {
+    if (typeof raw.unit === 'string') config.unit = raw.unit;
+    else errors.push(`${label}: "unit" must be text`);
+  }
+  return config;
+};
+
+const readRule = (raw: unknown, errors: string[], label: string): QuestionRule | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw) || !Array.isArray(raw.conditions)) {
+    errors.push(`${label}: "rule" must have a list of conditions`);
+    return undefined;
+  }
+  if (raw.action !== 'show' && raw.action !== 'skip') errors.push(`${label}: rule action must be "show" or "skip"`);
+  if (raw.match !== 'all' && raw.match !== 'any') errors.push(`${label}: rule match must be "all" or "any"`);
+
+  const conditions: QuestionCondition[] = [];
+  raw.conditions.forEach((condition: unknown, index: number) => {
+    const where = `${label}, condition ${index + 1}`;
+    if (!isObject(condition) || typeof condition.source !== 'string') {
+      errors.push(`${where}: needs a "source" question id`);
+      return;
+    }
+    if (typeof condition.operator !== 'string' || !(condition.operator in OPERATOR_LABELS)) {
+      errors.push(`${where}: unknown operator "${String(condition.operator)}"`);
+      return;
+    }
+    if (condition.value !== undefined && typeof condition.value !== 'string') {
+      errors.push(`${where}: "value" must be text`);
+      return;
+    }
+    conditions.push({
+      source: condition.source,
+      operator: condition.operator as ConditionOperator,
+      ...(condition.value !== undefined ? { value: condition.value as string } : {}),
+    });
+  });
+
+  return { action: raw.action as QuestionRule['action'], match: raw.match as QuestionRule['match'], conditions };
+};
+
+/**
+ * Validate a template file and prepare it for import: fresh question ids,
+ * rules re-pointed at them, and settings cleaned as the builder saves them.
+ */
+export const parseTemplateFile = (text: string): TemplateFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['This file is not valid JSON'] };
+  }
+
+  if (!isObject(data) || data.format !== TEMPLATE_FILE_FORMAT) {
+    return { ok: false, errors: ["This file isn't a reference check template export"] };
+  }
+  if (typeof data.format_version !== 'number' || data.format_version > TEMPLATE_FILE_VERSION) {
+    return { ok: false, errors: ['This file was exported by a newer version of the app and cannot be imported here'] };
+  }
+
+  const errors: string[] = [];
+  const template = data.template;
+  if (!isObject(template)) return { ok: false, errors: ['The file has no template in it'] };
+
+  const name = typeof template.name === 'string' ? template.name.trim() : '';
+  if (!name) errors.push('Template name is missing');
+  else if (name.length > 100) errors.push('Template name is longer than 100 characters');
+
+  const description = typeof template.description === 'string' ? template.description : '';
+  if (description.length > 300) errors.push('Description is longer than 300 characters');
+
+  const category = typeof template.category === 'string' && template.category.trim() ? template.category.trim() : 'custom';
+
+  const schema = isObject(template.schema_json) ? template.schema_json : null;
+  const rawFields = schema && Array.isArray(schema.fields) ? schema.fields : null;
+  if (!rawFields) return { ok: false, errors: [...errors, 'The template has no list of questions'] };
+  if (rawFields.length === 0) errors.push('The template has no questions');
+  if (rawFields.length > MAX_QUESTIONS) errors.push(`Templates can have at most ${MAX_QUESTIONS} questions (this one has ${rawFields.length})`);
+
+  // Map each original id to a fresh one before reading rules, so conditions can be re-pointed
+  const idMap = new Map<string, string>();
+  rawFields.forEach((raw: unknown, index: number) => {
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) {
+      errors.push(`Question ${index + 1}: missing id`);
+    } else if (idMap.has(raw.id)) {
+      errors.push(`Question ${index + 1}: id "${raw.id}" is used by more than one question`);
+    } else {
+      idMap.set(raw.id, generateQuestionId());
+    }
+  });
+
+  const fields: TemplateField[] = [];
+  rawFields.forEach((raw: unknown, index: number) => {
+    const label = `Question ${index + 1}`;
+    if (!isObject(raw) || typeof raw.id !== 'string') return;
+
+    const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+    if (!text) errors.push(`${label}: question text is missing`);
+    else if (text.length > 500) errors.push(`${label}: question text is longer than 500 characters`);
+
+    if (raw.required !== undefined && typeof raw.required !== 'boolean') errors.push(`${label}: "required" must be true or false`);
+
+    const type = raw.type === undefined ? 'text' : raw.type;
+    if (!isQuestionType(type)) {
+      errors.push(`${label}: unknown question type "${String(raw.type)}"`);
+      return;
+    }
+
+    const config = readConfig(raw, errors, label);
+    const problem = configError(type, config);
+    if (problem) errors.push(`${label}: ${problem}`);
+
+    const rule = readRule(raw.rule, errors, label);
+    if (rule) {
+      rule.conditions = rule.conditions.map(condition => {
+        if (condition.source === RELATIONSHIP_SOURCE) return condition;
+        const source = idMap.get(condition.source);
+        if (!source) errors.push(`${label}: a rule refers to question "${condition.source}", which isn't in the file`);
+        return { ...condition, source: source || condition.source };
+      });
+    }
+
+    fields.push({
+      id: idMap.get(raw.id) || generateQuestionId(),
+      text,
+      required: raw.required === true,
+      type,
+      category: typeof raw.category === 'string' ? raw.category : 'Custom',
+      ...cleanConfig(type, config),
+      ...(rule && rule.conditions.length > 0 ? { rule } : {}),
+    });
+  });
+
+  if (fields.length > 0 && !fields.some(field => field.required)) {
+    errors.push('The template needs at least one required question');
+  }
+
+  // Loops and unreachable questions, checked on the re-pointed rules
+  if (errors.length === 0) {
+    const problems = ruleProblems(fields);
+    fields.forEach((field, index) => {
+      (problems[field.id] || []).forEach(problem => errors.push(`Question ${index + 1}: ${problem}`));
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    template: {
+      name,
+      description,
+      category,
+      schema_json: {
+        title: name,
+        description,
+        type: typeof schema!.type === 'string' ? schema!.type : 'chat',
+        fields,
+      },
+    },
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Form Validation
+ * Candidate and referee rules shared by the forms and the CSV import
+ *
+ * Each validator returns field name -> message; an empty object means valid.
+ */
+
+import { NewReferee, NewReferenceRequest } from './api';
+import { getEmailDomain, isDisposableDomain } from './emailDomains';
+import { isValidPhone } from './phone';
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type FieldErrors = Record<string, string>;
+
+type CandidateFields = Pick<
+  NewReferenceRequest,
+  'candidate_first_name' | 'candidate_last_name' | 'candidate_email' | 'position_applied_for'
+> & { candidate_phone_number?: string | null };
+
+/** Referees from the API carry the number as `phone`, new ones as `phone_number` */
+type RefereeFields = Pick<NewReferee, 'first_name' | 'last_name' | 'email' | 'relationship'> & {
+  phone_number?: string | null;
+  phone?: string | null;
+};
+
+/** Phone numbers are optional everywhere, but must parse if given */
+export const validatePhone = (phone?: string | null): string | undefined =>
+  phone && phone.trim() && !isValidPhone(phone) ? 'Enter a valid phone number, including the country code if outside NZ' : undefined;
+
+export const validateCandidate = (candidate: CandidateFields): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  if (!candidate.candidate_first_name.trim()) {
+    errors.candidate_first_name = 'First name is required';
+  }
+  if (!candidate.candidate_last_name.trim()) {
+    errors.candidate_last_name = 'Last name is required';
+  }
+  if (!candidate.position_applied_for.trim()) {
+    errors.position_applied_for = 'Position is required';
+  }
+  // Email is optional for candidates, but must be well formed if given
+  if (candidate.candidate_email && !candidate.candidate_email.match(EMAIL_PATTERN)) {
+    errors.candidate_email = 'Invalid email format';
+  }
+  const phoneError = validatePhone(candidate.candidate_phone_number);
+  if (phoneError) {
+    errors.candidate_phone_number = phoneError;
+  }
+
+  return errors;
+};
+
+export const validateReferee = (referee: RefereeFields): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  if (!referee.first_name.trim()) {
+    errors.first_name = 'First name is required';
+  }
+  if (!referee.last_name.trim()) {
+    errors.last_name = 'Last name is required';
+  }
+  if (!referee.email.trim()) {
+    errors.email = 'Email is required';
+  } else if (!referee.email.match(EMAIL_PATTERN)) {
+    errors.email = 'Invalid email format';
+  } else if (isDisposableDomain(getEmailDomain(referee.email))) {
+    errors.email = 'Disposable email addresses are not accepted';
+  }
+  if (!referee.relationship.trim()) {
+    errors.relationship = 'Relationship is required';
+  }
+  const phoneError = validatePhone(referee.phone_number ?? referee.phone);
+  if (phoneError) {
+    errors.phone_number = phoneError;
+  }
+
+  return errors;
+};
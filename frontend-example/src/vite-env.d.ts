@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEPLOY_ENV?: string;
+  readonly VITE_API_URL?: string;
+  readonly VITE_STAGING_API_URL?: string;
+  readonly VITE_PREVIEW_API_URL?: string;
+  readonly VITE_TENANT?: string;
+  readonly VITE_TENANT_API_URLS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}